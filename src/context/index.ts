@@ -4,6 +4,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 // VS Code extension API.
 import * as vscode from 'vscode';
+// Folder resolution for multi-root workspaces.
+import { getActiveWorkspaceRoot } from './workspaceRoots';
 
 // Structured context snapshot for the current workspace.
 export type ProjectContext = {
@@ -17,9 +19,9 @@ export type ProjectContext = {
 };
 
 /** Collect deterministic project context without using any LLM. */
-export function harvestContext(): ProjectContext {
-  // Workspace root folder (or null if none).
-  const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+export function harvestContext(root?: string | null): ProjectContext {
+  // Workspace root folder: explicit, else the run's folder (or null if none).
+  const rootPath = root ?? getActiveWorkspaceRoot();
   // Currently active editor file (or null if none).
   const activeEditorFile = vscode.window.activeTextEditor?.document.uri.fsPath ?? null;
   // Collected file list (relative to root).
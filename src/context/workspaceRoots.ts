@@ -0,0 +1,134 @@
+/** Multi-root workspace folder resolution for runs and commands. */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getForgeSetting } from '../forge/settings';
+
+export type WorkspaceRoot = {
+  name: string;
+  rootPath: string;
+};
+
+let activeRoot: string | null = null;
+
+/** Pin the workspace folder used by the current run (null clears it). */
+export function setActiveWorkspaceRoot(rootPath: string | null): void {
+  activeRoot = rootPath;
+}
+
+/** Folder of the current run, else the active editor's folder, else the first folder. */
+export function getActiveWorkspaceRoot(): string | null {
+  if (activeRoot) {
+    return activeRoot;
+  }
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath ?? null;
+  const editorRoot = activeFile ? getWorkspaceRootForFile(activeFile) : null;
+  return editorRoot ?? listWorkspaceRoots()[0]?.rootPath ?? null;
+}
+
+/** List open workspace folders in display order. */
+export function listWorkspaceRoots(): WorkspaceRoot[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+    name: folder.name,
+    rootPath: folder.uri.fsPath
+  }));
+}
+
+/** Resolve the workspace folder containing a file, if any. */
+export function getWorkspaceRootForFile(filePath: string): string | null {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath ?? null;
+}
+
+/** Check whether a path sits inside a root folder. */
+export function isInsideRoot(rootPath: string, filePath: string): boolean {
+  const relative = path.relative(rootPath, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Pick the folder an instruction targets: folders named or paths mentioned in the text first,
+ * then the active editor's folder, then a folder picker.
+ */
+export async function resolveWorkspaceRootForInstruction(
+  instruction: string,
+  activeFilePath: string | null
+): Promise<string | null> {
+  const roots = listWorkspaceRoots();
+  if (roots.length <= 1) {
+    return roots[0]?.rootPath ?? null;
+  }
+
+  const editorRoot = activeFilePath ? getWorkspaceRootForFile(activeFilePath) : null;
+  const mentioned = findMentionedRoots(instruction, roots);
+  if (mentioned.length === 1) {
+    return mentioned[0].rootPath;
+  }
+  if (mentioned.length > 1) {
+    if (editorRoot && mentioned.some((root) => root.rootPath === editorRoot)) {
+      return editorRoot;
+    }
+    return pickRoot(mentioned, 'Forge: Several workspace folders match this request. Pick one.');
+  }
+  if (editorRoot) {
+    return editorRoot;
+  }
+  return pickRoot(roots, 'Forge: Pick the workspace folder for this request.');
+}
+
+/** Resolve the folder for a standalone command: single folder, active editor's folder, or a picker. */
+export async function resolveWorkspaceRootForCommand(placeHolder: string): Promise<string | null> {
+  const roots = listWorkspaceRoots();
+  if (roots.length <= 1) {
+    return roots[0]?.rootPath ?? null;
+  }
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath ?? null;
+  const editorRoot = activeFile ? getWorkspaceRootForFile(activeFile) : null;
+  if (editorRoot) {
+    return editorRoot;
+  }
+  return pickRoot(roots, placeHolder);
+}
+
+/** Match folder names and existing relative paths mentioned in the instruction. */
+function findMentionedRoots(instruction: string, roots: WorkspaceRoot[]): WorkspaceRoot[] {
+  const lowered = instruction.toLowerCase();
+  const tokens = (instruction.match(/[A-Za-z0-9_@.\\/-]+/g) ?? [])
+    .map((token) => token.replace(/^[./\\]+/, '').replace(/[.,:;]+$/, ''))
+    .filter((token) => token.length > 0);
+
+  const byName = roots.filter((root) => {
+    const name = root.name.toLowerCase();
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[\\s"'\`(/])${escaped}([\\s"'\`)/,.:;]|$)`).test(lowered);
+  });
+  if (byName.length > 0) {
+    return byName;
+  }
+
+  // Fall back to paths that only exist under some of the folders.
+  const pathTokens = tokens.filter((token) => token.includes('/') || token.includes('\\') || /\.[A-Za-z0-9]+$/.test(token));
+  if (pathTokens.length === 0) {
+    return [];
+  }
+  return roots.filter((root) =>
+    pathTokens.some((token) => {
+      try {
+        return fs.existsSync(path.join(root.rootPath, token));
+      } catch {
+        return false;
+      }
+    })
+  );
+}
+
+async function pickRoot(candidates: WorkspaceRoot[], placeHolder: string): Promise<string | null> {
+  // Unattended profiles cannot stop for a picker; use the first candidate instead.
+  if (getForgeSetting<boolean>('skipConfirmations') === true) {
+    return candidates[0]?.rootPath ?? null;
+  }
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((root) => ({ label: root.name, description: root.rootPath, rootPath: root.rootPath })),
+    { placeHolder }
+  );
+  return picked?.rootPath ?? null;
+}
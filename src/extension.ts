@@ -1,18 +1,31 @@
 /** Forge extension entrypoint: command wiring and UI setup. */
 import * as vscode from 'vscode';
 import { harvestContext, type ProjectContext } from './context';
-import { applyLLMSettingsToEnv, startKeepAlive } from './extension/lifecycle';
+import { resolveWorkspaceRootForCommand } from './context/workspaceRoots';
+import { registerEndpointStatus } from './extension/endpointStatus';
+import { applyLLMSettings, checkEndpoints, startHealthChecks, startKeepAlive } from './extension/lifecycle';
+import { clearContextLimitCache } from './llm/contextLimits';
+import { clearEndpointHealth } from './llm/failover';
+import { clearGuidedDecodingCache } from './llm/guided';
+import { clearTokenCounterCache } from './llm/tokenizers';
 import {
   cancelActiveRun,
   createForgeRuntimeState,
+  handleRunHistoryRequest,
+  replayRecordedRun,
   runForge,
+  undoLastRun,
   updateActiveFile
 } from './extension/runtime';
+import { rebuildEmbeddingsIndex } from './forge/embeddingsIndex';
 import { runGitCommit, runGitPush, runGitStage } from './forge/gitActions';
+import { listRunRecords, loadRunRecord } from './forge/runRecorder';
+import { listWorkspaceFiles } from './forge/workspaceFiles';
 import { startWorkspaceIndexing } from './indexer/workspaceIndex';
 import type { ForgeUiApi } from './ui/api';
 import { ForgePanel } from './ui/panel';
 import { ForgeViewProvider } from './ui/view';
+import { registerValidationProblems } from './validation/problems';
 
 /** Register commands, UI panels, and watchers for the Forge extension. */
 export function activate(context: vscode.ExtensionContext): void {
@@ -20,17 +33,26 @@ export function activate(context: vscode.ExtensionContext): void {
   const output = vscode.window.createOutputChannel('Forge');
   let panelApi: ForgeUiApi | undefined;
 
-  // Sync VS Code settings into env vars for shared LLM configuration.
-  applyLLMSettingsToEnv();
+  // Route every LLM role from the VS Code settings and .forge/models.json.
+  applyLLMSettings();
   const configWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
     if (event.affectsConfiguration('forge')) {
-      applyLLMSettingsToEnv();
+      applyLLMSettings();
+      // Endpoint or server changes may change what the backend supports.
+      clearGuidedDecodingCache();
+      clearContextLimitCache();
+      clearTokenCounterCache();
+      clearEndpointHealth();
       startKeepAlive();
+      startHealthChecks();
     }
   });
 
   startWorkspaceIndexing(context);
+  registerValidationProblems(context);
+  registerEndpointStatus(context);
   startKeepAlive();
+  startHealthChecks();
 
   // Register the Forge run command (input box).
   const runCommand = vscode.commands.registerCommand('forge.run', async () => {
@@ -60,6 +82,12 @@ export function activate(context: vscode.ExtensionContext): void {
     panel.setStopHandler(() => {
       cancelActiveRun(runtime, api, output);
     });
+    panel.setUndoHandler(() => {
+      void undoLastRun(runtime, output, api);
+    });
+    panel.setHistoryHandler((request) => {
+      void handleRunHistoryRequest(runtime, request, output, api);
+    });
     updateActiveFile(runtime, api);
   });
 
@@ -75,6 +103,12 @@ export function activate(context: vscode.ExtensionContext): void {
   viewProvider.setStopHandler(() => {
     cancelActiveRun(runtime, viewProvider.getApi(), output);
   });
+  viewProvider.setUndoHandler(() => {
+    void undoLastRun(runtime, output, viewProvider.getApi());
+  });
+  viewProvider.setHistoryHandler((request) => {
+    void handleRunHistoryRequest(runtime, request, output, viewProvider.getApi());
+  });
   viewProvider.setReadyHandler(() => {
     updateActiveFile(runtime, viewProvider.getApi());
   });
@@ -87,7 +121,7 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   const gitStageCommand = vscode.commands.registerCommand('forge.gitStage', async () => {
-    const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+    const rootPath = await resolveWorkspaceRootForCommand('Forge: Pick the repository folder.');
     if (!rootPath) {
       void vscode.window.showErrorMessage('Forge: Open a workspace folder first.');
       return;
@@ -96,7 +130,7 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   const gitCommitCommand = vscode.commands.registerCommand('forge.gitCommit', async () => {
-    const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+    const rootPath = await resolveWorkspaceRootForCommand('Forge: Pick the repository folder.');
     if (!rootPath) {
       void vscode.window.showErrorMessage('Forge: Open a workspace folder first.');
       return;
@@ -105,7 +139,7 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   const gitPushCommand = vscode.commands.registerCommand('forge.gitPush', async () => {
-    const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+    const rootPath = await resolveWorkspaceRootForCommand('Forge: Pick the repository folder.');
     if (!rootPath) {
       void vscode.window.showErrorMessage('Forge: Open a workspace folder first.');
       return;
@@ -113,6 +147,49 @@ export function activate(context: vscode.ExtensionContext): void {
     await runGitPush(rootPath, output);
   });
 
+  const rebuildIndexCommand = vscode.commands.registerCommand('forge.rebuildIndex', async () => {
+    const rootPath = await resolveWorkspaceRootForCommand('Forge: Pick the folder to re-index.');
+    if (!rootPath) {
+      void vscode.window.showErrorMessage('Forge: Open a workspace folder first.');
+      return;
+    }
+    const config = vscode.workspace.getConfiguration('forge');
+    if (config.get<boolean>('embeddingEnabled') !== true || !(config.get<string>('embeddingModel') ?? '').trim()) {
+      void vscode.window.showWarningMessage('Forge: Enable forge.embeddingEnabled and set forge.embeddingModel first.');
+      return;
+    }
+    output.appendLine(`Rebuilding embeddings index for ${rootPath}...`);
+    const result = await rebuildEmbeddingsIndex(rootPath, listWorkspaceFiles(rootPath, 4, 2000), config);
+    if (!result) {
+      output.appendLine('Embeddings index rebuild failed (check the embedding endpoint).');
+      void vscode.window.showErrorMessage('Forge: Embeddings index rebuild failed.');
+      return;
+    }
+    output.appendLine(`Embeddings index: ${result.chunks} chunks from ${result.files} files.`);
+    void vscode.window.showInformationMessage(`Forge: Indexed ${result.chunks} chunks from ${result.files} files.`);
+  });
+
+  const checkEndpointsCommand = vscode.commands.registerCommand('forge.checkEndpoints', async () => {
+    await checkEndpoints();
+  });
+
+  const undoCommand = vscode.commands.registerCommand('forge.undoLastRun', async () => {
+    await undoLastRun(runtime, output, panelApi);
+  });
+
+  const replayRunCommand = vscode.commands.registerCommand('forge.replayRun', async (uri?: vscode.Uri) => {
+    const filePath = uri?.fsPath ?? (await pickRunRecord());
+    if (!filePath) {
+      return;
+    }
+    const record = loadRunRecord(filePath);
+    if (!record) {
+      void vscode.window.showErrorMessage('Forge: Not a readable run record.');
+      return;
+    }
+    await replayRecordedRun(runtime, record, output, panelApi);
+  });
+
   const activeEditorWatcher = vscode.window.onDidChangeActiveTextEditor(() => {
     updateActiveFile(runtime, panelApi);
     updateActiveFile(runtime, viewProvider.getApi());
@@ -127,6 +204,10 @@ export function activate(context: vscode.ExtensionContext): void {
     gitStageCommand,
     gitCommitCommand,
     gitPushCommand,
+    undoCommand,
+    replayRunCommand,
+    rebuildIndexCommand,
+    checkEndpointsCommand,
     configWatcher,
     activeEditorWatcher
   );
@@ -141,3 +222,27 @@ function logContext(output: vscode.OutputChannel, contextObject: ProjectContext)
   output.appendLine(JSON.stringify(contextObject, null, 2));
   output.show(true);
 }
+
+/** Pick a recorded run from `.forge/runs`, or browse for a run file. */
+async function pickRunRecord(): Promise<string | null> {
+  const rootPath = await resolveWorkspaceRootForCommand('Forge: Pick the folder whose runs to list.');
+  const browse = { label: 'Browse for a run file...', filePath: '' };
+  const items = (rootPath ? listRunRecords(rootPath) : []).map((summary) => ({
+    label: summary.instruction.split('\n')[0].slice(0, 80) || summary.id,
+    description: `${summary.startedAt} · ${summary.outcome ?? 'unfinished'}`,
+    filePath: summary.filePath
+  }));
+  const picked = await vscode.window.showQuickPick([...items, browse], { placeHolder: 'Forge: Pick a run to replay.' });
+  if (!picked) {
+    return null;
+  }
+  if (picked !== browse) {
+    return picked.filePath;
+  }
+  const selection = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: rootPath ? vscode.Uri.file(rootPath) : undefined,
+    filters: { 'Forge run records': ['jsonl'] }
+  });
+  return selection?.[0]?.fsPath ?? null;
+}
@@ -0,0 +1,69 @@
+/** Status-bar indicator for the live LLM endpoint and open circuits. */
+import * as vscode from 'vscode';
+import { getEndpointHealth, getLiveEndpoint, isEndpointOpen, onEndpointHealthChange, type EndpointHealth } from '../llm/failover';
+
+let item: vscode.StatusBarItem | null = null;
+
+/** Create the status-bar item; clicking it re-checks every routed endpoint. */
+export function registerEndpointStatus(context: vscode.ExtensionContext): void {
+  item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  item.command = 'forge.checkEndpoints';
+  const unsubscribe = onEndpointHealthChange(updateEndpointStatus);
+  updateEndpointStatus();
+  item.show();
+  context.subscriptions.push(item, { dispose: unsubscribe });
+}
+
+function updateEndpointStatus(): void {
+  if (!item) {
+    return;
+  }
+  const endpoints = getEndpointHealth();
+  const now = Date.now();
+  const open = endpoints.filter((health) => isEndpointOpen(health, now));
+  const live = getLiveEndpoint();
+  const serving = live && !isEndpointOpen(live, now) ? live : endpoints.find((health) => !isEndpointOpen(health, now));
+
+  if (endpoints.length === 0) {
+    item.text = '$(circle-outline) Forge LLM';
+  } else if (!serving) {
+    item.text = '$(error) Forge LLM down';
+  } else {
+    item.text = `${open.length > 0 ? '$(warning)' : '$(pulse)'} ${formatHost(serving.endpoint)}`;
+  }
+  item.backgroundColor = endpoints.length > 0 && !serving
+    ? new vscode.ThemeColor('statusBarItem.errorBackground')
+    : open.length > 0
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown('**Forge LLM endpoints**\n\n');
+  if (endpoints.length === 0) {
+    tooltip.appendMarkdown('No requests or health checks yet. Click to check now.');
+  }
+  for (const health of endpoints) {
+    const marker = health.key === live?.key ? ' (live)' : '';
+    tooltip.appendMarkdown(`- \`${health.endpoint}\` ${health.model}${marker}: ${describeHealth(health, now)}\n`);
+  }
+  item.tooltip = tooltip;
+}
+
+function describeHealth(health: EndpointHealth, now: number): string {
+  if (isEndpointOpen(health, now)) {
+    const seconds = Math.ceil((health.openUntil - now) / 1000);
+    return `circuit open, retry in ${seconds}s (${health.lastError ?? 'failed'})`;
+  }
+  if (health.consecutiveFailures > 0) {
+    return `${health.consecutiveFailures} consecutive failure(s) (${health.lastError ?? 'failed'})`;
+  }
+  return 'healthy';
+}
+
+function formatHost(endpoint: string): string {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint;
+  }
+}
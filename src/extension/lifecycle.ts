@@ -1,65 +1,110 @@
 /** Extension lifecycle helpers (settings sync + keep-alive). */
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { getActiveWorkspaceRoot } from '../context/workspaceRoots';
 import { pingLLM } from '../llm/client';
+import { parseLLMProviderKind, parseTokenizerMode, resolveLLMConfig, type LLMConfig } from '../llm/config';
+import { configureFailover, recordEndpointFailure, recordEndpointSuccess } from '../llm/failover';
+import { configureResponseCache, parseResponseCacheMode } from '../llm/responseCache';
+import {
+  configureModelRouting,
+  listRoutedConfigs,
+  parseModelRoutingFile,
+  type ModelRoute,
+  type ModelRoutingFile
+} from '../llm/routing';
+
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
 
 let keepAliveTimer: NodeJS.Timeout | null = null;
+let healthCheckTimer: NodeJS.Timeout | null = null;
 
-/** Read VS Code settings and sync them into env vars for the LLM client. */
-export function applyLLMSettingsToEnv(): void {
+/** Read VS Code settings into the model router used by every LLM call site. */
+export function applyLLMSettings(): void {
   const config = vscode.workspace.getConfiguration('forge');
-  const endpoint = config.get<string>('llmEndpoint');
-  const model = config.get<string>('llmModel');
-  const apiKey = config.get<string>('llmApiKey');
-  const timeoutMs = config.get<number>('llmTimeoutMs');
-  const planModel = config.get<string>('llmPlanModel');
-  const planEndpoint = config.get<string>('llmPlanEndpoint');
-  const planApiKey = config.get<string>('llmPlanApiKey');
-  const verifyModel = config.get<string>('llmVerifyModel');
-  const verifyEndpoint = config.get<string>('llmVerifyEndpoint');
-  const verifyApiKey = config.get<string>('llmVerifyApiKey');
-  const summaryModel = config.get<string>('llmSummaryModel');
-  const summaryEndpoint = config.get<string>('llmSummaryEndpoint');
-  const summaryApiKey = config.get<string>('llmSummaryApiKey');
-
-  if (endpoint && endpoint.trim().length > 0) {
-    process.env.FORGE_LLM_ENDPOINT = endpoint.trim();
-  }
-  if (model && model.trim().length > 0) {
-    process.env.FORGE_LLM_MODEL = model.trim();
-  }
-  if (apiKey && apiKey.trim().length > 0) {
-    process.env.FORGE_LLM_API_KEY = apiKey.trim();
-  }
-  if (timeoutMs && Number.isFinite(timeoutMs)) {
-    process.env.FORGE_LLM_TIMEOUT_MS = String(timeoutMs);
+  const base: LLMConfig = {};
+  const provider = parseLLMProviderKind(config.get<string>('llmProvider'));
+  if (provider) {
+    base.provider = provider;
   }
-  if (planModel && planModel.trim().length > 0) {
-    process.env.FORGE_LLM_MODEL_PLAN = planModel.trim();
+  const endpoint = readSetting(config, 'llmEndpoint');
+  if (endpoint) {
+    base.endpoint = endpoint;
   }
-  if (planEndpoint && planEndpoint.trim().length > 0) {
-    process.env.FORGE_LLM_ENDPOINT_PLAN = planEndpoint.trim();
+  const model = readSetting(config, 'llmModel');
+  if (model) {
+    base.model = model;
   }
-  if (planApiKey && planApiKey.trim().length > 0) {
-    process.env.FORGE_LLM_API_KEY_PLAN = planApiKey.trim();
+  const apiKey = readSetting(config, 'llmApiKey');
+  if (apiKey) {
+    base.apiKey = apiKey;
   }
-  if (verifyModel && verifyModel.trim().length > 0) {
-    process.env.FORGE_LLM_MODEL_VERIFY = verifyModel.trim();
+  const timeoutMs = config.get<number>('llmTimeoutMs');
+  if (timeoutMs && Number.isFinite(timeoutMs)) {
+    base.timeoutMs = timeoutMs;
   }
-  if (verifyEndpoint && verifyEndpoint.trim().length > 0) {
-    process.env.FORGE_LLM_ENDPOINT_VERIFY = verifyEndpoint.trim();
+  const keepAlive = readSetting(config, 'llmKeepAlive');
+  if (keepAlive) {
+    base.keepAlive = keepAlive;
   }
-  if (verifyApiKey && verifyApiKey.trim().length > 0) {
-    process.env.FORGE_LLM_API_KEY_VERIFY = verifyApiKey.trim();
+  const guidedDecoding = readSetting(config, 'llmGuidedDecoding');
+  if (guidedDecoding) {
+    base.guidedDecoding = guidedDecoding === 'off' ? 'off' : 'auto';
   }
-  if (summaryModel && summaryModel.trim().length > 0) {
-    process.env.FORGE_LLM_MODEL_SUMMARY = summaryModel.trim();
+  const tokenizer = readSetting(config, 'llmTokenizer');
+  if (tokenizer) {
+    base.tokenizer = parseTokenizerMode(tokenizer);
   }
-  if (summaryEndpoint && summaryEndpoint.trim().length > 0) {
-    process.env.FORGE_LLM_ENDPOINT_SUMMARY = summaryEndpoint.trim();
+  const tokenizerPath = readSetting(config, 'llmTokenizerPath');
+  if (tokenizerPath) {
+    base.tokenizerPath = tokenizerPath;
   }
-  if (summaryApiKey && summaryApiKey.trim().length > 0) {
-    process.env.FORGE_LLM_API_KEY_SUMMARY = summaryApiKey.trim();
+
+  // The older per-role settings act as inline routes under `forge.llmModels`.
+  const fromSetting = parseModelRoutingFile(config.get<unknown>('llmModels')) ?? {};
+  const legacyRoles: ModelRoutingFile['roles'] = {};
+  for (const [role, prefix] of [['plan', 'llmPlan'], ['verify', 'llmVerify'], ['summary', 'llmSummary']] as const) {
+    const route: ModelRoute = {};
+    const roleModel = readSetting(config, `${prefix}Model`);
+    const roleEndpoint = readSetting(config, `${prefix}Endpoint`);
+    const roleApiKey = readSetting(config, `${prefix}ApiKey`);
+    if (roleModel) {
+      route.model = roleModel;
+    }
+    if (roleEndpoint) {
+      route.endpoint = roleEndpoint;
+    }
+    if (roleApiKey) {
+      route.apiKey = roleApiKey;
+    } else if (roleEndpoint && apiKey) {
+      // Both come from the user's own settings, so the legacy role endpoint keeps sharing forge.llmApiKey.
+      route.apiKey = apiKey;
+    }
+    if (Object.keys(route).length > 0) {
+      legacyRoles[role] = route;
+    }
   }
+
+  configureModelRouting({
+    base,
+    settings: { models: fromSetting.models, roles: { ...legacyRoles, ...fromSetting.roles } },
+    workspaceRoot: getActiveWorkspaceRoot,
+    trustWorkspaceFile: () => vscode.workspace.isTrusted
+  });
+  configureFailover({
+    retries: Math.max(0, config.get<number>('llmRetryAttempts') ?? 2),
+    failureThreshold: Math.max(1, config.get<number>('llmCircuitBreakerThreshold') ?? 3),
+    cooldownMs: Math.max(1, config.get<number>('llmCircuitBreakerCooldownSeconds') ?? 30) * 1000
+  });
+  configureResponseCache({
+    mode: parseResponseCacheMode(config.get<string>('llmCacheMode')),
+    directory: () => {
+      const rootPath = getActiveWorkspaceRoot();
+      return rootPath ? path.join(rootPath, '.forge', 'cache') : null;
+    },
+    ttlMs: Math.max(0, config.get<number>('llmCacheTtlHours') ?? 168) * 60 * 60 * 1000,
+    maxBytes: Math.max(1, config.get<number>('llmCacheMaxMB') ?? 100) * 1024 * 1024
+  });
 }
 
 /** Keep the LLM warm by pinging it on a timer. */
@@ -74,6 +119,44 @@ export function startKeepAlive(): void {
     return;
   }
   keepAliveTimer = setInterval(() => {
-    void pingLLM().catch(() => undefined);
+    void checkEndpoints();
   }, intervalSeconds * 1000);
 }
+
+/** Ping every routed endpoint on a timer so failover and the status bar track outages. */
+export function startHealthChecks(): void {
+  const config = vscode.workspace.getConfiguration('forge');
+  const intervalSeconds = config.get<number>('llmHealthCheckSeconds') ?? 0;
+  if (healthCheckTimer) {
+    clearInterval(healthCheckTimer);
+    healthCheckTimer = null;
+  }
+  if (!intervalSeconds || intervalSeconds <= 0) {
+    return;
+  }
+  void checkEndpoints();
+  healthCheckTimer = setInterval(() => {
+    void checkEndpoints();
+  }, intervalSeconds * 1000);
+}
+
+/** Ping every routed endpoint (including failover entries) and record the results for the circuit breaker. */
+export async function checkEndpoints(): Promise<void> {
+  await Promise.all(
+    listRoutedConfigs().map(async (routed) => {
+      const resolved = resolveLLMConfig(routed);
+      try {
+        const timeoutMs = resolved.timeoutMs > 0 ? Math.min(resolved.timeoutMs, HEALTH_CHECK_TIMEOUT_MS) : HEALTH_CHECK_TIMEOUT_MS;
+        await pingLLM({ ...routed, timeoutMs });
+        recordEndpointSuccess(resolved);
+      } catch (error) {
+        recordEndpointFailure(resolved, error);
+      }
+    })
+  );
+}
+
+function readSetting(config: vscode.WorkspaceConfiguration, key: string): string | undefined {
+  const value = config.get<string>(key);
+  return value && value.trim().length > 0 ? value.trim() : undefined;
+}
@@ -1,9 +1,8 @@
 /** Forge runtime orchestration for a single instruction run. */
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { logActionPurpose } from '../forge/actionPurpose';
-import { buildInlineDiffPreview, getLineChangeSummary } from '../forge/diff';
+import { buildInlineDiffPreview, buildUnifiedDiff, getLineChangeSummary } from '../forge/diff';
 import {
   maybeDetectGitActions,
   maybeRunGitWorkflow,
@@ -20,10 +19,12 @@ import {
   parseDisambiguationPick,
   shouldContinueAfterValidationPass
 } from '../forge/intent';
-import { formatDuration, logOutput } from '../forge/logging';
+import { formatDuration, logOutput, logVerbose } from '../forge/logging';
 import { answerQuestion } from '../forge/questions';
-import { getForgeSetting } from '../forge/settings';
-import { endTrace, recordPayload, recordStep, startTrace } from '../forge/trace';
+import { finishRunRecording, getReplaySettings, startRunRecording, type RunRecord } from '../forge/runRecorder';
+import { getForgeSetting, setForgeSettingOverrides, snapshotForgeSettings } from '../forge/settings';
+import { finishFixCheckpoints, recordFixAttempt, startFixCheckpoints, trackFixFiles } from '../forge/fixCheckpoints';
+import { endTrace, recordDiff, recordStep, startTrace } from '../forge/trace';
 import { buildContextBundle } from '../forge/contextBundle';
 import { generateHumanSummary } from '../forge/humanSummary';
 import { generatePlanSummary } from '../forge/planSummary';
@@ -37,22 +38,53 @@ import {
   requestMultiFileUpdate,
   requestSingleFileUpdate
 } from '../forge/updates';
-import { buildValidationFailureContext, maybeRunValidation, runValidationFirstFix } from '../forge/validationFlow';
+import {
+  buildValidationFailureContext,
+  captureValidationBaseline,
+  describeValidationFailures,
+  maybeRunValidation,
+  runValidationFirstFix,
+  validateBeforeApply,
+  type SandboxValidationResult,
+  type ValidationResult
+} from '../forge/validationFlow';
+import { listValidationProblems, type ValidationBaseline } from '../forge/validationBaseline';
 import { listWorkspaceFiles } from '../forge/workspaceFiles';
 import {
   buildChangeSummaryText,
   formatClarificationFollowup,
   formatClarificationProposal,
   parseClarificationDecision,
+  reviewHunksBeforeApply,
   runToolAwarePreflight
 } from './runtimeHelpers';
-import type { ForgeUiApi } from '../ui/api';
+import type { ForgeUiApi, RunHistoryRequest } from '../ui/api';
 import type { ForgePanel } from '../ui/panel';
 import type { ForgeViewProvider } from '../ui/view';
 import { appendRunMemory, loadMemoryContext, type MemoryEntry, type MemoryOptions } from '../forge/memory';
+import { replayLLMExchanges } from '../llm/exchanges';
+import { listRunHistory, loadRunHistoryDetail } from '../forge/runHistory';
+import {
+  getWorkspaceRootForFile,
+  isInsideRoot,
+  listWorkspaceRoots,
+  resolveWorkspaceRootForInstruction,
+  setActiveWorkspaceRoot
+} from '../context/workspaceRoots';
+import {
+  commitFileUpdates,
+  endRunSnapshot,
+  findFilesModifiedSinceRun,
+  loadLastRunSnapshot,
+  loadRunSnapshot,
+  startRunSnapshot,
+  undoRunSnapshot,
+  type RunSnapshot
+} from '../forge/runSnapshot';
 
 export type ForgeRuntimeState = {
   lastActiveFile: string | null;
+  lastActiveRoot: string | null;
   activeAbortController: AbortController | null;
   panelInstance: ForgePanel | null;
   viewProviderInstance: ForgeViewProvider | null;
@@ -75,6 +107,7 @@ export type ForgeRuntimeState = {
 export function createForgeRuntimeState(): ForgeRuntimeState {
   return {
     lastActiveFile: null,
+    lastActiveRoot: null,
     activeAbortController: null,
     panelInstance: null,
     viewProviderInstance: null,
@@ -97,19 +130,29 @@ export function updateActiveFile(state: ForgeRuntimeState, panelApi?: ForgeUiApi
   }
 
   const activeFilePath = activeEditor.document.uri.fsPath;
-  const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+  const rootPath = getWorkspaceRootForFile(activeFilePath);
   const relativePath = rootPath ? path.relative(rootPath, activeFilePath) : path.basename(activeFilePath);
   state.lastActiveFile = relativePath;
-  panelApi?.setActiveFile(relativePath);
+  state.lastActiveRoot = rootPath;
+  // Multi-root workspaces show the folder name so the user can tell which root is active.
+  panelApi?.setActiveFile(
+    rootPath && listWorkspaceRoots().length > 1
+      ? vscode.workspace.asRelativePath(activeFilePath, true)
+      : relativePath
+  );
 }
 
-/** Run the full Forge pipeline for a single instruction. */
+/**
+ * Run the full Forge pipeline for a single instruction. With `replay`, the recorded run's settings
+ * are pinned and its LLM responses are served instead of calling the network.
+ */
 export async function runForge(
   state: ForgeRuntimeState,
   instruction: string,
   output: vscode.OutputChannel,
   panelApi?: ForgeUiApi,
-  history?: ChatHistoryItem[]
+  history?: ChatHistoryItem[],
+  replay?: RunRecord
 ): Promise<void> {
   let rootPath: string | null = null;
   let intent: Intent | null = null;
@@ -118,19 +161,38 @@ export async function runForge(
   let changeDetailText = '';
   let appliedUpdates: FileUpdate[] = [];
   let verificationResult: { status: 'pass' | 'fail'; issues: string[]; confidence?: string } | null = null;
-  let validationSummary: { ok: boolean; command: string | null; label: string | null } | null = null;
+  let validationSummary: MemoryEntry['validation'] | null = null;
+  let validationBaseline: ValidationBaseline | null = null;
+  let preApplyValidation: SandboxValidationResult | null = null;
   let memoryContext: string | null = null;
   let memoryEntry: MemoryEntry | null = null;
   let memoryOptions: MemoryOptions | null = null;
   let memoryOutcome: MemoryEntry['outcome'] = 'completed';
   const decisions: string[] = [];
   const constraints: string[] = [];
+  const runId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
   state.activeAbortController?.abort();
-  state.activeAbortController = new AbortController();
-  const signal = state.activeAbortController.signal;
+  const controller = new AbortController();
+  state.activeAbortController = controller;
+  const signal = controller.signal;
   startTrace();
   const startedAt = Date.now();
+  // Always reset: a stopped replay may still be unwinding when this run starts.
+  setForgeSettingOverrides(replay ? getReplaySettings(replay) : null);
+  replayLLMExchanges(replay ? replay.exchanges : null);
+  const recordRun = getForgeSetting<boolean>('recordRuns') !== false;
+  if (recordRun) {
+    startRunRecording({
+      id: runId,
+      startedAt: new Date(startedAt).toISOString(),
+      instruction,
+      history: history ?? [],
+      activeFile: state.lastActiveFile,
+      settings: snapshotForgeSettings(),
+      replayOf: replay?.header.id
+    });
+  }
   if (state.runTimer) {
     clearInterval(state.runTimer);
   }
@@ -153,6 +215,27 @@ export async function runForge(
       panelApi?.appendLog(text);
     };
 
+    // Capture the validation baseline and, when enabled, validate + auto-fix in a sandbox first.
+    const prepareValidation = async (
+      root: string,
+      updates: FileUpdate[]
+    ): Promise<{ baseline: ValidationBaseline | null; sandbox: SandboxValidationResult | null }> => {
+      setStatus('Capturing validation baseline...');
+      const baseline = await captureValidationBaseline(root, output, instruction, signal);
+      if (getForgeSetting<boolean>('validateBeforeApply') !== true) {
+        return { baseline, sandbox: null };
+      }
+      setStatus('Validating in sandbox...');
+      const sandbox = await validateBeforeApply(root, updates, instruction, output, {
+        panelApi,
+        history,
+        signal,
+        baseline,
+        extraFixContext: memoryContext ? `Project memory:\n${memoryContext}` : null
+      });
+      return { baseline, sandbox };
+    };
+
     setStatus('Checking active editor...');
 
     const enableMultiFile = getForgeSetting<boolean>('enableMultiFile') === true;
@@ -219,7 +302,22 @@ export async function runForge(
       }
     }
 
-    rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+    const editorFilePath = vscode.window.activeTextEditor?.document.uri.fsPath
+      ?? (state.lastActiveFile && state.lastActiveRoot ? path.join(state.lastActiveRoot, state.lastActiveFile) : null);
+    rootPath = await resolveWorkspaceRootForInstruction(instruction, editorFilePath);
+    if (!rootPath && listWorkspaceRoots().length > 0) {
+      log('No workspace folder selected.');
+      setStatus('Cancelled');
+      return;
+    }
+    setActiveWorkspaceRoot(rootPath);
+    if (rootPath) {
+      if (listWorkspaceRoots().length > 1) {
+        log(`Workspace folder: ${rootPath}`);
+        recordStep('Workspace folder', rootPath);
+      }
+      startRunSnapshot(rootPath, runId);
+    }
     // Load persisted memory (best-effort) to ground prompts across runs.
     const memoryEnabled = getForgeSetting<boolean>('enableMemory') !== false;
     memoryOptions = {
@@ -231,7 +329,7 @@ export async function runForge(
     if (memoryEnabled && rootPath) {
       memoryContext = loadMemoryContext(rootPath, memoryOptions);
       memoryEntry = {
-        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        id: runId,
         createdAt: new Date().toISOString(),
         instruction
       };
@@ -282,9 +380,13 @@ export async function runForge(
     let activeFilePath: string | null = activeEditor?.document.uri.fsPath ?? null;
     let relativePath: string | null = null;
 
+    // An editor from another workspace folder is not an edit target for this run.
+    if (activeFilePath && rootPath && !isInsideRoot(rootPath, activeFilePath)) {
+      activeFilePath = null;
+    }
     if (activeFilePath) {
       relativePath = rootPath ? path.relative(rootPath, activeFilePath) : path.basename(activeFilePath);
-    } else if (state.lastActiveFile && rootPath) {
+    } else if (state.lastActiveFile && rootPath && state.lastActiveRoot === rootPath) {
       activeFilePath = path.join(rootPath, state.lastActiveFile);
       relativePath = state.lastActiveFile;
     }
@@ -568,21 +670,33 @@ export async function runForge(
         if (inlineDiff) {
           diffSnippets.push(inlineDiff.join('\n'));
         }
-        if (inlineDiff) {
-          recordPayload(`Inline diff: ${file.relativePath}`, inlineDiff.join('\n'));
-        }
+        recordDiff(`Diff: ${file.relativePath}`, buildUnifiedDiff(file.original, file.updated, file.relativePath));
       }
       summaries.forEach((line) => log(line));
       const summaryBlock = buildChangeSummaryText(updatedFiles, summaries);
       changeSummaryText = summaryBlock.text;
       changeDetailText = diffSnippets.join('\n\n');
 
+      let filesToApply = updatedFiles;
       if (!skipConfirmations) {
-        const confirmApply = await vscode.window.showWarningMessage(
-          `Apply changes to ${updatedFiles.length} files?`,
-          'Apply',
-          'Cancel'
+        setStatus('Reviewing changes...');
+        const reviewed = await reviewHunksBeforeApply(
+          updatedFiles,
+          state.panelInstance,
+          state.viewProviderInstance,
+          output,
+          panelApi,
+          signal
         );
+        const confirmApply = reviewed
+          ? reviewed.length > 0
+            ? 'Apply'
+            : 'Cancel'
+          : await vscode.window.showWarningMessage(
+            `Apply changes to ${updatedFiles.length} files?`,
+            'Apply',
+            'Cancel'
+          );
 
         if (confirmApply !== 'Apply') {
           void vscode.window.showInformationMessage('Forge: Changes not applied.');
@@ -590,9 +704,47 @@ export async function runForge(
           setStatus('Cancelled');
           return;
         }
+        if (reviewed) {
+          filesToApply = reviewed;
+          appliedUpdates = reviewed;
+          changeSummaryText = buildChangeSummaryText(
+            reviewed,
+            reviewed
+              .map((file) => getLineChangeSummary(file.original, file.updated, file.relativePath))
+              .filter((line): line is string => Boolean(line))
+          ).text;
+        }
       }
 
-      const writeOk = applyFileUpdates(updatedFiles, output, panelApi);
+      if (rootPath) {
+        const prepared = await prepareValidation(rootPath, filesToApply);
+        validationBaseline = prepared.baseline;
+        preApplyValidation = prepared.sandbox;
+        if (preApplyValidation?.validation.cancelled) {
+          log('Validation cancelled. No files were changed.');
+          memoryOutcome = 'cancelled';
+          setStatus('Cancelled');
+          return;
+        }
+        if (preApplyValidation && !preApplyValidation.validation.ok) {
+          log('Validation failed in the sandbox. No files were changed.');
+          void vscode.window.showErrorMessage('Forge: Validation failed. No files were changed.');
+          memoryOutcome = 'error';
+          setStatus('Validation failed');
+          return;
+        }
+        if (preApplyValidation && preApplyValidation.fixAttempts > 0) {
+          filesToApply = preApplyValidation.updates;
+          appliedUpdates = preApplyValidation.updates;
+          changeSummaryText = buildChangeSummaryText(
+            filesToApply,
+            filesToApply
+              .map((file) => getLineChangeSummary(file.original, file.updated, file.relativePath))
+              .filter((line): line is string => Boolean(line))
+          ).text;
+        }
+      }
+      const writeOk = applyFileUpdates(filesToApply, output, panelApi);
       if (!writeOk) {
         if (memoryEntry) {
           memoryEntry.summary = 'Failed to write updated files.';
@@ -654,9 +806,12 @@ export async function runForge(
         panelApi.appendDiff(inlineDiff);
       }
       if (inlineDiff) {
-        recordPayload(`Inline diff: ${updatedFile.relativePath}`, inlineDiff.join('\n'));
         changeDetailText = inlineDiff.join('\n');
       }
+      recordDiff(
+        `Diff: ${updatedFile.relativePath}`,
+        buildUnifiedDiff(updatedFile.original, updatedFile.updated, updatedFile.relativePath)
+      );
 
       const showDiffPreview = getForgeSetting<boolean>('showDiffPreview') !== false;
       if (showDiffPreview) {
@@ -675,12 +830,25 @@ export async function runForge(
         }
       }
 
+      let fileToApply = updatedFile;
       if (!skipConfirmations) {
-        const confirmApply = await vscode.window.showWarningMessage(
-          'Apply the proposed changes to the file?',
-          'Apply',
-          'Cancel'
+        const reviewed = await reviewHunksBeforeApply(
+          [updatedFile],
+          state.panelInstance,
+          state.viewProviderInstance,
+          output,
+          panelApi,
+          signal
         );
+        const confirmApply = reviewed
+          ? reviewed.length > 0
+            ? 'Apply'
+            : 'Cancel'
+          : await vscode.window.showWarningMessage(
+            'Apply the proposed changes to the file?',
+            'Apply',
+            'Cancel'
+          );
 
         if (confirmApply !== 'Apply') {
           void vscode.window.showInformationMessage('Forge: Changes not applied.');
@@ -688,13 +856,49 @@ export async function runForge(
           setStatus('Cancelled');
           return;
         }
+        if (reviewed) {
+          fileToApply = reviewed[0];
+          appliedUpdates = reviewed;
+          const reviewedSummary = getLineChangeSummary(fileToApply.original, fileToApply.updated, fileToApply.relativePath);
+          changeSummaryText = buildChangeSummaryText(reviewed, reviewedSummary ? [reviewedSummary] : []).text;
+        }
       }
 
+      let singleFileWrites = [fileToApply];
+      if (rootPath) {
+        const prepared = await prepareValidation(rootPath, singleFileWrites);
+        validationBaseline = prepared.baseline;
+        preApplyValidation = prepared.sandbox;
+        if (preApplyValidation?.validation.cancelled) {
+          log('Validation cancelled. The file was not changed.');
+          memoryOutcome = 'cancelled';
+          setStatus('Cancelled');
+          return;
+        }
+        if (preApplyValidation && !preApplyValidation.validation.ok) {
+          log('Validation failed in the sandbox. The file was not changed.');
+          void vscode.window.showErrorMessage('Forge: Validation failed. The file was not changed.');
+          memoryOutcome = 'error';
+          setStatus('Validation failed');
+          return;
+        }
+        if (preApplyValidation && preApplyValidation.fixAttempts > 0) {
+          // Sandbox fixes may touch files beyond the one being edited.
+          singleFileWrites = preApplyValidation.updates;
+          appliedUpdates = preApplyValidation.updates;
+          changeSummaryText = buildChangeSummaryText(
+            singleFileWrites,
+            singleFileWrites
+              .map((file) => getLineChangeSummary(file.original, file.updated, file.relativePath))
+              .filter((line): line is string => Boolean(line))
+          ).text;
+        }
+      }
       try {
-        fs.writeFileSync(updatedFile.fullPath, updatedFile.updated, 'utf8');
+        commitFileUpdates(singleFileWrites);
         void vscode.window.showInformationMessage('Forge: Changes applied.');
       } catch (error) {
-        log(`Write error: ${String(error)}`);
+        log(`Write error: ${String(error)} (the file was not changed)`);
         void vscode.window.showErrorMessage('Forge: Failed to write the file.');
         if (memoryEntry) {
           memoryEntry.summary = 'Failed to write updated file.';
@@ -712,13 +916,32 @@ export async function runForge(
     if (rootPath) {
       const autoFixValidation = getForgeSetting<boolean>('autoFixValidation') === true;
       const maxFixRetries = Math.max(0, getForgeSetting<number>('autoFixMaxRetries') ?? 0);
-      let remainingFixRetries = maxFixRetries;
+      let remainingFixRetries = Math.max(0, maxFixRetries - (preApplyValidation?.fixAttempts ?? 0));
+      const changedFiles = new Set(appliedUpdates.map((update) => update.relativePath));
       verificationResult = null;
 
-      setStatus('Running validation...');
-      let validationResult = await maybeRunValidation(rootPath, output, instruction);
+      let validationResult: ValidationResult;
+      if (preApplyValidation) {
+        // Already validated in the sandbox against exactly what was written.
+        validationResult = preApplyValidation.validation;
+      } else {
+        setStatus('Running validation...');
+        validationResult = await maybeRunValidation(rootPath, output, instruction, {
+          baseline: validationBaseline,
+          signal,
+          changedFiles: Array.from(changedFiles)
+        });
+      }
 
-      while (true) {
+      // Each auto-fix attempt is checkpointed so regressions can be reverted.
+      const fixCheckpoints = startFixCheckpoints(
+        rootPath,
+        validationResult,
+        changedFiles,
+        { updates: appliedUpdates, summaryText: changeSummaryText },
+        getForgeSetting<boolean>('autoFixRevertRegressions') !== false
+      );
+      while (!validationResult.cancelled) {
         if (!validationResult.ok) {
           if (autoFixValidation && remainingFixRetries > 0) {
             const attempt = maxFixRetries - remainingFixRetries + 1;
@@ -729,24 +952,47 @@ export async function runForge(
             const autoFixContext = [failureContext, memoryContext ? `Project memory:\n${memoryContext}` : null]
               .filter(Boolean)
               .join('\n\n') || undefined;
+            const failureDetail = describeValidationFailures(validationResult, rootPath);
             const fixed = await attemptAutoFix(
               rootPath,
               instruction,
-              validationResult.output,
+              failureDetail.text,
               output,
               panelApi,
               history,
               signal,
-              autoFixContext
+              autoFixContext,
+              failureDetail.files,
+              (updates) => trackFixFiles(fixCheckpoints, updates.map((update) => update.relativePath))
             );
             if (!fixed) {
               break;
             }
-            appliedUpdates = fixed;
-            changeSummaryText = buildChangeSummaryText(fixed, []).text;
+            fixed.forEach((update) => changedFiles.add(update.relativePath));
             remainingFixRetries -= 1;
             setStatus('Re-running validation...');
-            validationResult = await maybeRunValidation(rootPath, output, instruction);
+            const fixValidation = await maybeRunValidation(rootPath, output, instruction, {
+              baseline: validationBaseline,
+              signal,
+              changedFiles: Array.from(changedFiles)
+            });
+            if (fixValidation.cancelled) {
+              validationResult = fixValidation;
+              continue;
+            }
+            const checkpoint = recordFixAttempt(fixCheckpoints, attempt, 'validation', fixValidation, {
+              updates: fixed,
+              summaryText: buildChangeSummaryText(fixed, []).text
+            });
+            if (checkpoint.status === 'reverted') {
+              log(
+                `Auto-fix attempt ${attempt} raised errors from ${fixCheckpoints.current.score.errors} ` +
+                  `to ${checkpoint.score.errors}; reverted it.`
+              );
+            }
+            appliedUpdates = fixCheckpoints.current.applied.updates;
+            changeSummaryText = fixCheckpoints.current.applied.summaryText;
+            validationResult = fixCheckpoints.current.validation;
             continue;
           }
           break;
@@ -757,8 +1003,10 @@ export async function runForge(
           changeSummaryText,
           validationResult.output,
           changeDetailText,
-          signal
+          signal,
+          validationResult.comparison ? listValidationProblems(validationResult.comparison) : null
         );
+        fixCheckpoints.current.applied.verification = verificationResult;
         if (memoryEntry) {
           memoryEntry.verification = {
             status: verificationResult.status,
@@ -781,30 +1029,81 @@ export async function runForge(
             memoryContext ? `Project memory:\n${memoryContext}` : null
           ].filter(Boolean);
           const extraContext = extraContextParts.join('\n\n');
+          const failureDetail = describeValidationFailures(validationResult, rootPath);
           const fixed = await attemptAutoFix(
             rootPath,
             instruction,
-            validationResult.output,
+            failureDetail.text,
             output,
             panelApi,
             history,
             signal,
-            extraContext
+            extraContext,
+            failureDetail.files,
+            (updates) => trackFixFiles(fixCheckpoints, updates.map((update) => update.relativePath))
           );
           if (!fixed) {
             break;
           }
-          appliedUpdates = fixed;
-          changeSummaryText = buildChangeSummaryText(fixed, []).text;
+          fixed.forEach((update) => changedFiles.add(update.relativePath));
           remainingFixRetries -= 1;
           setStatus('Re-running validation...');
-          validationResult = await maybeRunValidation(rootPath, output, instruction);
+          const fixValidation = await maybeRunValidation(rootPath, output, instruction, {
+            baseline: validationBaseline,
+            signal,
+            changedFiles: Array.from(changedFiles)
+          });
+          if (fixValidation.cancelled) {
+            validationResult = fixValidation;
+            continue;
+          }
+          const checkpoint = recordFixAttempt(fixCheckpoints, attempt, 'verification', fixValidation, {
+            updates: fixed,
+            summaryText: buildChangeSummaryText(fixed, []).text
+          });
+          if (checkpoint.status === 'reverted') {
+            log(
+              `Auto-fix attempt ${attempt} raised errors from ${fixCheckpoints.current.score.errors} ` +
+                `to ${checkpoint.score.errors}; reverted it.`
+            );
+          }
+          appliedUpdates = fixCheckpoints.current.applied.updates;
+          changeSummaryText = fixCheckpoints.current.applied.summaryText;
+          validationResult = fixCheckpoints.current.validation;
           continue;
         }
         break;
       }
 
+      if (!validationResult.cancelled) {
+        const finalCheckpoint = finishFixCheckpoints(fixCheckpoints);
+        if (finalCheckpoint.validation !== validationResult) {
+          log(`Restored the auto-fix checkpoint with the fewest errors (${finalCheckpoint.score.errors}).`);
+          validationResult = finalCheckpoint.validation;
+          appliedUpdates = finalCheckpoint.applied.updates;
+          changeSummaryText = finalCheckpoint.applied.summaryText;
+          verificationResult = finalCheckpoint.applied.verification ?? null;
+          if (memoryEntry) {
+            memoryEntry.verification = verificationResult
+              ? {
+                  status: verificationResult.status,
+                  confidence: verificationResult.confidence,
+                  issues: verificationResult.issues
+                }
+              : undefined;
+          }
+        }
+      }
+      if (validationResult.cancelled) {
+        log('Validation cancelled.');
+        memoryOutcome = 'cancelled';
+        setStatus('Cancelled');
+        return;
+      }
       if (!validationResult.ok) {
+        if (validationResult.timedOut) {
+          log('Validation timed out. Raise forge.validationTimeoutSeconds if the checks need longer.');
+        }
         void vscode.window.showErrorMessage('Forge: Validation failed.');
         memoryOutcome = 'error';
         setStatus('Validation failed');
@@ -816,6 +1115,13 @@ export async function runForge(
         command: validationResult.command,
         label: validationResult.label
       };
+      if (validationResult.comparison) {
+        const { introduced, fixed, preExisting } = validationResult.comparison;
+        log(`Validation: ${introduced.length} introduced, ${fixed.length} fixed, ${preExisting.length} pre-existing.`);
+        validationSummary.introduced = introduced.length;
+        validationSummary.fixed = fixed.length;
+        validationSummary.preExisting = preExisting.length;
+      }
       if (memoryEntry) {
         memoryEntry.validation = validationSummary;
       }
@@ -868,20 +1174,27 @@ export async function runForge(
       }
     }
   } finally {
+    // A stopped run can finish after a newer run started; shared run state then belongs to the newer run.
+    // (Stop clears the controller, so a run stopped with no successor still cleans up.)
+    const ownsRuntime = !state.activeAbortController || state.activeAbortController === controller;
+    endRunSnapshot(runId);
+    if (ownsRuntime) {
+      setActiveWorkspaceRoot(null);
+    }
     const elapsedMs = Date.now() - startedAt;
-    if (state.runTimer) {
+    if (ownsRuntime && state.runTimer) {
       clearInterval(state.runTimer);
       state.runTimer = null;
     }
-    if (panelApi) {
+    if (ownsRuntime && panelApi) {
       panelApi.setStatus('Done');
     }
-    if (panelApi?.appendPeek) {
+    if (ownsRuntime && panelApi?.appendPeek) {
       const entries = endTrace();
       if (entries.length > 0) {
         panelApi.appendPeek(entries);
       }
-    } else {
+    } else if (ownsRuntime) {
       endTrace();
     }
     if (memoryEntry && memoryOptions && rootPath && !signal.aborted) {
@@ -907,15 +1220,54 @@ export async function runForge(
         // Memory is best-effort and should never block the core workflow.
       }
     }
+    if (recordRun) {
+      const recordPath = finishRunRecording(
+        runId,
+        {
+          outcome: signal.aborted ? 'cancelled' : memoryOutcome,
+          durationMs: Date.now() - startedAt,
+          workspaceRoot: rootPath
+        },
+        Math.max(1, getForgeSetting<number>('recordRunsMax') ?? 50)
+      );
+      if (recordPath) {
+        logVerbose(output, panelApi, `Run recorded: ${recordPath}`);
+      }
+    }
+    if (replay && ownsRuntime) {
+      replayLLMExchanges(null);
+      setForgeSettingOverrides(null);
+    }
     if (!signal.aborted) {
       const doneMessage = `Done in ${formatDuration(elapsedMs)}.`;
       output.appendLine(doneMessage);
       panelApi?.appendLog(doneMessage);
     }
-    state.activeAbortController = null;
+    if (state.activeAbortController === controller) {
+      state.activeAbortController = null;
+    }
   }
 }
 
+/** Re-run a recorded run against the current workspace using its recorded LLM responses. */
+export async function replayRecordedRun(
+  state: ForgeRuntimeState,
+  record: RunRecord,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi
+): Promise<void> {
+  if (state.activeAbortController) {
+    void vscode.window.showWarningMessage('Forge: Stop the current run before replaying.');
+    return;
+  }
+  await runForge(state, record.header.instruction, output, panelApi, record.header.history, record);
+  logOutput(
+    output,
+    panelApi,
+    `Replayed run ${record.header.id} (${record.exchanges.length} recorded LLM responses).`
+  );
+}
+
 /** Abort any in-flight run and update UI status/logs. */
 export function cancelActiveRun(
   state: ForgeRuntimeState,
@@ -929,3 +1281,110 @@ export function cancelActiveRun(
     logOutput(output, panelApi, 'Run stopped.');
   }
 }
+
+/** Restore every file the most recent Forge run touched (files it created are deleted). */
+export async function undoLastRun(
+  state: ForgeRuntimeState,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi
+): Promise<void> {
+  if (state.activeAbortController) {
+    void vscode.window.showWarningMessage('Forge: Stop the current run before undoing.');
+    return;
+  }
+  const roots = listWorkspaceRoots();
+  if (roots.length === 0) {
+    void vscode.window.showErrorMessage('Forge: Open a workspace folder first.');
+    return;
+  }
+  // Each folder keeps its own snapshots; the most recent run across folders is undone.
+  let rootPath = roots[0].rootPath;
+  let snapshot: ReturnType<typeof loadLastRunSnapshot> = null;
+  for (const root of roots) {
+    const candidate = loadLastRunSnapshot(root.rootPath);
+    if (candidate && (!snapshot || candidate.createdAt > snapshot.createdAt)) {
+      snapshot = candidate;
+      rootPath = root.rootPath;
+    }
+  }
+  if (!snapshot || snapshot.files.length === 0) {
+    void vscode.window.showInformationMessage('Forge: No run to undo.');
+    return;
+  }
+  await confirmAndUndoSnapshot(rootPath, snapshot, 'the last Forge run', output, panelApi);
+}
+
+/** Revert one run from the history tab; later edits to the same files are overwritten after confirmation. */
+export async function revertRun(
+  state: ForgeRuntimeState,
+  rootPath: string,
+  runId: string,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi
+): Promise<void> {
+  if (state.activeAbortController) {
+    void vscode.window.showWarningMessage('Forge: Stop the current run before reverting.');
+    return;
+  }
+  const snapshot = loadRunSnapshot(rootPath, runId);
+  if (!snapshot || snapshot.undoneAt || snapshot.files.length === 0) {
+    void vscode.window.showInformationMessage('Forge: That run has no changes left to revert.');
+    return;
+  }
+  await confirmAndUndoSnapshot(rootPath, snapshot, `Forge run ${runId}`, output, panelApi);
+}
+
+/** Answer a history tab request; runs are only resolved inside the open workspace folders. */
+export async function handleRunHistoryRequest(
+  state: ForgeRuntimeState,
+  request: RunHistoryRequest,
+  output: vscode.OutputChannel,
+  panelApi: ForgeUiApi
+): Promise<void> {
+  const rootPaths = listWorkspaceRoots().map((root) => root.rootPath);
+  if (request.type === 'list') {
+    panelApi.showHistory?.(listRunHistory(rootPaths));
+    return;
+  }
+  if (!rootPaths.includes(request.rootPath)) {
+    panelApi.showHistoryDetail?.(null);
+    return;
+  }
+  if (request.type === 'detail') {
+    panelApi.showHistoryDetail?.(loadRunHistoryDetail(request.rootPath, request.id));
+    return;
+  }
+  await revertRun(state, request.rootPath, request.id, output, panelApi);
+  panelApi.showHistory?.(listRunHistory(rootPaths));
+}
+
+async function confirmAndUndoSnapshot(
+  rootPath: string,
+  snapshot: RunSnapshot,
+  label: string,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi
+): Promise<void> {
+  const modified = findFilesModifiedSinceRun(rootPath, snapshot);
+  const fileList = snapshot.files.map((file) => file.relativePath).join(', ');
+  const prompt = modified.length > 0
+    ? `Undo ${label}? ${modified.length} file(s) changed since the run and will be overwritten: ${modified.join(', ')}`
+    : `Undo ${label} (${snapshot.files.length} files: ${fileList})?`;
+  const confirm = await vscode.window.showWarningMessage(prompt, 'Undo', 'Cancel');
+  if (confirm !== 'Undo') {
+    return;
+  }
+
+  try {
+    const result = undoRunSnapshot(rootPath, snapshot);
+    logOutput(output, panelApi, `Undid run ${result.runId}.`);
+    result.restored.forEach((file) => logOutput(output, panelApi, `- restored ${file}`));
+    result.deleted.forEach((file) => logOutput(output, panelApi, `- deleted ${file}`));
+    void vscode.window.showInformationMessage(
+      `Forge: Undo complete (${result.restored.length + result.deleted.length} files).`
+    );
+  } catch (error) {
+    logOutput(output, panelApi, `Undo error: ${String(error)} (no files were changed)`);
+    void vscode.window.showErrorMessage('Forge: Undo failed.');
+  }
+}
@@ -1,17 +1,20 @@
 /** Helper utilities for the Forge runtime orchestration. */
-import * as fs from 'fs';
-import * as path from 'path';
 import type * as vscode from 'vscode';
 import { harvestContext } from '../context';
 import { compressTask } from '../compressor';
-import { getDiff, isGitRepo } from '../git';
 import { getRoutedConfig } from '../llm/routing';
+import { buildDiffHunks, formatHunkHeader, mergeAcceptedHunks } from '../forge/diff';
 import { logOutput } from '../forge/logging';
-import { recordStep } from '../forge/trace';
+import { getForgeSetting } from '../forge/settings';
+import { recordPayload, recordStep, redactSecrets } from '../forge/trace';
 import { nextToolCall } from '../planner';
-import { runCommand } from '../validation';
+import type { ToolResult } from '../planner';
+import { describeToolCall, executeToolCall, truncateText } from '../planner/tools';
 import type { ForgeUiApi } from '../ui/api';
-import type { FileUpdate } from '../forge/types';
+import type { FileUpdate, HunkReviewRequester } from '../forge/types';
+
+const DEFAULT_AGENT_MAX_STEPS = 4;
+const PLANNER_RESULT_CHARS = 1500;
 
 /** Format a clarification follow-up by pairing questions with user answers. */
 export function formatClarificationFollowup(
@@ -81,7 +84,63 @@ export function buildChangeSummaryText(
   return { text: lines.join('\n'), lines };
 }
 
-/** Run a single, safe preflight tool action to ground the edit request. */
+/** Let the user accept or reject individual hunks in the webview; null when no review UI is available. */
+export async function reviewHunksBeforeApply(
+  updates: FileUpdate[],
+  panel: HunkReviewRequester | null,
+  viewProvider: HunkReviewRequester | null,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi,
+  signal?: AbortSignal
+): Promise<FileUpdate[] | null> {
+  const reviewer = panel ?? viewProvider;
+  if (!reviewer || getForgeSetting<boolean>('reviewHunks') === false) {
+    return null;
+  }
+
+  const hunksByFile = updates.map((update) => buildDiffHunks(update.original, update.updated));
+  const result = await reviewer.requestHunkReview(
+    updates.map((update, index) => ({
+      path: update.relativePath,
+      hunks: hunksByFile[index].map((hunk) => ({ header: formatHunkHeader(hunk), lines: hunk.lines }))
+    })),
+    signal
+  );
+  if (!result) {
+    return null;
+  }
+  if (result.cancelled) {
+    recordStep('Hunk review', 'All changes rejected.');
+    return [];
+  }
+
+  const accepted: FileUpdate[] = [];
+  const notes: string[] = [];
+  updates.forEach((update, index) => {
+    const total = hunksByFile[index].length;
+    const selection = result.files.find((file) => file.path === update.relativePath);
+    const acceptedHunks = (selection?.accepted ?? []).filter(
+      (value) => Number.isInteger(value) && value >= 0 && value < total
+    );
+    notes.push(`${update.relativePath}: ${acceptedHunks.length}/${total} hunks accepted`);
+    if (acceptedHunks.length === 0) {
+      return;
+    }
+    if (acceptedHunks.length === total) {
+      accepted.push(update);
+      return;
+    }
+    const merged = mergeAcceptedHunks(update.original, update.updated, acceptedHunks);
+    if (merged !== update.original) {
+      accepted.push({ ...update, updated: merged });
+    }
+  });
+  notes.forEach((note) => logOutput(output, panelApi, note));
+  recordStep('Hunk review', notes.join('\n'));
+  return accepted;
+}
+
+/** Run a bounded planner/tool loop to ground the edit request, feeding each result back to the planner. */
 export async function runToolAwarePreflight(
   instruction: string,
   rootPath: string,
@@ -104,75 +163,58 @@ export async function runToolAwarePreflight(
 
   const plan = await compressTask(instruction, plannerContext, getRoutedConfig('plan'), memoryContext);
   recordStep('Tool-aware plan', plan.kind === 'plan' ? plan.steps.join('\n') : plan.questions.join('\n'));
-  const toolCall = await nextToolCall({ plan, context: plannerContext }, getRoutedConfig('plan'), memoryContext);
-  recordStep('Tool-aware tool', JSON.stringify(toolCall));
 
-  if (signal?.aborted) {
-    return null;
-  }
+  const maxSteps = Math.max(1, Math.floor(getForgeSetting<number>('agentMaxSteps') ?? DEFAULT_AGENT_MAX_STEPS));
+  const previousResults: ToolResult[] = [];
+  const sections: string[] = [];
+  const seenCalls = new Set<string>();
 
-  if (toolCall.tool === 'read_file') {
-    const resolved = resolveToolPath(rootPath, toolCall.path);
-    if (!resolved) {
+  for (let step = 1; step <= maxSteps; step += 1) {
+    if (signal?.aborted) {
       return null;
     }
-    try {
-      const content = fs.readFileSync(resolved.fullPath, 'utf8');
-      const trimmed = truncateText(content, 3000);
-      return `Tool: read_file\nFile: ${resolved.relativePath}\n${trimmed}`;
-    } catch (error) {
-      logOutput(output, panelApi, `Tool read error: ${String(error)}`);
-      return null;
-    }
-  }
+    const toolCall = await nextToolCall(
+      { plan, context: plannerContext, previousResults },
+      getRoutedConfig('plan'),
+      memoryContext
+    );
+    recordStep(`Agent step ${step}/${maxSteps}`, JSON.stringify(toolCall));
 
-  if (toolCall.tool === 'request_diff') {
-    try {
-      const hasGit = await isGitRepo(rootPath);
-      if (!hasGit) {
-        return null;
-      }
-      const diff = await getDiff(rootPath, { full: false });
-      return diff.trim().length > 0 ? `Tool: request_diff\n${truncateText(diff, 3000)}` : null;
-    } catch (error) {
-      logOutput(output, panelApi, `Tool diff error: ${String(error)}`);
-      return null;
+    if (toolCall.tool === 'finish') {
+      recordStep('Agent finish', toolCall.reason?.trim() || 'Planner finished.');
+      break;
     }
-  }
+    const callKey = JSON.stringify(toolCall);
+    if (seenCalls.has(callKey)) {
+      recordStep('Agent finish', `Repeated tool call: ${callKey}`);
+      break;
+    }
+    seenCalls.add(callKey);
 
-  if (toolCall.tool === 'run_validation_command') {
-    const command = toolCall.command?.trim();
-    if (!command) {
+    if (signal?.aborted) {
       return null;
     }
-    try {
-      const result = await runCommand(command, rootPath, output);
-      return `Tool: run_validation_command\nCommand: ${command}\nExit: ${result.code}\n${truncateText(result.output, 3000)}`;
-    } catch (error) {
-      logOutput(output, panelApi, `Tool validation error: ${String(error)}`);
-      return null;
+    logOutput(output, panelApi, `Preflight step ${step}: ${describeToolCall(toolCall)}`);
+    const result = await executeToolCall(toolCall, rootPath, output, panelApi, signal);
+    recordPayload(`Agent step ${step} result`, result ?? '(no output)');
+    // The run's Peek only arrives at the end, so each agent step is also shown as it completes.
+    const shown = redactSecrets(truncateText(result ?? '(no output)', PLANNER_RESULT_CHARS));
+    panelApi?.appendPeek?.([
+      { kind: 'step', title: `Agent step ${step}/${maxSteps}`, content: describeToolCall(toolCall) },
+      { kind: 'payload', title: `Agent step ${step} result`, content: shown.text, sensitive: shown.redacted }
+    ]);
+    previousResults.push({
+      tool: toolCall.tool,
+      input: toolCall,
+      output: result ? truncateText(result, PLANNER_RESULT_CHARS) : '(no output)'
+    });
+    if (result) {
+      sections.push(result);
+    }
+    if (step === maxSteps) {
+      recordStep('Agent finish', `Step budget reached (${maxSteps}).`);
     }
   }
 
-  return null;
-}
-
-function resolveToolPath(
-  rootPath: string,
-  candidate: string
-): { fullPath: string; relativePath: string } | null {
-  const normalized = path.normalize(candidate.replace(/\//g, path.sep));
-  const fullPath = path.isAbsolute(normalized) ? normalized : path.join(rootPath, normalized);
-  const relativePath = path.relative(rootPath, fullPath);
-  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
-    return null;
-  }
-  return { fullPath, relativePath };
-}
-
-function truncateText(text: string, maxChars: number): string {
-  if (text.length <= maxChars) {
-    return text;
-  }
-  return `${text.slice(0, maxChars)}\n... (truncated)`;
+  return sections.length > 0 ? sections.join('\n\n') : null;
 }
@@ -2,6 +2,7 @@
 import type { OutputChannel } from 'vscode';
 import type { ChatMessage } from '../llm/client';
 import { callChatCompletion, callChatCompletionStream } from '../llm/client';
+import { getRoutedConfig } from '../llm/routing';
 import { isAbortError, logOutput } from './logging';
 import { recordPrompt, recordResponse } from './trace';
 import type { ForgeUiApi } from '../ui/api';
@@ -21,7 +22,7 @@ export async function logActionPurpose(
     if (panelApi?.appendStream) {
       panelApi.startStream?.('assistant');
       const content = await callChatCompletionStream(
-        {},
+        getRoutedConfig('purpose'),
         messages,
         (delta) => panelApi.appendStream?.(delta),
         signal
@@ -39,7 +40,7 @@ export async function logActionPurpose(
       return;
     }
 
-    const response = await callChatCompletion({}, messages, signal);
+    const response = await callChatCompletion(getRoutedConfig('purpose'), messages, signal);
     const content = response.choices?.[0]?.message?.content?.trim();
     if (!content) {
       return;
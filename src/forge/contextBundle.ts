@@ -5,7 +5,8 @@ import * as vscode from 'vscode';
 import { extractMentionedFiles, findFilesByKeywords } from './fileSearch';
 import { listWorkspaceFiles } from './workspaceFiles';
 import { rankFilesByRelevance } from './retrievalRanker';
-import { searchEmbeddings } from './embeddingsIndex';
+import { searchHybrid } from './hybridRetrieval';
+import { describeChunkSymbol } from '../indexer/codeChunks';
 
 type ContextBundle = {
   text: string;
@@ -23,18 +24,29 @@ export async function buildContextBundle(
   const filesList = listWorkspaceFiles(rootPath, 4, 2000);
   const config = vscode.workspace.getConfiguration('forge');
 
-  // Prefer embedding hits when enabled; fall back to keyword + ranking when unavailable.
-  const embeddingHits = await searchEmbeddings(instruction, rootPath, filesList, config, signal);
-  if (embeddingHits && embeddingHits.length > 0) {
+  // Prefer fused BM25 + embedding hits; fall back to keyword + ranking when retrieval is not confident.
+  const hybridHits = await searchHybrid(instruction, rootPath, filesList, config, signal);
+  if (hybridHits.length > 0) {
     const snippets: string[] = [];
     const used: string[] = [];
+    const charsByFile = new Map<string, number>();
 
-    embeddingHits.slice(0, maxFiles).forEach((hit) => {
-      snippets.push(`File: ${hit.path} (${hit.startLine}-${hit.endLine})\n${hit.content}`);
+    // Up to maxFiles files, several chunks per file while they fit in maxCharsPerFile.
+    for (const hit of hybridHits) {
+      const usedChars = charsByFile.get(hit.path) ?? 0;
+      if (!used.includes(hit.path) && used.length >= maxFiles) {
+        continue;
+      }
+      if (usedChars > 0 && usedChars + hit.content.length > maxCharsPerFile) {
+        continue;
+      }
+      const symbol = describeChunkSymbol(hit);
+      snippets.push(`File: ${hit.path} (${hit.startLine}-${hit.endLine}${symbol ? `, ${symbol}` : ''})\n${hit.content}`);
+      charsByFile.set(hit.path, usedChars + hit.content.length);
       if (!used.includes(hit.path)) {
         used.push(hit.path);
       }
-    });
+    }
 
     if (snippets.length > 0) {
       return { text: snippets.join('\n---\n'), files: used };
@@ -1,13 +1,21 @@
-/** Diff helpers for summaries and inline previews. */
+/** Line diff engine (Myers / patience), hunks and unified diff rendering. */
+import { getForgeSetting } from './settings';
+
+/** Line diff algorithm: Myers (minimal edit script) or patience (anchors on unique lines first). */
+export type DiffAlgorithm = 'myers' | 'patience';
+
+/** One step of an edit script; indexes are 0-based positions in the old/new line arrays. */
+export type DiffOp = {
+  kind: 'equal' | 'insert' | 'delete';
+  oldIndex: number;
+  newIndex: number;
+};
 
 /** Summarize line-level changes between two strings. */
 export function getLineChangeSummary(original: string, updated: string, label: string): string | null {
-  const originalLines = original.split(/\r?\n/);
-  const updatedLines = updated.split(/\r?\n/);
-  const lcsTable = buildLcsTable(originalLines, updatedLines);
-  const lcs = lcsTable[originalLines.length][updatedLines.length];
-  const removed = originalLines.length - lcs;
-  const added = updatedLines.length - lcs;
+  const ops = diffLineOps(original.split(/\r?\n/), updated.split(/\r?\n/));
+  const added = ops.filter((op) => op.kind === 'insert').length;
+  const removed = ops.filter((op) => op.kind === 'delete').length;
   const changed = added + removed;
   if (changed === 0) {
     return null;
@@ -17,8 +25,7 @@ export function getLineChangeSummary(original: string, updated: string, label: s
 
 /** Compute LCS length for two line arrays. */
 export function longestCommonSubsequenceLength(a: string[], b: string[]): number {
-  const table = buildLcsTable(a, b);
-  return table[a.length][b.length];
+  return diffLineOps(a, b, 'myers').filter((op) => op.kind === 'equal').length;
 }
 
 /** Build a capped inline diff preview with a label header. */
@@ -41,64 +48,198 @@ export function buildInlineDiffPreview(original: string, updated: string, label:
   return [`Diff preview (${label}):`, ...sliced];
 }
 
-/** Build a simple line diff using LCS backtracking. */
-export function buildLineDiff(originalLines: string[], updatedLines: string[]): string[] {
-  const table = buildLcsTable(originalLines, updatedLines);
-  const diff: string[] = [];
-  let i = originalLines.length;
-  let j = updatedLines.length;
+/** Build a line diff with ' ', '+' and '-' prefixes. */
+export function buildLineDiff(
+  originalLines: string[],
+  updatedLines: string[],
+  algorithm: DiffAlgorithm = getDiffAlgorithm()
+): string[] {
+  return diffLineOps(originalLines, updatedLines, algorithm).map((op) => {
+    if (op.kind === 'insert') {
+      return `+${updatedLines[op.newIndex]}`;
+    }
+    if (op.kind === 'delete') {
+      return `-${originalLines[op.oldIndex]}`;
+    }
+    return ` ${originalLines[op.oldIndex]}`;
+  });
+}
 
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && originalLines[i - 1] === updatedLines[j - 1]) {
-      diff.push(` ${originalLines[i - 1]}`);
-      i -= 1;
-      j -= 1;
-    } else if (j > 0 && (i === 0 || table[i][j - 1] >= table[i - 1][j])) {
-      diff.push(`+${updatedLines[j - 1]}`);
-      j -= 1;
-    } else if (i > 0) {
-      diff.push(`-${originalLines[i - 1]}`);
-      i -= 1;
+/** Compute an edit script turning `a` into `b` with the requested algorithm. */
+export function diffLineOps(a: string[], b: string[], algorithm: DiffAlgorithm = getDiffAlgorithm()): DiffOp[] {
+  // Intern lines so the inner loops compare integers instead of strings.
+  const ids = new Map<string, number>();
+  const intern = (line: string) => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
     }
+    return id;
+  };
+  const ctx: DiffContext = {
+    a: Int32Array.from(a, intern),
+    b: Int32Array.from(b, intern),
+    ops: []
+  };
+  if (algorithm === 'patience') {
+    patienceRange(ctx, 0, a.length, 0, b.length);
+  } else {
+    myersRange(ctx, 0, a.length, 0, b.length);
   }
+  return ctx.ops;
+}
 
-  return diff.reverse();
+/** Expand a diff into context windows separated by ellipses. */
+export function buildDiffPreviewWithContext(diff: string[], contextLines: number): string[] {
+  const ranges = groupDiffRanges(diff, contextLines);
+  const output: string[] = [];
+  ranges.forEach((range, index) => {
+    if (index > 0) {
+      output.push('...');
+    }
+    for (let i = range.start; i <= range.end; i += 1) {
+      output.push(diff[i]);
+    }
+  });
+
+  return output;
 }
 
-/** Build the LCS dynamic programming table for two line arrays. */
-export function buildLcsTable(a: string[], b: string[]): number[][] {
-  const rows = a.length + 1;
-  const cols = b.length + 1;
-  const dp: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+/** A contiguous group of changes with surrounding context and 1-based line ranges. */
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+};
 
-  for (let i = 1; i < rows; i += 1) {
-    for (let j = 1; j < cols; j += 1) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
-    }
-  }
+/** Split the diff between two strings into reviewable hunks. */
+export function buildDiffHunks(original: string, updated: string, contextLines: number = 3): DiffHunk[] {
+  const diff = buildLineDiff(original.split(/\r?\n/), updated.split(/\r?\n/));
+  const positions = buildDiffPositions(diff);
+  return groupDiffRanges(diff, contextLines).map((range) => {
+    const lines = diff.slice(range.start, range.end + 1);
+    const oldLines = lines.filter((line) => !line.startsWith('+')).length;
+    const newLines = lines.filter((line) => !line.startsWith('-')).length;
+    return {
+      oldStart: positions[range.start].oldLine,
+      oldLines,
+      newStart: positions[range.start].newLine,
+      newLines,
+      lines
+    };
+  });
+}
 
-  return dp;
+/** Format a unified-diff style header for a hunk. */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
 }
 
-/** Expand a diff into context windows separated by ellipses. */
-export function buildDiffPreviewWithContext(diff: string[], contextLines: number): string[] {
-  const changedIndexes: number[] = [];
-  for (let i = 0; i < diff.length; i += 1) {
-    if (diff[i].startsWith('+') || diff[i].startsWith('-')) {
-      changedIndexes.push(i);
+/** Rebuild the updated content keeping only accepted hunks (indexes from buildDiffHunks). */
+export function mergeAcceptedHunks(
+  original: string,
+  updated: string,
+  acceptedHunks: number[],
+  contextLines: number = 3
+): string {
+  const eol = updated.includes('\r\n') || (!updated.includes('\n') && original.includes('\r\n')) ? '\r\n' : '\n';
+  const diff = buildLineDiff(original.split(/\r?\n/), updated.split(/\r?\n/));
+  const ranges = groupDiffRanges(diff, contextLines);
+  const accepted = new Set(acceptedHunks);
+  const hunkForIndex = new Map<number, number>();
+  ranges.forEach((range, hunkIndex) => {
+    for (let i = range.start; i <= range.end; i += 1) {
+      hunkForIndex.set(i, hunkIndex);
+    }
+  });
+
+  const merged: string[] = [];
+  diff.forEach((line, index) => {
+    const body = line.slice(1);
+    if (line.startsWith(' ')) {
+      merged.push(body);
+      return;
     }
+    const take = accepted.has(hunkForIndex.get(index) ?? -1);
+    if (line.startsWith('+') && take) {
+      merged.push(body);
+    }
+    if (line.startsWith('-') && !take) {
+      merged.push(body);
+    }
+  });
+  return merged.join(eol);
+}
+
+/** Render a `git apply` compatible unified diff for one file; empty when nothing changed. */
+export function buildUnifiedDiff(
+  original: string,
+  updated: string,
+  relativePath: string,
+  contextLines: number = 3,
+  existed: boolean = original.length > 0
+): string {
+  const oldFile = splitDiffLines(original);
+  const newFile = splitDiffLines(updated);
+  // The last line differs from its twin when only one side ends with a newline.
+  const oldKeys = oldFile.lines.map((line, index) =>
+    index === oldFile.lines.length - 1 && oldFile.missingEol ? `${line}\u0000` : line
+  );
+  const newKeys = newFile.lines.map((line, index) =>
+    index === newFile.lines.length - 1 && newFile.missingEol ? `${line}\u0000` : line
+  );
+  const ops = diffLineOps(oldKeys, newKeys);
+  const prefixed = ops.map((op) => (op.kind === 'insert' ? '+' : op.kind === 'delete' ? '-' : ' '));
+  const ranges = groupDiffRanges(prefixed, contextLines);
+  if (ranges.length === 0) {
+    return '';
   }
 
-  if (changedIndexes.length === 0) {
-    return [];
+  const filePath = relativePath.replace(/\\/g, '/');
+  const output: string[] = [`diff --git a/${filePath} b/${filePath}`];
+  if (!existed) {
+    output.push('new file mode 100644', '--- /dev/null');
+  } else {
+    output.push(`--- a/${filePath}`);
   }
+  output.push(`+++ b/${filePath}`);
 
+  const noEolMarker = '\\ No newline at end of file';
+  for (const range of ranges) {
+    const slice = ops.slice(range.start, range.end + 1);
+    const oldCount = slice.filter((op) => op.kind !== 'insert').length;
+    const newCount = slice.filter((op) => op.kind !== 'delete').length;
+    // Empty ranges point at the line before the hunk, as git does.
+    const oldStart = oldCount === 0 ? slice[0].oldIndex : slice[0].oldIndex + 1;
+    const newStart = newCount === 0 ? slice[0].newIndex : slice[0].newIndex + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of slice) {
+      if (op.kind === 'insert') {
+        output.push(`+${newFile.lines[op.newIndex]}`);
+        if (newFile.missingEol && op.newIndex === newFile.lines.length - 1) {
+          output.push(noEolMarker);
+        }
+        continue;
+      }
+      output.push(`${op.kind === 'delete' ? '-' : ' '}${oldFile.lines[op.oldIndex]}`);
+      if (oldFile.missingEol && op.oldIndex === oldFile.lines.length - 1) {
+        output.push(noEolMarker);
+      }
+    }
+  }
+  return `${output.join('\n')}\n`;
+}
+
+/** Compute change windows (indexes into the diff) padded with context lines. */
+function groupDiffRanges(diff: string[], contextLines: number): Array<{ start: number; end: number }> {
   const ranges: Array<{ start: number; end: number }> = [];
-  for (const idx of changedIndexes) {
+  for (let idx = 0; idx < diff.length; idx += 1) {
+    if (!diff[idx].startsWith('+') && !diff[idx].startsWith('-')) {
+      continue;
+    }
     const start = Math.max(0, idx - contextLines);
     const end = Math.min(diff.length - 1, idx + contextLines);
     if (ranges.length === 0 || start > ranges[ranges.length - 1].end + 1) {
@@ -107,16 +248,270 @@ export function buildDiffPreviewWithContext(diff: string[], contextLines: number
       ranges[ranges.length - 1].end = Math.max(ranges[ranges.length - 1].end, end);
     }
   }
+  return ranges;
+}
 
-  const output: string[] = [];
-  ranges.forEach((range, index) => {
-    if (index > 0) {
-      output.push('...');
+/** Track the 1-based old/new line number at each diff entry. */
+function buildDiffPositions(diff: string[]): Array<{ oldLine: number; newLine: number }> {
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of diff) {
+    positions.push({ oldLine, newLine });
+    if (!line.startsWith('+')) {
+      oldLine += 1;
     }
-    for (let i = range.start; i <= range.end; i += 1) {
-      output.push(diff[i]);
+    if (!line.startsWith('-')) {
+      newLine += 1;
+    }
+  }
+  return positions;
+}
+
+/** Split text into lines the way git does: keep `\r`, drop the final terminator, note when it is missing. */
+function splitDiffLines(text: string): { lines: string[]; missingEol: boolean } {
+  if (text.length === 0) {
+    return { lines: [], missingEol: false };
+  }
+  const lines = text.split('\n');
+  const missingEol = lines[lines.length - 1] !== '';
+  if (!missingEol) {
+    lines.pop();
+  }
+  return { lines, missingEol };
+}
+
+function getDiffAlgorithm(): DiffAlgorithm {
+  return getForgeSetting<string>('diffAlgorithm') === 'patience' ? 'patience' : 'myers';
+}
+
+type DiffContext = {
+  a: Int32Array;
+  b: Int32Array;
+  ops: DiffOp[];
+};
+
+/** Emit the ops for a range once common prefix/suffix are stripped; returns the trimmed bounds. */
+function trimCommon(
+  ctx: DiffContext,
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number
+): { aLo: number; aHi: number; bLo: number; bHi: number; suffix: number } {
+  while (aLo < aHi && bLo < bHi && ctx.a[aLo] === ctx.b[bLo]) {
+    ctx.ops.push({ kind: 'equal', oldIndex: aLo, newIndex: bLo });
+    aLo += 1;
+    bLo += 1;
+  }
+  let suffix = 0;
+  while (aHi > aLo && bHi > bLo && ctx.a[aHi - 1] === ctx.b[bHi - 1]) {
+    aHi -= 1;
+    bHi -= 1;
+    suffix += 1;
+  }
+  return { aLo, aHi, bLo, bHi, suffix };
+}
+
+function pushSuffix(ctx: DiffContext, aHi: number, bHi: number, suffix: number): void {
+  for (let i = 0; i < suffix; i += 1) {
+    ctx.ops.push({ kind: 'equal', oldIndex: aHi + i, newIndex: bHi + i });
+  }
+}
+
+function pushReplace(ctx: DiffContext, aLo: number, aHi: number, bLo: number, bHi: number): void {
+  for (let i = aLo; i < aHi; i += 1) {
+    ctx.ops.push({ kind: 'delete', oldIndex: i, newIndex: bLo });
+  }
+  for (let j = bLo; j < bHi; j += 1) {
+    ctx.ops.push({ kind: 'insert', oldIndex: aHi, newIndex: j });
+  }
+}
+
+/** Linear-space Myers: split on the middle snake and recurse on both halves. */
+function myersRange(ctx: DiffContext, aLo: number, aHi: number, bLo: number, bHi: number): void {
+  const trimmed = trimCommon(ctx, aLo, aHi, bLo, bHi);
+  if (trimmed.aLo === trimmed.aHi || trimmed.bLo === trimmed.bHi) {
+    pushReplace(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+  } else {
+    const split = findMiddleSnake(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+    const degenerate =
+      !split ||
+      (split.x === trimmed.aLo && split.y === trimmed.bLo) ||
+      (split.x === trimmed.aHi && split.y === trimmed.bHi);
+    if (!split || degenerate) {
+      pushReplace(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+    } else {
+      myersRange(ctx, trimmed.aLo, split.x, trimmed.bLo, split.y);
+      myersRange(ctx, split.x, trimmed.aHi, split.y, trimmed.bHi);
+    }
+  }
+  pushSuffix(ctx, trimmed.aHi, trimmed.bHi, trimmed.suffix);
+}
+
+/** Run forward and reverse Myers searches until they overlap; returns the split point. */
+function findMiddleSnake(
+  ctx: DiffContext,
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number
+): { x: number; y: number } | null {
+  const { a, b } = ctx;
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  const size = 2 * maxD + 3;
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+  const delta = n - m;
+  const checkInForward = delta % 2 !== 0;
+  let k1Start = 0;
+  let k1End = 0;
+  let k2Start = 0;
+  let k2End = 0;
+
+  for (let d = 0; d <= maxD; d += 1) {
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const index = offset + k1;
+      let x1 =
+        k1 === -d || (k1 !== d && forward[index - 1] < forward[index + 1])
+          ? forward[index + 1]
+          : forward[index - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) {
+        x1 += 1;
+        y1 += 1;
+      }
+      forward[index] = x1;
+      if (x1 > n) {
+        k1End += 2;
+      } else if (y1 > m) {
+        k1Start += 2;
+      } else if (checkInForward) {
+        const reverseIndex = offset + delta - k1;
+        if (reverseIndex >= 0 && reverseIndex < size && reverse[reverseIndex] !== -1) {
+          if (x1 >= n - reverse[reverseIndex]) {
+            return { x: aLo + x1, y: bLo + y1 };
+          }
+        }
+      }
+    }
+
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const index = offset + k2;
+      let x2 =
+        k2 === -d || (k2 !== d && reverse[index - 1] < reverse[index + 1])
+          ? reverse[index + 1]
+          : reverse[index - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && a[aHi - x2 - 1] === b[bHi - y2 - 1]) {
+        x2 += 1;
+        y2 += 1;
+      }
+      reverse[index] = x2;
+      if (x2 > n) {
+        k2End += 2;
+      } else if (y2 > m) {
+        k2Start += 2;
+      } else if (!checkInForward) {
+        const forwardIndex = offset + delta - k2;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const x1 = forward[forwardIndex];
+          const y1 = x1 - (forwardIndex - offset);
+          if (x1 >= n - x2) {
+            return { x: aLo + x1, y: bLo + y1 };
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** Patience diff: align lines unique to both sides, recurse between anchors, fall back to Myers. */
+function patienceRange(ctx: DiffContext, aLo: number, aHi: number, bLo: number, bHi: number): void {
+  const trimmed = trimCommon(ctx, aLo, aHi, bLo, bHi);
+  if (trimmed.aLo === trimmed.aHi || trimmed.bLo === trimmed.bHi) {
+    pushReplace(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+    pushSuffix(ctx, trimmed.aHi, trimmed.bHi, trimmed.suffix);
+    return;
+  }
+
+  const anchors = findUniqueAnchors(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+  if (anchors.length === 0) {
+    myersRange(ctx, trimmed.aLo, trimmed.aHi, trimmed.bLo, trimmed.bHi);
+  } else {
+    let aPos = trimmed.aLo;
+    let bPos = trimmed.bLo;
+    for (const anchor of anchors) {
+      patienceRange(ctx, aPos, anchor.a, bPos, anchor.b);
+      ctx.ops.push({ kind: 'equal', oldIndex: anchor.a, newIndex: anchor.b });
+      aPos = anchor.a + 1;
+      bPos = anchor.b + 1;
+    }
+    patienceRange(ctx, aPos, trimmed.aHi, bPos, trimmed.bHi);
+  }
+  pushSuffix(ctx, trimmed.aHi, trimmed.bHi, trimmed.suffix);
+}
+
+/** Longest increasing run of lines that occur exactly once in each range. */
+function findUniqueAnchors(
+  ctx: DiffContext,
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number
+): Array<{ a: number; b: number }> {
+  const counts = new Map<number, { a: number; b: number; aIndex: number; bIndex: number }>();
+  for (let i = aLo; i < aHi; i += 1) {
+    const entry = counts.get(ctx.a[i]) ?? { a: 0, b: 0, aIndex: -1, bIndex: -1 };
+    entry.a += 1;
+    entry.aIndex = i;
+    counts.set(ctx.a[i], entry);
+  }
+  for (let j = bLo; j < bHi; j += 1) {
+    const entry = counts.get(ctx.b[j]);
+    if (entry) {
+      entry.b += 1;
+      entry.bIndex = j;
+    }
+  }
+
+  const candidates: Array<{ a: number; b: number }> = [];
+  counts.forEach((entry) => {
+    if (entry.a === 1 && entry.b === 1) {
+      candidates.push({ a: entry.aIndex, b: entry.bIndex });
     }
   });
+  candidates.sort((left, right) => left.a - right.a);
 
-  return output;
+  // Patience sorting over b positions yields the longest increasing subsequence.
+  const tails: number[] = [];
+  const previous: number[] = new Array(candidates.length).fill(-1);
+  candidates.forEach((candidate, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (candidates[tails[mid]].b < candidate.b) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const anchors: Array<{ a: number; b: number }> = [];
+  let cursor = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (cursor >= 0) {
+    anchors.push(candidates[cursor]);
+    cursor = previous[cursor];
+  }
+  return anchors.reverse();
 }
@@ -1,15 +1,19 @@
-/** Lightweight embeddings index for repo snippets. */
+/** Incremental embeddings index for repo snippets (per-file hashes, packed vector store). */
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { DEFAULT_LLM_ENDPOINT, DEFAULT_TIMEOUT_MS } from '../llm/config';
+import { chunkSource, type ChunkSymbolKind, type CodeChunk } from '../indexer/codeChunks';
+import { embedTexts } from '../llm/client';
+import { DEFAULT_LLM_ENDPOINT, DEFAULT_TIMEOUT_MS, parseLLMProviderKind, type LLMConfig } from '../llm/config';
 
 export type EmbeddingSearchResult = {
   path: string;
   startLine: number;
   endLine: number;
   content: string;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
   score: number;
 };
 
@@ -19,22 +23,46 @@ type EmbeddingRecord = {
   startLine: number;
   endLine: number;
   content: string;
-  vector: number[];
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+  vector: Float32Array;
+};
+
+type EmbeddingFileEntry = {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  /** Last time a search asked for this file; the least recently used files leave first. */
+  usedAt: number;
+  records: EmbeddingRecord[];
 };
 
 type EmbeddingIndex = {
-  version: 1;
+  version: 4;
+  provider: string | null;
   model: string;
   endpoint: string;
   chunkChars: number;
   maxFileBytes: number;
+  dimensions: number;
   createdAt: string;
   updatedAt: string;
-  records: EmbeddingRecord[];
+  files: Map<string, EmbeddingFileEntry>;
+};
+
+/** On-disk metadata; vectors live in a separate Float32 file addressed by `slot`. */
+type StoredIndex = Omit<EmbeddingIndex, 'files'> & {
+  files: Record<
+    string,
+    Omit<EmbeddingFileEntry, 'records'> & {
+      records: Array<Omit<EmbeddingRecord, 'vector'> & { slot: number }>;
+    }
+  >;
 };
 
 type EmbeddingSettings = {
   enabled: boolean;
+  provider: LLMConfig['provider'] | null;
   model: string;
   endpoint: string;
   apiKey?: string;
@@ -44,10 +72,12 @@ type EmbeddingSettings = {
   chunkChars: number;
   topK: number;
   minScore: number;
+  batchSize: number;
 };
 
-const INDEX_VERSION: EmbeddingIndex['version'] = 1;
+const INDEX_VERSION: EmbeddingIndex['version'] = 4;
 const indexCache = new Map<string, EmbeddingIndex>();
+const pendingUpdates = new Map<string, Promise<EmbeddingIndex | null>>();
 
 /** Run a vector search against the repo embeddings index. */
 export async function searchEmbeddings(
@@ -63,7 +93,7 @@ export async function searchEmbeddings(
   }
 
   const index = await ensureIndex(rootPath, filesList, settings, signal);
-  if (!index || index.records.length === 0) {
+  if (!index || index.files.size === 0) {
     return null;
   }
 
@@ -72,12 +102,13 @@ export async function searchEmbeddings(
   }
 
   try {
-    const embeddings = buildEmbeddingsClient(settings);
-    const queryVector = await embeddings.embedQuery(instruction);
-    const scored = index.records.map((record) => ({
-      record,
-      score: cosineSimilarity(queryVector, record.vector)
-    }));
+    const [queryVector = []] = await embedTexts(buildEmbeddingsConfig(settings), [instruction], signal);
+    const scored: Array<{ record: EmbeddingRecord; score: number }> = [];
+    index.files.forEach((entry) => {
+      entry.records.forEach((record) => {
+        scored.push({ record, score: cosineSimilarity(queryVector, record.vector) });
+      });
+    });
     scored.sort((a, b) => b.score - a.score);
 
     const top = scored.slice(0, settings.topK);
@@ -92,6 +123,8 @@ export async function searchEmbeddings(
         startLine: item.record.startLine,
         endLine: item.record.endLine,
         content: item.record.content,
+        symbolName: item.record.symbolName,
+        symbolKind: item.record.symbolKind,
         score: item.score
       }));
   } catch {
@@ -99,6 +132,36 @@ export async function searchEmbeddings(
   }
 }
 
+/** Drop the stored index for a folder and embed the given files from scratch. */
+export async function rebuildEmbeddingsIndex(
+  rootPath: string,
+  filesList: string[],
+  config: vscode.WorkspaceConfiguration,
+  signal?: AbortSignal
+): Promise<{ files: number; chunks: number } | null> {
+  const settings = resolveEmbeddingSettings(config);
+  if (!settings.enabled) {
+    return null;
+  }
+  indexCache.delete(getCacheKey(rootPath, settings));
+  for (const filePath of [getIndexPath(rootPath), getVectorPath(rootPath)]) {
+    try {
+      fs.rmSync(filePath, { force: true });
+    } catch {
+      // A stale file is ignored on load anyway.
+    }
+  }
+  const index = await ensureIndex(rootPath, filesList, settings, signal);
+  if (!index) {
+    return null;
+  }
+  let chunks = 0;
+  index.files.forEach((entry) => {
+    chunks += entry.records.length;
+  });
+  return { files: index.files.size, chunks };
+}
+
 function resolveEmbeddingSettings(config: vscode.WorkspaceConfiguration): EmbeddingSettings {
   const enabled = config.get<boolean>('embeddingEnabled') === true;
   const model = (config.get<string>('embeddingModel') ?? '').trim();
@@ -109,6 +172,7 @@ function resolveEmbeddingSettings(config: vscode.WorkspaceConfiguration): Embedd
 
   return {
     enabled: enabled && model.length > 0,
+    provider: parseLLMProviderKind(config.get<string>('llmProvider')),
     model,
     endpoint,
     apiKey: apiKey.length > 0 ? apiKey : undefined,
@@ -117,206 +181,374 @@ function resolveEmbeddingSettings(config: vscode.WorkspaceConfiguration): Embedd
     maxFileBytes: Math.max(1024, config.get<number>('embeddingMaxFileBytes') ?? 200000),
     chunkChars: Math.max(400, config.get<number>('embeddingChunkChars') ?? 1200),
     topK: Math.max(1, config.get<number>('embeddingTopK') ?? 8),
-    minScore: Math.max(0, config.get<number>('embeddingMinScore') ?? 0.2)
+    minScore: Math.max(0, config.get<number>('embeddingMinScore') ?? 0.2),
+    batchSize: Math.max(1, config.get<number>('embeddingBatchSize') ?? 32)
   };
 }
 
+/** Serialize index updates per folder so concurrent searches do not embed the same files twice. */
 async function ensureIndex(
   rootPath: string,
   filesList: string[],
   settings: EmbeddingSettings,
   signal?: AbortSignal
 ): Promise<EmbeddingIndex | null> {
-  const cacheKey = `${rootPath}|${settings.model}|${settings.endpoint}`;
-  const cached = indexCache.get(cacheKey);
-  const latestMtime = getLatestMtime(rootPath, filesList);
-
-  if (cached && Date.parse(cached.updatedAt) >= latestMtime) {
-    return cached;
+  const cacheKey = getCacheKey(rootPath, settings);
+  const pending = pendingUpdates.get(cacheKey);
+  if (pending) {
+    await pending.catch(() => null);
   }
-
-  const filePath = getIndexPath(rootPath);
-  if (fs.existsSync(filePath)) {
-    try {
-      const raw = fs.readFileSync(filePath, 'utf8');
-      const parsed = JSON.parse(raw) as EmbeddingIndex;
-      if (
-        parsed &&
-        parsed.version === INDEX_VERSION &&
-        parsed.model === settings.model &&
-        parsed.endpoint === settings.endpoint &&
-        parsed.chunkChars === settings.chunkChars &&
-        parsed.maxFileBytes === settings.maxFileBytes &&
-        Date.parse(parsed.updatedAt) >= latestMtime
-      ) {
-        indexCache.set(cacheKey, parsed);
-        return parsed;
-      }
-    } catch {
-      // Fall through to rebuild.
+  const update = updateIndex(rootPath, filesList, settings, signal);
+  pendingUpdates.set(cacheKey, update);
+  try {
+    return await update;
+  } finally {
+    if (pendingUpdates.get(cacheKey) === update) {
+      pendingUpdates.delete(cacheKey);
     }
   }
-
-  const rebuilt = await buildIndex(rootPath, filesList, settings, signal);
-  if (rebuilt) {
-    indexCache.set(cacheKey, rebuilt);
-  }
-  return rebuilt;
 }
 
-async function buildIndex(
+/**
+ * Re-embed only files whose content hash changed, drop files that are gone or changed, evict the
+ * least recently used files beyond the budget, and persist the result.
+ */
+async function updateIndex(
   rootPath: string,
   filesList: string[],
   settings: EmbeddingSettings,
   signal?: AbortSignal
 ): Promise<EmbeddingIndex | null> {
-  const selectedFiles = filesList.slice(0, settings.maxFiles);
-  const records: EmbeddingRecord[] = [];
-  const contents: string[] = [];
-
-  for (const file of selectedFiles) {
-    if (signal?.aborted) {
-      return null;
+  const cacheKey = getCacheKey(rootPath, settings);
+  const index = indexCache.get(cacheKey) ?? loadIndex(rootPath, settings) ?? createEmptyIndex(settings);
+  const now = Date.now();
+  let changed = false;
+
+  // Up to the budget of the caller's files are used now: indexed ones first so the index stays stable.
+  const listed = new Set(filesList);
+  const candidates = Array.from(new Set([...Array.from(index.files.keys()).filter((file) => listed.has(file)), ...filesList]));
+  const selected = new Set<string>();
+  const pendingFiles: Array<{ file: string; hash: string; size: number; mtimeMs: number; chunks: CodeChunk[] }> = [];
+  for (const file of candidates) {
+    if (selected.size >= settings.maxFiles) {
+      break;
     }
     const fullPath = path.join(rootPath, file);
-    let stat: fs.Stats;
-    try {
-      stat = fs.statSync(fullPath);
-    } catch {
+    const stat = statFile(fullPath);
+    if (!stat || stat.size === 0 || stat.size > settings.maxFileBytes) {
       continue;
     }
-    if (!stat.isFile() || stat.size === 0 || stat.size > settings.maxFileBytes) {
+    const existing = index.files.get(file);
+    if (existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs) {
+      selected.add(file);
+      existing.usedAt = now;
       continue;
     }
-    let content = '';
-    try {
-      content = fs.readFileSync(fullPath, 'utf8');
-    } catch {
+    const content = readText(fullPath);
+    if (content === null || !content.trim()) {
       continue;
     }
-    if (!content.trim()) {
+    selected.add(file);
+    const hash = hashContent(content);
+    if (existing && existing.hash === hash) {
+      // Touched but unchanged: keep vectors, remember the new stat.
+      index.files.set(file, { ...existing, size: stat.size, mtimeMs: stat.mtimeMs, usedAt: now });
+      changed = true;
       continue;
     }
+    pendingFiles.push({ file, hash, size: stat.size, mtimeMs: stat.mtimeMs, chunks: chunkSource(file, content, settings.chunkChars) });
+  }
 
-    const chunks = chunkText(content, settings.chunkChars);
-    chunks.forEach((chunk, index) => {
-      const id = `${file}#${index}`;
-      records.push({
-        id,
-        path: file,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        content: chunk.content,
-        vector: []
-      });
-      contents.push(chunk.content);
-    });
+  // Other indexed files stay (another run type may need them) unless deleted, no longer eligible or edited.
+  for (const [file, entry] of Array.from(index.files.entries())) {
+    if (selected.has(file)) {
+      continue;
+    }
+    const fullPath = path.join(rootPath, file);
+    const stat = statFile(fullPath);
+    if (stat && stat.size > 0 && stat.size <= settings.maxFileBytes) {
+      if (stat.size === entry.size && stat.mtimeMs === entry.mtimeMs) {
+        continue;
+      }
+      const content = readText(fullPath);
+      if (content !== null && hashContent(content) === entry.hash) {
+        index.files.set(file, { ...entry, size: stat.size, mtimeMs: stat.mtimeMs });
+        changed = true;
+        continue;
+      }
+    }
+    // Edited files are re-embedded the next time a search lists them.
+    index.files.delete(file);
+    changed = true;
   }
 
-  if (records.length === 0) {
-    return null;
+  if (pendingFiles.length > 0) {
+    const embedded = await embedPendingFiles(pendingFiles, settings, index.dimensions, signal);
+    for (const item of embedded) {
+      index.files.set(item.file, { ...item.entry, usedAt: now });
+      changed = true;
+    }
   }
 
-  try {
-    const embeddings = buildEmbeddingsClient(settings);
-    const vectors = await embeddings.embedDocuments(contents);
-    vectors.forEach((vector, index) => {
-      records[index].vector = vector;
+  const overflow = index.files.size - settings.maxFiles;
+  if (overflow > 0) {
+    Array.from(index.files.entries())
+      .sort((a, b) => a[1].usedAt - b[1].usedAt)
+      .slice(0, overflow)
+      .forEach(([file]) => index.files.delete(file));
+    changed = true;
+  }
+
+  if (changed) {
+    index.updatedAt = new Date().toISOString();
+    saveIndex(rootPath, index);
+  }
+  // Only the current settings' index stays in memory for this folder.
+  for (const key of Array.from(indexCache.keys())) {
+    if (key !== cacheKey && key.startsWith(`${rootPath}|`)) {
+      indexCache.delete(key);
+    }
+  }
+  indexCache.set(cacheKey, index);
+  return index.files.size > 0 ? index : null;
+}
+
+/**
+ * Embed chunks in batches, reporting progress in the status bar; files are kept only when fully
+ * embedded. A batch whose response is short or has another vector size ends the pass.
+ */
+async function embedPendingFiles(
+  pendingFiles: Array<{ file: string; hash: string; size: number; mtimeMs: number; chunks: CodeChunk[] }>,
+  settings: EmbeddingSettings,
+  indexDimensions: number,
+  signal?: AbortSignal
+): Promise<Array<{ file: string; entry: Omit<EmbeddingFileEntry, 'usedAt'> }>> {
+  let dimensions = indexDimensions;
+  const queue = pendingFiles.flatMap((item) =>
+    item.chunks.map((chunk, chunkIndex) => ({ file: item.file, chunk, chunkIndex }))
+  );
+  const vectors = new Map<string, Float32Array[]>();
+  const embeddingsConfig = buildEmbeddingsConfig(settings);
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: 'Forge: Indexing' },
+    async (progress) => {
+      for (let offset = 0; offset < queue.length; offset += settings.batchSize) {
+        if (signal?.aborted) {
+          return;
+        }
+        const batch = queue.slice(offset, offset + settings.batchSize);
+        progress.report({ message: `${Math.min(offset + batch.length, queue.length)}/${queue.length} chunks` });
+        let batchVectors: number[][];
+        try {
+          batchVectors = await embedTexts(
+            embeddingsConfig,
+            batch.map((item) => item.chunk.content),
+            signal
+          );
+        } catch {
+          // Keep what is already embedded; the rest is retried on the next search.
+          return;
+        }
+        dimensions = dimensions || batchVectors[0]?.length || 0;
+        if (
+          batchVectors.length !== batch.length ||
+          batchVectors.some((vector) => !Array.isArray(vector) || vector.length !== dimensions)
+        ) {
+          return;
+        }
+        batch.forEach((item, index) => {
+          const list = vectors.get(item.file) ?? [];
+          list[item.chunkIndex] = Float32Array.from(batchVectors[index]);
+          vectors.set(item.file, list);
+        });
+      }
+    }
+  );
+
+  const results: Array<{ file: string; entry: Omit<EmbeddingFileEntry, 'usedAt'> }> = [];
+  for (const item of pendingFiles) {
+    const fileVectors = vectors.get(item.file) ?? [];
+    const complete = item.chunks.every((_, index) => fileVectors[index] && fileVectors[index].length > 0);
+    if (!complete) {
+      continue;
+    }
+    results.push({
+      file: item.file,
+      entry: {
+        hash: item.hash,
+        size: item.size,
+        mtimeMs: item.mtimeMs,
+        records: item.chunks.map((chunk, index) => ({
+          id: `${item.file}#${index}`,
+          path: item.file,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          content: chunk.content,
+          ...(chunk.symbolName ? { symbolName: chunk.symbolName } : {}),
+          ...(chunk.symbolKind ? { symbolKind: chunk.symbolKind } : {}),
+          vector: fileVectors[index]
+        }))
+      }
     });
-  } catch {
-    return null;
   }
+  return results;
+}
 
+function createEmptyIndex(settings: EmbeddingSettings): EmbeddingIndex {
   const now = new Date().toISOString();
-  const index: EmbeddingIndex = {
+  return {
     version: INDEX_VERSION,
+    provider: settings.provider ?? null,
     model: settings.model,
     endpoint: settings.endpoint,
     chunkChars: settings.chunkChars,
     maxFileBytes: settings.maxFileBytes,
+    dimensions: 0,
     createdAt: now,
     updatedAt: now,
-    records
+    files: new Map()
   };
+}
 
-  const filePath = getIndexPath(rootPath);
+/** Load metadata + vectors from disk; null when missing, stale or built with other settings. */
+function loadIndex(rootPath: string, settings: EmbeddingSettings): EmbeddingIndex | null {
+  const metaPath = getIndexPath(rootPath);
+  const vectorPath = getVectorPath(rootPath);
+  if (!fs.existsSync(metaPath) || !fs.existsSync(vectorPath)) {
+    return null;
+  }
   try {
-    fs.mkdirSync(path.dirname(filePath), { recursive: true });
-    fs.writeFileSync(filePath, JSON.stringify(index), 'utf8');
+    const parsed = JSON.parse(fs.readFileSync(metaPath, 'utf8')) as StoredIndex;
+    if (
+      !parsed ||
+      parsed.version !== INDEX_VERSION ||
+      parsed.provider !== (settings.provider ?? null) ||
+      parsed.model !== settings.model ||
+      parsed.endpoint !== settings.endpoint ||
+      parsed.chunkChars !== settings.chunkChars ||
+      parsed.maxFileBytes !== settings.maxFileBytes
+    ) {
+      return null;
+    }
+    const buffer = fs.readFileSync(vectorPath);
+    // Copy into an aligned buffer; pooled Node buffers may start at an odd offset.
+    const vectors = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    const dimensions = parsed.dimensions;
+    const files = new Map<string, EmbeddingFileEntry>();
+    for (const [file, entry] of Object.entries(parsed.files ?? {})) {
+      const records: EmbeddingRecord[] = [];
+      for (const record of entry.records) {
+        const start = record.slot * dimensions;
+        if (dimensions <= 0 || start + dimensions > vectors.length) {
+          return null;
+        }
+        const { slot: _slot, ...rest } = record;
+        records.push({ ...rest, vector: vectors.slice(start, start + dimensions) });
+      }
+      files.set(file, { hash: entry.hash, size: entry.size, mtimeMs: entry.mtimeMs, usedAt: entry.usedAt ?? 0, records });
+    }
+    return { ...parsed, files };
   } catch {
-    // Index is best-effort; continue without persistence.
+    return null;
   }
-
-  return index;
 }
 
-function buildEmbeddingsClient(settings: EmbeddingSettings): OpenAIEmbeddings {
-  const baseURL = settings.endpoint.replace(/\/$/, '');
-  const apiKey = settings.apiKey ?? 'local';
-  return new OpenAIEmbeddings({
-    modelName: settings.model,
-    openAIApiKey: apiKey,
-    timeout: settings.timeoutMs,
-    configuration: {
-      baseURL
-    }
+/** Persist metadata as JSON and vectors as one packed Float32 file (temp file + rename). */
+function saveIndex(rootPath: string, index: EmbeddingIndex): void {
+  let dimensions = 0;
+  let count = 0;
+  index.files.forEach((entry) => {
+    entry.records.forEach((record) => {
+      dimensions = dimensions || record.vector.length;
+      count += 1;
+    });
   });
-}
 
-function chunkText(
-  text: string,
-  chunkChars: number
-): Array<{ content: string; startLine: number; endLine: number }> {
-  const lines = text.split(/\r?\n/);
-  const chunks: Array<{ content: string; startLine: number; endLine: number }> = [];
-  let buffer: string[] = [];
-  let startLine = 1;
-  let currentChars = 0;
-
-  lines.forEach((line, index) => {
-    const nextChars = currentChars + line.length + 1;
-    if (buffer.length > 0 && nextChars > chunkChars) {
-      chunks.push({
-        content: buffer.join('\n'),
-        startLine,
-        endLine: startLine + buffer.length - 1
-      });
-      buffer = [];
-      currentChars = 0;
-      startLine = index + 1;
-    }
-    buffer.push(line);
-    currentChars += line.length + 1;
+  const vectors = new Float32Array(count * dimensions);
+  const stored: StoredIndex = {
+    version: index.version,
+    provider: index.provider,
+    model: index.model,
+    endpoint: index.endpoint,
+    chunkChars: index.chunkChars,
+    maxFileBytes: index.maxFileBytes,
+    dimensions,
+    createdAt: index.createdAt,
+    updatedAt: index.updatedAt,
+    files: {}
+  };
+  let slot = 0;
+  index.files.forEach((entry, file) => {
+    stored.files[file] = {
+      hash: entry.hash,
+      size: entry.size,
+      mtimeMs: entry.mtimeMs,
+      usedAt: entry.usedAt,
+      records: entry.records.map((record) => {
+        vectors.set(record.vector.subarray(0, dimensions), slot * dimensions);
+        const { vector: _vector, ...rest } = record;
+        const storedRecord = { ...rest, slot };
+        slot += 1;
+        return storedRecord;
+      })
+    };
   });
+  index.dimensions = dimensions;
 
-  if (buffer.length > 0) {
-    chunks.push({
-      content: buffer.join('\n'),
-      startLine,
-      endLine: startLine + buffer.length - 1
-    });
+  const metaPath = getIndexPath(rootPath);
+  const vectorPath = getVectorPath(rootPath);
+  try {
+    fs.mkdirSync(path.dirname(metaPath), { recursive: true });
+    writeFileAtomic(vectorPath, Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength));
+    writeFileAtomic(metaPath, JSON.stringify(stored));
+  } catch {
+    // Index is best-effort; continue without persistence.
   }
+}
 
-  return chunks;
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
 }
 
-function getLatestMtime(rootPath: string, filesList: string[]): number {
-  let latest = 0;
-  for (const file of filesList) {
-    const fullPath = path.join(rootPath, file);
-    try {
-      const stat = fs.statSync(fullPath);
-      if (stat.isFile() && stat.mtimeMs > latest) {
-        latest = stat.mtimeMs;
-      }
-    } catch {
-      continue;
-    }
+function statFile(fullPath: string): fs.Stats | null {
+  try {
+    const stat = fs.statSync(fullPath);
+    return stat.isFile() ? stat : null;
+  } catch {
+    return null;
+  }
+}
+
+function readText(fullPath: string): string | null {
+  try {
+    return fs.readFileSync(fullPath, 'utf8');
+  } catch {
+    return null;
   }
-  return latest;
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function getCacheKey(rootPath: string, settings: EmbeddingSettings): string {
+  return `${rootPath}|${settings.provider ?? ''}|${settings.model}|${settings.endpoint}`;
+}
+
+function buildEmbeddingsConfig(settings: EmbeddingSettings): LLMConfig {
+  return {
+    provider: settings.provider ?? undefined,
+    endpoint: settings.endpoint,
+    model: settings.model,
+    apiKey: settings.apiKey,
+    timeoutMs: settings.timeoutMs
+  };
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length !== b.length || a.length === 0) {
     return 0;
   }
@@ -337,3 +569,7 @@ function cosineSimilarity(a: number[], b: number[]): number {
 function getIndexPath(rootPath: string): string {
   return path.join(rootPath, '.forge', 'embeddings.json');
 }
+
+function getVectorPath(rootPath: string): string {
+  return path.join(rootPath, '.forge', 'embeddings.bin');
+}
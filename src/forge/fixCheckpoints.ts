@@ -0,0 +1,220 @@
+/** Auto-fix checkpoints: score each attempt, revert regressions and finish on the best state. */
+import * as fs from 'fs';
+import * as path from 'path';
+import { commitFileStates } from './runSnapshot';
+import { recordStep, recordTable } from './trace';
+import type { FileUpdate } from './types';
+import type { ValidationResult } from './validationFlow';
+
+export type FixScore = {
+  errors: number;
+  failedCommands: number;
+};
+
+/** What the run reports as changed at a checkpoint: the updates, their summary and its verification. */
+export type FixApplied = {
+  updates: FileUpdate[];
+  summaryText: string;
+  verification?: { status: 'pass' | 'fail'; issues: string[]; confidence?: string } | null;
+};
+
+export type FixCheckpoint = {
+  /** 0 is the state before the first auto-fix attempt. */
+  attempt: number;
+  label: string;
+  score: FixScore;
+  validation: ValidationResult;
+  status: 'initial' | 'kept' | 'reverted';
+  applied: FixApplied;
+  /** Content of every tracked file at this point; null when the file did not exist. */
+  files: Map<string, string | null>;
+};
+
+export type FixCheckpoints = {
+  rootPath: string;
+  revertRegressions: boolean;
+  checkpoints: FixCheckpoint[];
+  /** The checkpoint the workspace currently matches. */
+  current: FixCheckpoint;
+};
+
+/**
+ * Error count for a validation result: error diagnostics across failing commands (only the
+ * introduced ones after a baseline comparison), and 1 for a failing command with none parsed.
+ */
+export function scoreValidation(result: ValidationResult): FixScore {
+  if (result.ok) {
+    return { errors: 0, failedCommands: 0 };
+  }
+  const failures = result.failures ?? [];
+  if (failures.length === 0) {
+    return { errors: 1, failedCommands: 1 };
+  }
+  const errors = failures.reduce((sum, failure) => {
+    const count = (failure.diagnostics ?? []).filter((item) => item.severity === 'error').length;
+    return sum + Math.max(1, count);
+  }, 0);
+  return { errors, failedCommands: failures.length };
+}
+
+/** Checkpoint the workspace state that the first auto-fix attempt will start from. */
+export function startFixCheckpoints(
+  rootPath: string,
+  validation: ValidationResult,
+  changedFiles: Iterable<string>,
+  applied: FixApplied,
+  revertRegressions: boolean
+): FixCheckpoints {
+  const files = new Map<string, string | null>();
+  for (const relativePath of changedFiles) {
+    files.set(relativePath, readFileState(rootPath, relativePath));
+  }
+  const initial: FixCheckpoint = {
+    attempt: 0,
+    label: 'edit',
+    score: scoreValidation(validation),
+    validation,
+    status: 'initial',
+    applied,
+    files
+  };
+  return { rootPath, revertRegressions, checkpoints: [initial], current: initial };
+}
+
+/**
+ * Start tracking files an attempt is about to write. Call before the writes: a file's content on
+ * disk right now is its content at every earlier checkpoint.
+ */
+export function trackFixFiles(state: FixCheckpoints, relativePaths: string[]): void {
+  for (const relativePath of relativePaths) {
+    if (state.current.files.has(relativePath)) {
+      continue;
+    }
+    const content = readFileState(state.rootPath, relativePath);
+    state.checkpoints.forEach((checkpoint) => checkpoint.files.set(relativePath, content));
+  }
+}
+
+/**
+ * Checkpoint an applied attempt. When it has more errors than the current checkpoint it is
+ * reverted on disk (if enabled) and the current checkpoint stays; otherwise it becomes current.
+ */
+export function recordFixAttempt(
+  state: FixCheckpoints,
+  attempt: number,
+  label: string,
+  validation: ValidationResult,
+  applied: FixApplied
+): FixCheckpoint {
+  const files = new Map<string, string | null>();
+  for (const relativePath of state.current.files.keys()) {
+    files.set(relativePath, readFileState(state.rootPath, relativePath));
+  }
+  const score = scoreValidation(validation);
+  const regressed = score.errors > state.current.score.errors;
+  const checkpoint: FixCheckpoint = {
+    attempt,
+    label,
+    score,
+    validation,
+    status: regressed && state.revertRegressions ? 'reverted' : 'kept',
+    applied,
+    files
+  };
+  state.checkpoints.push(checkpoint);
+  if (checkpoint.status === 'reverted') {
+    restoreCheckpoint(state, state.current, files);
+    recordStep(
+      'Auto-fix attempt reverted',
+      `Attempt ${attempt}: ${state.current.score.errors} -> ${score.errors} errors`
+    );
+  } else {
+    state.current = checkpoint;
+  }
+  return checkpoint;
+}
+
+/**
+ * Restore the best-scoring checkpoint if the workspace is not already on it (whether or not
+ * regressions were reverted along the way), record the attempt table for the peek panel and
+ * return the checkpoint the loop finished on.
+ */
+export function finishFixCheckpoints(state: FixCheckpoints): FixCheckpoint {
+  const best = findBestCheckpoint(state);
+  if (best !== state.current) {
+    restoreCheckpoint(state, best, state.current.files);
+    recordStep('Auto-fix restored checkpoint', `${describeCheckpoint(best)} (${best.score.errors} errors)`);
+    state.current = best;
+  }
+  if (state.checkpoints.length > 1) {
+    recordTable('Auto-fix attempts', formatFixAttemptRows(state));
+  }
+  return state.current;
+}
+
+/** One row per checkpoint: attempt, error count, change from the previous kept state, outcome. */
+function formatFixAttemptRows(state: FixCheckpoints): string[][] {
+  const rows = [['Attempt', 'Kind', 'Errors', 'Failed commands', 'Change', 'Result']];
+  let previous: FixCheckpoint | null = null;
+  for (const checkpoint of state.checkpoints) {
+    const delta = previous ? checkpoint.score.errors - previous.score.errors : 0;
+    const result = checkpoint === state.current ? `${checkpoint.status}, final` : checkpoint.status;
+    rows.push([
+      describeCheckpoint(checkpoint),
+      checkpoint.label,
+      String(checkpoint.score.errors),
+      String(checkpoint.score.failedCommands),
+      previous ? (delta > 0 ? `+${delta}` : String(delta)) : '',
+      result
+    ]);
+    if (checkpoint.status !== 'reverted') {
+      previous = checkpoint;
+    }
+  }
+  return rows;
+}
+
+/** Fewest errors, then fewest failing commands; ties go to the later attempt. */
+function findBestCheckpoint(state: FixCheckpoints): FixCheckpoint {
+  let best = state.checkpoints[0];
+  for (const checkpoint of state.checkpoints) {
+    if (checkpoint.status === 'reverted') {
+      continue;
+    }
+    const better =
+      checkpoint.score.errors < best.score.errors ||
+      (checkpoint.score.errors === best.score.errors &&
+        checkpoint.score.failedCommands <= best.score.failedCommands);
+    if (better) {
+      best = checkpoint;
+    }
+  }
+  return best;
+}
+
+/** Write back the files whose content differs between the workspace (`onDisk`) and the target. */
+function restoreCheckpoint(
+  state: FixCheckpoints,
+  target: FixCheckpoint,
+  onDisk: Map<string, string | null>
+): void {
+  const changes = Array.from(target.files.entries())
+    .filter(([relativePath, content]) => onDisk.get(relativePath) !== content)
+    .map(([relativePath, content]) => ({ relativePath, content }));
+  if (changes.length > 0) {
+    commitFileStates(state.rootPath, changes);
+  }
+}
+
+function describeCheckpoint(checkpoint: FixCheckpoint): string {
+  return checkpoint.attempt === 0 ? 'before auto-fix' : `attempt ${checkpoint.attempt}`;
+}
+
+function readFileState(rootPath: string, relativePath: string): string | null {
+  const fullPath = path.join(rootPath, relativePath);
+  try {
+    return fs.readFileSync(fullPath, 'utf8');
+  } catch {
+    return null;
+  }
+}
@@ -2,6 +2,7 @@
 import * as vscode from 'vscode';
 import type { ChatMessage } from '../llm/client';
 import { callChatCompletion } from '../llm/client';
+import { getRoutedConfig } from '../llm/routing';
 import { GIT_INTENT_SCHEMA } from './schemas';
 import { requestStructuredJson } from '../llm/structured';
 import { getForgeSetting } from './settings';
@@ -685,7 +686,9 @@ export async function maybeDetectGitActions(
   try {
     const messages = buildGitIntentMessages(instruction);
     recordPrompt('Git intent prompt', messages, true);
-    const payload = await requestStructuredJson<GitIntentPayload>(messages, GIT_INTENT_SCHEMA, {});
+    const payload = await requestStructuredJson<GitIntentPayload>(messages, GIT_INTENT_SCHEMA, {
+      config: getRoutedConfig('intent')
+    });
     recordResponse('Git intent response', JSON.stringify(payload));
     const actions = Array.isArray(payload.actions) ? payload.actions : [];
     const mapped = actions
@@ -929,7 +932,7 @@ async function generateCommitMessage(
   const messages = buildCommitMessageMessages(diffStat, files, style);
   recordPrompt('Commit message prompt', messages, true);
   try {
-    const response = await callChatCompletion({}, messages);
+    const response = await callChatCompletion(getRoutedConfig('commit'), messages);
     const raw = response.choices?.[0]?.message?.content?.trim() ?? '';
     if (raw) {
       recordResponse('Commit message response', raw);
@@ -0,0 +1,323 @@
+/** Search/replace hunk edits applied locally to produce full file updates. */
+
+/** Anchored edit returned by the LLM: replace the `search` block with `replace`. */
+export type SearchReplaceEdit = {
+  search: string;
+  replace: string;
+};
+
+/** Why a single edit could not be applied. */
+export type HunkFailure = {
+  index: number;
+  reason: 'not_found' | 'ambiguous';
+  searchPreview: string;
+  bestScore?: number;
+  bestLine?: number;
+  matches?: number;
+};
+
+export type HunkApplyResult = {
+  updated: string;
+  applied: Array<{ index: number; match: 'exact' | 'whitespace' | 'fuzzy'; line: number; score?: number }>;
+  failures: HunkFailure[];
+};
+
+const DEFAULT_FUZZY_THRESHOLD = 0.85;
+// Another window scoring within this margin of the best one makes a fuzzy match ambiguous.
+const FUZZY_AMBIGUITY_MARGIN = 0.02;
+const PREVIEW_LINES = 3;
+
+/** Apply search/replace edits in order; any failure leaves the result unusable. */
+export function applySearchReplaceEdits(
+  original: string,
+  edits: SearchReplaceEdit[],
+  fuzzyThreshold: number = DEFAULT_FUZZY_THRESHOLD
+): HunkApplyResult {
+  // Work on LF text and restore the original line endings at the end.
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  let current = normalizeEol(original);
+  const applied: HunkApplyResult['applied'] = [];
+  const failures: HunkFailure[] = [];
+
+  edits.forEach((edit, index) => {
+    const search = normalizeEol(edit.search ?? '');
+    const replace = normalizeEol(edit.replace ?? '');
+
+    // Empty anchors create new files or append to the end of an existing one.
+    if (search.trim().length === 0) {
+      if (current.length === 0) {
+        current = replace;
+      } else {
+        current = current.endsWith('\n') ? `${current}${replace}` : `${current}\n${replace}`;
+      }
+      applied.push({ index, match: 'exact', line: countLines(current) });
+      return;
+    }
+
+    const exact = findAllOccurrences(current, search);
+    if (exact.length === 1) {
+      const offset = exact[0];
+      current = current.slice(0, offset) + replace + current.slice(offset + search.length);
+      applied.push({ index, match: 'exact', line: countLines(current.slice(0, offset)) });
+      return;
+    }
+    if (exact.length > 1) {
+      failures.push({
+        index,
+        reason: 'ambiguous',
+        searchPreview: buildPreview(search),
+        matches: exact.length
+      });
+      return;
+    }
+
+    const lines = current.split('\n');
+    const searchLines = trimBlankEdges(search.split('\n'));
+    const replaceLines = trimBlankEdges(replace.split('\n'));
+
+    const whitespaceMatches = findWhitespaceMatches(lines, searchLines);
+    if (whitespaceMatches.length > 1) {
+      failures.push({
+        index,
+        reason: 'ambiguous',
+        searchPreview: buildPreview(search),
+        matches: whitespaceMatches.length
+      });
+      return;
+    }
+    if (whitespaceMatches.length === 1) {
+      const start = whitespaceMatches[0];
+      const matched = lines.slice(start, start + searchLines.length);
+      current = spliceLines(lines, start, searchLines.length, reindent(replaceLines, searchLines, matched));
+      applied.push({ index, match: 'whitespace', line: start + 1 });
+      return;
+    }
+
+    const fuzzy = findBestFuzzyMatch(lines, searchLines, fuzzyThreshold);
+    if (fuzzy && fuzzy.score >= fuzzyThreshold && fuzzy.rivals > 0) {
+      failures.push({
+        index,
+        reason: 'ambiguous',
+        searchPreview: buildPreview(search),
+        matches: fuzzy.rivals + 1
+      });
+      return;
+    }
+    if (fuzzy && fuzzy.score >= fuzzyThreshold) {
+      const matched = lines.slice(fuzzy.start, fuzzy.start + searchLines.length);
+      current = spliceLines(lines, fuzzy.start, searchLines.length, reindent(replaceLines, searchLines, matched));
+      applied.push({ index, match: 'fuzzy', line: fuzzy.start + 1, score: roundScore(fuzzy.score) });
+      return;
+    }
+
+    failures.push({
+      index,
+      reason: 'not_found',
+      searchPreview: buildPreview(search),
+      bestScore: fuzzy ? roundScore(fuzzy.score) : undefined,
+      bestLine: fuzzy ? fuzzy.start + 1 : undefined
+    });
+  });
+
+  const updated = eol === '\n' ? current : current.replace(/\n/g, eol);
+  return { updated, applied, failures };
+}
+
+/** Render hunk failures as a readable report for logs and the trace. */
+export function formatHunkFailures(relativePath: string, failures: HunkFailure[]): string {
+  const lines = failures.map((failure) => {
+    const header =
+      failure.reason === 'ambiguous'
+        ? `- Edit #${failure.index + 1}: anchor matches ${failure.matches ?? 'multiple'} locations (add more context).`
+        : failure.bestScore !== undefined
+          ? `- Edit #${failure.index + 1}: anchor not found (closest match ${failure.bestScore} at line ${failure.bestLine}).`
+          : `- Edit #${failure.index + 1}: anchor not found.`;
+    const preview = failure.searchPreview
+      .split('\n')
+      .map((line) => `    ${line}`)
+      .join('\n');
+    return `${header}\n${preview}`;
+  });
+  return `Hunk edits failed for ${relativePath}:\n${lines.join('\n')}`;
+}
+
+function normalizeEol(value: string): string {
+  return value.replace(/\r\n/g, '\n');
+}
+
+function countLines(value: string): number {
+  return value.length === 0 ? 1 : value.split('\n').length;
+}
+
+function findAllOccurrences(haystack: string, needle: string): number[] {
+  const results: number[] = [];
+  let from = 0;
+  while (from <= haystack.length) {
+    const index = haystack.indexOf(needle, from);
+    if (index < 0) {
+      break;
+    }
+    results.push(index);
+    from = index + 1;
+  }
+  return results;
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim().length === 0) {
+    start += 1;
+  }
+  while (end > start && lines[end - 1].trim().length === 0) {
+    end -= 1;
+  }
+  return lines.slice(start, end);
+}
+
+/** Find line windows that match once leading/trailing whitespace is ignored. */
+function findWhitespaceMatches(lines: string[], searchLines: string[]): number[] {
+  if (searchLines.length === 0 || searchLines.length > lines.length) {
+    return [];
+  }
+  const target = searchLines.map((line) => line.trim());
+  const matches: number[] = [];
+  for (let start = 0; start + target.length <= lines.length; start += 1) {
+    let ok = true;
+    for (let offset = 0; offset < target.length; offset += 1) {
+      if (lines[start + offset].trim() !== target[offset]) {
+        ok = false;
+        break;
+      }
+    }
+    if (ok) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+/** Slide the anchor over the file and score each window by per-line similarity. */
+/**
+ * Best-scoring window plus the number of other windows, not overlapping it, that also reach the
+ * threshold within FUZZY_AMBIGUITY_MARGIN of the best score (near-identical repeated blocks).
+ */
+function findBestFuzzyMatch(
+  lines: string[],
+  searchLines: string[],
+  threshold: number
+): { start: number; score: number; rivals: number } | null {
+  if (searchLines.length === 0 || searchLines.length > lines.length) {
+    return null;
+  }
+  const target = searchLines.map((line) => line.trim());
+  const targetBigrams = target.map((line) => buildBigrams(line));
+  const lineBigrams = new Map<number, Map<string, number>>();
+  const getLineBigrams = (index: number) => {
+    let cached = lineBigrams.get(index);
+    if (!cached) {
+      cached = buildBigrams(lines[index].trim());
+      lineBigrams.set(index, cached);
+    }
+    return cached;
+  };
+
+  const scores: number[] = [];
+  let best: { start: number; score: number } | null = null;
+  for (let start = 0; start + target.length <= lines.length; start += 1) {
+    let total = 0;
+    for (let offset = 0; offset < target.length; offset += 1) {
+      const candidate = lines[start + offset].trim();
+      total += candidate === target[offset]
+        ? 1
+        : diceCoefficient(targetBigrams[offset], getLineBigrams(start + offset), target[offset], candidate);
+    }
+    const score = total / target.length;
+    scores.push(score);
+    if (!best || score > best.score) {
+      best = { start, score };
+    }
+  }
+  if (!best) {
+    return null;
+  }
+  const floor = Math.max(threshold, best.score - FUZZY_AMBIGUITY_MARGIN);
+  const bestStart = best.start;
+  let rivals = 0;
+  let lastRival = -Infinity;
+  scores.forEach((score, start) => {
+    if (score >= floor && Math.abs(start - bestStart) >= target.length && start - lastRival >= target.length) {
+      rivals += 1;
+      lastRival = start;
+    }
+  });
+  return { ...best, rivals };
+}
+
+function buildBigrams(value: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i += 1) {
+    const pair = value.slice(i, i + 2);
+    bigrams.set(pair, (bigrams.get(pair) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+function diceCoefficient(a: Map<string, number>, b: Map<string, number>, rawA: string, rawB: string): number {
+  if (rawA.length < 2 || rawB.length < 2) {
+    return rawA === rawB ? 1 : 0;
+  }
+  let overlap = 0;
+  a.forEach((count, pair) => {
+    overlap += Math.min(count, b.get(pair) ?? 0);
+  });
+  return (2 * overlap) / (rawA.length - 1 + (rawB.length - 1));
+}
+
+/** Shift replacement indentation when the model's anchor was indented differently. */
+function reindent(replaceLines: string[], searchLines: string[], matchedLines: string[]): string[] {
+  const searchIndent = leadingWhitespace(searchLines.find((line) => line.trim().length > 0) ?? '');
+  const firstMatched = matchedLines.find((line) => line.trim().length > 0) ?? '';
+  const matchedIndent = leadingWhitespace(firstMatched);
+  if (searchLines.every((line, index) => leadingWhitespace(line) === leadingWhitespace(matchedLines[index] ?? ''))) {
+    return replaceLines;
+  }
+  return replaceLines.map((line, index) => {
+    if (line.trim().length === 0) {
+      return line;
+    }
+    // Lines that keep their anchor indentation take the indentation actually found in the file.
+    const searchLine = searchLines[index];
+    const matchedLine = matchedLines[index];
+    if (searchLine !== undefined && matchedLine !== undefined && leadingWhitespace(line) === leadingWhitespace(searchLine)) {
+      return leadingWhitespace(matchedLine) + line.trimStart();
+    }
+    if (line.startsWith(searchIndent)) {
+      return matchedIndent + line.slice(searchIndent.length);
+    }
+    return line;
+  });
+}
+
+function leadingWhitespace(line: string): string {
+  const match = line.match(/^\s*/);
+  return match ? match[0] : '';
+}
+
+function spliceLines(lines: string[], start: number, count: number, replacement: string[]): string {
+  const next = [...lines.slice(0, start), ...replacement, ...lines.slice(start + count)];
+  return next.join('\n');
+}
+
+function buildPreview(search: string): string {
+  const lines = trimBlankEdges(search.split('\n'));
+  const preview = lines.slice(0, PREVIEW_LINES);
+  if (lines.length > PREVIEW_LINES) {
+    preview.push(`... (${lines.length - PREVIEW_LINES} more lines)`);
+  }
+  return preview.join('\n');
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
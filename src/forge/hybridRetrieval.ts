@@ -0,0 +1,126 @@
+/** Hybrid retrieval: BM25 and embedding hits fused with reciprocal rank fusion. */
+import type * as vscode from 'vscode';
+import { describeChunkSymbol, type ChunkSymbolKind } from '../indexer/codeChunks';
+import { searchEmbeddings } from './embeddingsIndex';
+import { searchLexical } from './lexicalIndex';
+import { recordPayload, recordStep } from './trace';
+
+export type HybridSearchHit = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+  score: number;
+  lexicalRank: number | null;
+  lexicalScore: number | null;
+  vectorRank: number | null;
+  vectorScore: number | null;
+};
+
+type RankedHit = Omit<HybridSearchHit, 'score' | 'lexicalRank' | 'lexicalScore' | 'vectorRank' | 'vectorScore'> & {
+  score: number;
+};
+
+const DEFAULT_RRF_K = 60;
+const DEFAULT_LEXICAL_TOP_K = 20;
+const DEFAULT_MIN_LEXICAL_SCORE = 5;
+const MAX_TRACE_HITS = 15;
+
+/**
+ * Run BM25 and (when enabled) embedding search, then fuse both rankings with
+ * score = sum(1 / (k + rank)). Returns an empty list when there are no vector hits and the best
+ * BM25 hit stays below the minimum score, so callers keep their keyword + rerank path.
+ */
+export async function searchHybrid(
+  instruction: string,
+  rootPath: string,
+  filesList: string[],
+  config: vscode.WorkspaceConfiguration,
+  signal?: AbortSignal
+): Promise<HybridSearchHit[]> {
+  const lexicalEnabled = config.get<boolean>('hybridRetrieval') !== false;
+  const rrfK = Math.max(1, config.get<number>('retrievalRrfK') ?? DEFAULT_RRF_K);
+  const minLexicalScore = Math.max(0, config.get<number>('retrievalMinLexicalScore') ?? DEFAULT_MIN_LEXICAL_SCORE);
+
+  const vectorHits = (await searchEmbeddings(instruction, rootPath, filesList, config, signal)) ?? [];
+  if (signal?.aborted) {
+    return [];
+  }
+  const lexicalHits = lexicalEnabled
+    ? searchLexical(instruction, rootPath, filesList, {
+        topK: DEFAULT_LEXICAL_TOP_K,
+        chunkChars: Math.max(400, config.get<number>('embeddingChunkChars') ?? 1200),
+        maxFileBytes: Math.max(1024, config.get<number>('embeddingMaxFileBytes') ?? 200000)
+      })
+    : [];
+  // BM25 nearly always matches something; on its own it has to be a confident match.
+  if (vectorHits.length === 0 && (lexicalHits[0]?.score ?? 0) < minLexicalScore) {
+    if (lexicalHits.length > 0) {
+      recordStep(
+        'Retrieval fusion skipped',
+        `No vector hits and best BM25 score ${lexicalHits[0].score.toFixed(2)} < ${minLexicalScore}`
+      );
+    }
+    return [];
+  }
+
+  const fused: HybridSearchHit[] = [];
+  const addRanking = (hits: RankedHit[], source: 'lexical' | 'vector') => {
+    hits.forEach((hit, index) => {
+      const rank = index + 1;
+      // Both sides chunk the same way, but stale vectors can drift; overlapping ranges count as one hit.
+      let entry = fused.find(
+        (item) => item.path === hit.path && item.startLine <= hit.endLine && hit.startLine <= item.endLine
+      );
+      if (!entry) {
+        entry = {
+          path: hit.path,
+          startLine: hit.startLine,
+          endLine: hit.endLine,
+          content: hit.content,
+          symbolName: hit.symbolName,
+          symbolKind: hit.symbolKind,
+          score: 0,
+          lexicalRank: null,
+          lexicalScore: null,
+          vectorRank: null,
+          vectorScore: null
+        };
+        fused.push(entry);
+      }
+      if (source === 'lexical' && entry.lexicalRank === null) {
+        entry.lexicalRank = rank;
+        entry.lexicalScore = hit.score;
+        entry.score += 1 / (rrfK + rank);
+      } else if (source === 'vector' && entry.vectorRank === null) {
+        entry.vectorRank = rank;
+        entry.vectorScore = hit.score;
+        entry.score += 1 / (rrfK + rank);
+      }
+    });
+  };
+  addRanking(vectorHits, 'vector');
+  addRanking(lexicalHits, 'lexical');
+
+  fused.sort((a, b) => b.score - a.score);
+  if (fused.length > 0) {
+    recordPayload('Retrieval fusion', formatFusionTable(fused, lexicalHits.length, vectorHits.length, rrfK));
+  }
+  return fused;
+}
+
+function formatFusionTable(hits: HybridSearchHit[], lexicalCount: number, vectorCount: number, rrfK: number): string {
+  const lines = [`BM25 hits: ${lexicalCount}, vector hits: ${vectorCount}, k=${rrfK}`];
+  hits.slice(0, MAX_TRACE_HITS).forEach((hit, index) => {
+    const symbol = describeChunkSymbol(hit);
+    const lexical = hit.lexicalRank !== null ? `#${hit.lexicalRank} (${hit.lexicalScore?.toFixed(2)})` : '-';
+    const vector = hit.vectorRank !== null ? `#${hit.vectorRank} (${hit.vectorScore?.toFixed(3)})` : '-';
+    lines.push(
+      `${index + 1}. ${hit.path}:${hit.startLine}-${hit.endLine}${symbol ? ` ${symbol}` : ''} ` +
+        `rrf=${hit.score.toFixed(4)} bm25=${lexical} vector=${vector}`
+    );
+  });
+  return lines.join('\n');
+}
@@ -7,6 +7,7 @@ import { logOutput, logVerbose } from './logging';
 import { listWorkspaceFiles } from './workspaceFiles';
 import { extractExplicitPaths } from './fileSearch';
 import { getForgeSetting } from './settings';
+import { getRoutedConfig } from '../llm/routing';
 import { requestStructuredJson } from '../llm/structured';
 import { recordPrompt, recordResponse } from './trace';
 import type { ChatHistoryItem, Intent } from './types';
@@ -69,7 +70,10 @@ export async function determineIntent(
   const messages = buildIntentMessages(instruction);
   recordPrompt('Intent prompt', messages, true);
   try {
-    const payload = await requestStructuredJson<Record<string, unknown>>(messages, INTENT_SCHEMA, { signal });
+    const payload = await requestStructuredJson<Record<string, unknown>>(messages, INTENT_SCHEMA, {
+      signal,
+      config: getRoutedConfig('intent')
+    });
     recordResponse('Intent response', JSON.stringify(payload));
     const intent = String(payload.intent ?? '').toLowerCase();
     if (intent === 'edit' || intent === 'question' || intent === 'fix') {
@@ -224,7 +228,10 @@ export async function maybeClarifyInstruction(
   );
   recordPrompt('Clarification prompt', messages, true);
   try {
-    const payload = await requestStructuredJson<Record<string, unknown>>(messages, CLARIFICATION_SCHEMA, { signal });
+    const payload = await requestStructuredJson<Record<string, unknown>>(messages, CLARIFICATION_SCHEMA, {
+      signal,
+      config: getRoutedConfig('clarify')
+    });
     recordResponse('Clarification response', JSON.stringify(payload));
     const kind = String(payload.kind ?? '').toLowerCase();
     if (kind !== 'clarification') {
@@ -270,7 +277,7 @@ export async function maybeSuggestClarificationAnswers(
     const payload = await requestStructuredJson<Record<string, unknown>>(
       messages,
       CLARIFICATION_SUGGEST_SCHEMA,
-      { signal }
+      { signal, config: getRoutedConfig('clarify') }
     );
     recordResponse('Clarification suggestions response', JSON.stringify(payload));
     const answers = Array.isArray(payload.answers) ? payload.answers.map((item) => String(item)).filter(Boolean) : [];
@@ -386,7 +393,7 @@ export async function maybePickDisambiguation(
     const payload = await requestStructuredJson<Record<string, unknown>>(
       messages,
       DISAMBIGUATION_SCHEMA,
-      { signal }
+      { signal, config: getRoutedConfig('intent') }
     );
     recordResponse('Disambiguation response', JSON.stringify(payload));
     const options = Array.isArray(payload.options) ? payload.options : [];
@@ -0,0 +1,240 @@
+/** In-memory BM25 index over workspace chunks, refreshed per file by size and mtime. */
+import * as fs from 'fs';
+import * as path from 'path';
+import { chunkSource, type ChunkSymbolKind } from '../indexer/codeChunks';
+
+export type LexicalSearchResult = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+  score: number;
+};
+
+type LexicalChunk = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+  length: number;
+  terms: Map<string, number>;
+};
+
+type LexicalFileEntry = {
+  size: number;
+  mtimeMs: number;
+  chunks: LexicalChunk[];
+};
+
+type LexicalIndex = {
+  chunkChars: number;
+  maxFileBytes: number;
+  files: Map<string, LexicalFileEntry>;
+  postings: Map<string, Set<LexicalChunk>>;
+  chunkCount: number;
+  totalLength: number;
+};
+
+export type LexicalSearchOptions = {
+  topK: number;
+  chunkChars: number;
+  maxFileBytes: number;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Symbol names count extra so the chunk that declares an identifier outranks its call sites.
+const SYMBOL_TERM_WEIGHT = 3;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 64;
+const QUERY_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'to', 'of', 'for', 'in', 'on', 'with', 'is', 'are', 'be', 'it', 'this', 'that',
+  'how', 'what', 'where', 'why', 'when', 'does', 'do', 'can', 'should', 'please', 'me', 'we', 'our', 'my', 'file', 'files'
+]);
+
+const indexCache = new Map<string, LexicalIndex>();
+
+/** Rank workspace chunks for a query with BM25, updating the folder's index first. */
+export function searchLexical(
+  query: string,
+  rootPath: string,
+  filesList: string[],
+  options: LexicalSearchOptions
+): LexicalSearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query))).filter((term) => !QUERY_STOPWORDS.has(term));
+  if (queryTerms.length === 0) {
+    return [];
+  }
+  const index = updateIndex(rootPath, filesList, options);
+  if (index.chunkCount === 0) {
+    return [];
+  }
+
+  const averageLength = index.totalLength / index.chunkCount;
+  const scores = new Map<LexicalChunk, number>();
+  for (const term of queryTerms) {
+    const postings = index.postings.get(term);
+    if (!postings || postings.size === 0) {
+      continue;
+    }
+    const idf = Math.log(1 + (index.chunkCount - postings.size + 0.5) / (postings.size + 0.5));
+    postings.forEach((chunk) => {
+      const frequency = chunk.terms.get(term) ?? 0;
+      const norm = frequency + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / averageLength);
+      scores.set(chunk, (scores.get(chunk) ?? 0) + (idf * frequency * (BM25_K1 + 1)) / norm);
+    });
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, Math.max(1, options.topK))
+    .map(([chunk, score]) => ({
+      path: chunk.path,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      content: chunk.content,
+      ...(chunk.symbolName ? { symbolName: chunk.symbolName } : {}),
+      ...(chunk.symbolKind ? { symbolKind: chunk.symbolKind } : {}),
+      score
+    }));
+}
+
+/**
+ * Split text into lowercase search terms. Identifiers are kept whole and also split on
+ * camelCase, snake_case and digits, so `getForgeSetting` matches both itself and "forge setting".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const raw of text.split(/[^A-Za-z0-9_$]+/)) {
+    const word = raw.replace(/^[_$]+|[_$]+$/g, '');
+    if (word.length < MIN_TERM_LENGTH || word.length > MAX_TERM_LENGTH) {
+      continue;
+    }
+    terms.push(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+|(?<=\D)(?=\d)|(?<=\d)(?=\D)/)
+      .filter((part) => part.length >= MIN_TERM_LENGTH);
+    if (parts.length > 1) {
+      parts.forEach((part) => terms.push(part.toLowerCase()));
+    }
+  }
+  return terms;
+}
+
+/** Drop files that left the list or changed on disk, then (re)index new and modified files. */
+function updateIndex(rootPath: string, filesList: string[], options: LexicalSearchOptions): LexicalIndex {
+  let index = indexCache.get(rootPath);
+  if (!index || index.chunkChars !== options.chunkChars || index.maxFileBytes !== options.maxFileBytes) {
+    index = {
+      chunkChars: options.chunkChars,
+      maxFileBytes: options.maxFileBytes,
+      files: new Map(),
+      postings: new Map(),
+      chunkCount: 0,
+      totalLength: 0
+    };
+    indexCache.set(rootPath, index);
+  }
+
+  const wanted = new Set(filesList);
+  for (const file of Array.from(index.files.keys())) {
+    if (!wanted.has(file)) {
+      removeFile(index, file);
+    }
+  }
+
+  for (const file of filesList) {
+    const fullPath = path.join(rootPath, file);
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(fullPath);
+    } catch {
+      removeFile(index, file);
+      continue;
+    }
+    const existing = index.files.get(file);
+    if (existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs) {
+      continue;
+    }
+    removeFile(index, file);
+    if (!stat.isFile() || stat.size === 0 || stat.size > options.maxFileBytes) {
+      continue;
+    }
+    let content: string;
+    try {
+      content = fs.readFileSync(fullPath, 'utf8');
+    } catch {
+      continue;
+    }
+    if (content.includes('\u0000')) {
+      continue;
+    }
+    addFile(index, file, content, stat);
+  }
+  return index;
+}
+
+function addFile(index: LexicalIndex, file: string, content: string, stat: fs.Stats): void {
+  const chunks = chunkSource(file, content, index.chunkChars).map((chunk) => {
+    const tokens = tokenize(chunk.content);
+    if (chunk.symbolName) {
+      const symbolTokens = tokenize(chunk.symbolName);
+      for (let i = 0; i < SYMBOL_TERM_WEIGHT; i += 1) {
+        tokens.push(...symbolTokens);
+      }
+    }
+    // The path is searchable too, so "panel" finds src/ui/panel.ts.
+    tokens.push(...tokenize(file.replace(/\.[^./\\]+$/, '')));
+    const terms = new Map<string, number>();
+    tokens.forEach((term) => terms.set(term, (terms.get(term) ?? 0) + 1));
+    return {
+      path: file,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      content: chunk.content,
+      symbolName: chunk.symbolName,
+      symbolKind: chunk.symbolKind,
+      length: tokens.length,
+      terms
+    };
+  });
+
+  for (const chunk of chunks) {
+    chunk.terms.forEach((_, term) => {
+      const postings = index.postings.get(term) ?? new Set<LexicalChunk>();
+      postings.add(chunk);
+      index.postings.set(term, postings);
+    });
+    index.chunkCount += 1;
+    index.totalLength += chunk.length;
+  }
+  index.files.set(file, { size: stat.size, mtimeMs: stat.mtimeMs, chunks });
+}
+
+function removeFile(index: LexicalIndex, file: string): void {
+  const entry = index.files.get(file);
+  if (!entry) {
+    return;
+  }
+  for (const chunk of entry.chunks) {
+    chunk.terms.forEach((_, term) => {
+      const postings = index.postings.get(term);
+      if (!postings) {
+        return;
+      }
+      postings.delete(chunk);
+      if (postings.size === 0) {
+        index.postings.delete(term);
+      }
+    });
+    index.chunkCount -= 1;
+    index.totalLength -= chunk.length;
+  }
+  index.files.delete(file);
+}
@@ -18,6 +18,9 @@ export type MemoryEntry = {
     ok: boolean;
     command?: string | null;
     label?: string | null;
+    introduced?: number;
+    fixed?: number;
+    preExisting?: number;
   };
   verification?: {
     status?: string;
@@ -218,7 +221,7 @@ async function summarizeEntries(entries: MemoryEntry[], signal?: AbortSignal): P
   ];
 
   try {
-    const response = await callChatCompletion(getRoutedConfig('summary'), messages, signal);
+    const response = await callChatCompletion(getRoutedConfig('memory'), messages, signal);
     const content = response.choices?.[0]?.message?.content?.trim();
     if (content) {
       return content;
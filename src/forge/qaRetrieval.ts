@@ -4,7 +4,8 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { extractKeywords, extractMentionedFiles } from './fileSearch';
 import { rankFilesByRelevance } from './retrievalRanker';
-import { searchEmbeddings } from './embeddingsIndex';
+import { searchHybrid } from './hybridRetrieval';
+import { chunkSource, describeChunkSymbol, findChunkForLine, type ChunkSymbolKind } from '../indexer/codeChunks';
 
 export type SourceSnippet = {
   id: string;
@@ -12,6 +13,8 @@ export type SourceSnippet = {
   startLine: number;
   endLine: number;
   content: string;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
 };
 
 export type RetrievalResult = {
@@ -20,6 +23,9 @@ export type RetrievalResult = {
   keywordCoverage: number;
 };
 
+// Upper bound for a declaration-sized snippet; larger declarations are split by the chunker.
+const QA_CHUNK_CHARS = 1600;
+
 /** Collect relevant code snippets to ground a Q&A response. */
 export async function collectRelevantSnippets(
   instruction: string,
@@ -35,17 +41,24 @@ export async function collectRelevantSnippets(
   const keywords = extractKeywords(instruction);
   const mentioned = extractMentionedFiles(instruction, filesList);
 
-  // Use embeddings when enabled to surface the most relevant snippets first.
-  const embeddingHits = await searchEmbeddings(instruction, rootPath, filesList, config, signal);
-  if (embeddingHits && embeddingHits.length > 0) {
-    const sources = embeddingHits.slice(0, maxSnippets).map((hit, index) => ({
+  // Fused BM25 + embedding hits come first; keyword scanning below is the fallback.
+  const hybridHits = await searchHybrid(instruction, rootPath, filesList, config, signal);
+  if (hybridHits.length > 0) {
+    const sources = hybridHits.slice(0, maxSnippets).map((hit, index) => ({
       id: `S${index + 1}`,
       path: hit.path,
       startLine: hit.startLine,
       endLine: hit.endLine,
-      content: hit.content
+      content: hit.content,
+      symbolName: hit.symbolName,
+      symbolKind: hit.symbolKind
     }));
-    const coverage = sources.length > 0 ? Math.min(1, sources.length / maxSnippets) : 0;
+    const coverage =
+      keywords.length > 0
+        ? keywords.filter((keyword) =>
+            sources.some((source) => source.content.toLowerCase().includes(keyword.toLowerCase()))
+          ).length / keywords.length
+        : Math.min(1, sources.length / maxSnippets);
     return { sources, keywords, keywordCoverage: coverage };
   }
 
@@ -140,12 +153,20 @@ export async function collectRelevantSnippets(
       hitLines.push(0);
     }
 
+    // Prefer the enclosing declaration over a fixed window so snippets do not cut functions in half.
+    const chunks = chunkSource(entry.file, content, QA_CHUNK_CHARS);
+    const usedRanges: Array<{ start: number; end: number }> = [];
     for (const hit of hitLines) {
       if (sources.length >= maxSnippets) {
         break;
       }
-      const start = Math.max(0, hit - snippetLines);
-      const end = Math.min(lines.length - 1, hit + snippetLines);
+      const chunk = findChunkForLine(chunks, hit + 1);
+      const start = chunk?.symbolName ? chunk.startLine - 1 : Math.max(0, hit - snippetLines);
+      const end = chunk?.symbolName ? chunk.endLine - 1 : Math.min(lines.length - 1, hit + snippetLines);
+      if (usedRanges.some((range) => range.start <= hit && hit <= range.end)) {
+        continue;
+      }
+      usedRanges.push({ start, end });
       const snippet = lines
         .slice(start, end + 1)
         .map((line, idx) => `${start + idx + 1}: ${line}`)
@@ -155,7 +176,8 @@ export async function collectRelevantSnippets(
         path: entry.file,
         startLine: start + 1,
         endLine: end + 1,
-        content: snippet
+        content: snippet,
+        ...(chunk?.symbolName ? { symbolName: chunk.symbolName, symbolKind: chunk.symbolKind } : {})
       });
       snippetId += 1;
     }
@@ -200,7 +222,8 @@ export function appendSourcesAndConfidence(
 ): string {
   const sourceLines = sources.map((source) => {
     const location = `${source.path}:${source.startLine}-${source.endLine}`;
-    return `[${source.id}] ${location}`;
+    const symbol = describeChunkSymbol(source);
+    return symbol ? `[${source.id}] ${location} (${symbol})` : `[${source.id}] ${location}`;
   });
   const sourcesBlock = sourceLines.length > 0 ? `Sources:\n${sourceLines.join('\n')}` : 'Sources: none';
   return `${answer}\n\nConfidence: ${confidence}\n${sourcesBlock}`;
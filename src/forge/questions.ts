@@ -5,6 +5,7 @@ import * as vscode from 'vscode';
 import { harvestContext, type ProjectContext } from '../context';
 import type { ChatMessage } from '../llm/client';
 import { callChatCompletion } from '../llm/client';
+import { getRoutedConfig } from '../llm/routing';
 import { isAbortError, logOutput } from './logging';
 import { recordPrompt, recordResponse, recordStep } from './trace';
 import { listWorkspaceFiles } from './workspaceFiles';
@@ -26,6 +27,7 @@ import {
   isProjectSummaryQuestion
 } from './qaSummary';
 import type { ChatHistoryItem } from './types';
+import { describeChunkSymbol } from '../indexer/codeChunks';
 import type { ForgeUiApi } from '../ui/api';
 
 /** Answer user questions using local context and the LLM when needed. */
@@ -72,7 +74,7 @@ export async function answerQuestion(
           buildProjectChunkMessages(chunk, i + 1, chunksResult.chunks.length, memoryContext)
         );
         recordPrompt(`Project summary chunk ${i + 1}/${chunksResult.chunks.length} prompt`, messages, true);
-        const response = await callChatCompletion({}, messages, signal);
+        const response = await callChatCompletion(getRoutedConfig('summary'), messages, signal);
         const content = response.choices?.[0]?.message?.content?.trim();
         if (content) {
           recordResponse(`Project summary chunk ${i + 1}/${chunksResult.chunks.length} response`, content);
@@ -89,7 +91,7 @@ export async function answerQuestion(
         buildProjectSummaryFromChunksMessages(instruction, partials, memoryContext)
       );
       recordPrompt('Project summary prompt', finalMessages, true);
-      const response = await callChatCompletion({}, finalMessages, signal);
+      const response = await callChatCompletion(getRoutedConfig('answer'), finalMessages, signal);
       const answer = response.choices?.[0]?.message?.content?.trim();
       if (!answer) {
         logOutput(output, panelApi, 'No answer returned.');
@@ -177,7 +179,7 @@ export async function answerQuestion(
   recordPrompt('Q&A prompt', messages, true);
   logOutput(output, panelApi, 'Requesting answer from the local LLM...');
   try {
-    const response = await callChatCompletion({}, messages, signal);
+    const response = await callChatCompletion(getRoutedConfig('answer'), messages, signal);
     const answer = response.choices?.[0]?.message?.content?.trim();
     if (!answer) {
       logOutput(output, panelApi, 'No answer returned.');
@@ -211,7 +213,8 @@ function buildGroundedQuestionMessages(
   const sourcesBlock = sources
     .map((source) => {
       const location = `${source.path}:${source.startLine}-${source.endLine}`;
-      return `[${source.id}] ${location}\n${source.content}`;
+      const symbol = describeChunkSymbol(source);
+      return `[${source.id}] ${location}${symbol ? ` (${symbol})` : ''}\n${source.content}`;
     })
     .join('\n\n');
   const memoryBlock = memoryContext ? `\n\nProject memory:\n${memoryContext}` : '';
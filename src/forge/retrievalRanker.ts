@@ -2,6 +2,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import type { ChatMessage } from '../llm/client';
+import { getRoutedConfig } from '../llm/routing';
 import { requestStructuredJson } from '../llm/structured';
 import { RETRIEVAL_RANK_SCHEMA } from './schemas';
 import { recordPrompt, recordResponse, recordStep } from './trace';
@@ -55,7 +56,8 @@ export async function rankFilesByRelevance(
   recordPrompt('Retrieval re-rank prompt', messages, true);
   try {
     const payload = await requestStructuredJson<RankPayload>(messages, RETRIEVAL_RANK_SCHEMA, {
-      signal: options.signal
+      signal: options.signal,
+      config: getRoutedConfig('rank')
     });
     recordResponse('Retrieval re-rank response', JSON.stringify(payload));
     const ordered = Array.isArray(payload.ordered) ? payload.ordered.map((item) => String(item)) : [];
@@ -0,0 +1,90 @@
+/** Past runs for the history tab: memory entries joined with run records and undo snapshots. */
+import * as path from 'path';
+import { loadMemoryState, type MemoryEntry } from './memory';
+import { getRunRecordsDir, listRunRecords, loadRunRecord } from './runRecorder';
+import { loadRunSnapshot } from './runSnapshot';
+import type { TraceEntry } from './trace';
+
+export type RunHistoryItem = {
+  id: string;
+  rootPath: string;
+  createdAt: string;
+  instruction: string;
+  intent?: string;
+  filesChanged: string[];
+  validation?: MemoryEntry['validation'];
+  verification?: MemoryEntry['verification'];
+  outcome?: string;
+  /** A run record exists, so the trace and diffs can be shown. */
+  hasRecord: boolean;
+  /** An undo snapshot with files exists and has not been undone. */
+  canRevert: boolean;
+  reverted: boolean;
+};
+
+export type RunHistoryDetail = RunHistoryItem & {
+  summary?: string;
+  decisions?: string[];
+  constraints?: string[];
+  durationMs?: number;
+  trace: TraceEntry[];
+};
+
+/** Runs across workspace folders, newest first; runs missing from memory come from their records. */
+export function listRunHistory(rootPaths: string[]): RunHistoryItem[] {
+  const items: RunHistoryItem[] = [];
+  for (const rootPath of rootPaths) {
+    const entries = loadMemoryState(rootPath)?.entries ?? [];
+    const seen = new Set(entries.map((entry) => entry.id));
+    const records = listRunRecords(rootPath);
+    const recordIds = new Set(records.map((record) => record.id));
+    for (const entry of entries) {
+      items.push(buildItem(rootPath, entry, recordIds.has(entry.id)));
+    }
+    for (const record of records) {
+      if (seen.has(record.id)) {
+        continue;
+      }
+      const entry: MemoryEntry = { id: record.id, createdAt: record.startedAt, instruction: record.instruction };
+      items.push({ ...buildItem(rootPath, entry, true), outcome: record.outcome ?? undefined });
+    }
+  }
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** One run with its summary and recorded trace (steps, tool results, diffs); null when unknown. */
+export function loadRunHistoryDetail(rootPath: string, runId: string): RunHistoryDetail | null {
+  const item = listRunHistory([rootPath]).find((candidate) => candidate.id === runId);
+  if (!item) {
+    return null;
+  }
+  const entry = loadMemoryState(rootPath)?.entries.find((candidate) => candidate.id === runId);
+  const record = item.hasRecord ? loadRunRecord(path.join(getRunRecordsDir(rootPath), `${runId}.jsonl`)) : null;
+  return {
+    ...item,
+    summary: entry?.summary,
+    decisions: entry?.decisions,
+    constraints: entry?.constraints,
+    durationMs: record?.end?.durationMs,
+    trace: record?.trace ?? []
+  };
+}
+
+function buildItem(rootPath: string, entry: MemoryEntry, hasRecord: boolean): RunHistoryItem {
+  const snapshot = loadRunSnapshot(rootPath, entry.id);
+  const snapshotFiles = snapshot?.files.map((file) => file.relativePath) ?? [];
+  return {
+    id: entry.id,
+    rootPath,
+    createdAt: entry.createdAt,
+    instruction: entry.instruction,
+    intent: entry.intent,
+    filesChanged: entry.filesChanged ?? snapshotFiles,
+    validation: entry.validation,
+    verification: entry.verification,
+    outcome: entry.outcome,
+    hasRecord,
+    canRevert: Boolean(snapshot && snapshot.files.length > 0 && !snapshot.undoneAt),
+    reverted: Boolean(snapshot?.undoneAt)
+  };
+}
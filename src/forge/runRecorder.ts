@@ -0,0 +1,176 @@
+/** Persisted run records (`.forge/runs/<id>.jsonl`) for debugging and deterministic replays. */
+import * as fs from 'fs';
+import * as path from 'path';
+import { recordLLMExchanges, type LLMExchange } from '../llm/exchanges';
+import { setTraceSink, type TraceEntry } from './trace';
+import type { ChatHistoryItem } from './types';
+
+export type RunRecordHeader = {
+  type: 'run';
+  version: number;
+  id: string;
+  startedAt: string;
+  instruction: string;
+  history: ChatHistoryItem[];
+  activeFile: string | null;
+  settings: Record<string, unknown>;
+  /** Id of the recorded run this run replayed. */
+  replayOf?: string;
+};
+
+export type RunRecordEnd = {
+  type: 'end';
+  outcome: string;
+  durationMs: number;
+  workspaceRoot: string | null;
+};
+
+/** One JSONL line: the header first, then LLM exchanges and trace entries as they happen, then the end. */
+export type RunRecordLine =
+  | RunRecordHeader
+  | { type: 'llm'; exchange: LLMExchange }
+  | { type: 'trace'; entry: TraceEntry }
+  | RunRecordEnd;
+
+export type RunRecord = {
+  filePath: string;
+  header: RunRecordHeader;
+  exchanges: LLMExchange[];
+  trace: TraceEntry[];
+  end: RunRecordEnd | null;
+};
+
+export type RunRecordSummary = {
+  id: string;
+  filePath: string;
+  startedAt: string;
+  instruction: string;
+  outcome: string | null;
+  replayOf?: string;
+};
+
+export const RUN_RECORD_VERSION = 1;
+
+let activeRecording: { id: string; lines: RunRecordLine[] } | null = null;
+
+/** Directory holding run records for a workspace folder. */
+export function getRunRecordsDir(rootPath: string): string {
+  return path.join(rootPath, '.forge', 'runs');
+}
+
+/** Start collecting LLM exchanges and trace entries for a run (replaces any unfinished recording). */
+export function startRunRecording(header: Omit<RunRecordHeader, 'type' | 'version'>): void {
+  const lines: RunRecordLine[] = [{ type: 'run', version: RUN_RECORD_VERSION, ...header }];
+  activeRecording = { id: header.id, lines };
+  recordLLMExchanges((exchange) => lines.push({ type: 'llm', exchange }));
+  setTraceSink((entry) => lines.push({ type: 'trace', entry }));
+}
+
+/**
+ * Stop recording run `runId` and write `<id>.jsonl` when the run has a workspace folder; older records
+ * beyond `maxRecords` are removed. Returns the written path, or null. A run whose recording was
+ * replaced by a newer run's leaves that recording untouched.
+ */
+export function finishRunRecording(runId: string, end: Omit<RunRecordEnd, 'type'>, maxRecords: number): string | null {
+  if (activeRecording?.id !== runId) {
+    return null;
+  }
+  const lines = activeRecording.lines;
+  activeRecording = null;
+  recordLLMExchanges(null);
+  setTraceSink(null);
+  if (!end.workspaceRoot) {
+    return null;
+  }
+  lines.push({ type: 'end', ...end });
+  const header = lines[0] as RunRecordHeader;
+  const dir = getRunRecordsDir(end.workspaceRoot);
+  const filePath = path.join(dir, `${header.id}.jsonl`);
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, lines.map((line) => JSON.stringify(line)).join('\n') + '\n', 'utf8');
+    pruneRunRecords(dir, maxRecords);
+  } catch {
+    return null;
+  }
+  return filePath;
+}
+
+/** Recorded runs for a workspace folder, newest first. */
+export function listRunRecords(rootPath: string): RunRecordSummary[] {
+  const dir = getRunRecordsDir(rootPath);
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir).filter((name) => name.endsWith('.jsonl'));
+  } catch {
+    return [];
+  }
+  const summaries: RunRecordSummary[] = [];
+  for (const name of names) {
+    const record = loadRunRecord(path.join(dir, name));
+    if (!record) {
+      continue;
+    }
+    summaries.push({
+      id: record.header.id,
+      filePath: record.filePath,
+      startedAt: record.header.startedAt,
+      instruction: record.header.instruction,
+      outcome: record.end?.outcome ?? null,
+      replayOf: record.header.replayOf
+    });
+  }
+  return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/** Parse a run record; null when the file is missing or has no valid header. */
+export function loadRunRecord(filePath: string): RunRecord | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+  let header: RunRecordHeader | null = null;
+  let end: RunRecordEnd | null = null;
+  const exchanges: LLMExchange[] = [];
+  const trace: TraceEntry[] = [];
+  for (const text of raw.split('\n')) {
+    if (!text.trim()) {
+      continue;
+    }
+    let line: RunRecordLine;
+    try {
+      line = JSON.parse(text) as RunRecordLine;
+    } catch {
+      continue;
+    }
+    if (line.type === 'run') {
+      header = line;
+    } else if (line.type === 'llm') {
+      exchanges.push(line.exchange);
+    } else if (line.type === 'trace') {
+      trace.push(line.entry);
+    } else if (line.type === 'end') {
+      end = line;
+    }
+  }
+  if (!header || header.version !== RUN_RECORD_VERSION) {
+    return null;
+  }
+  return { filePath, header, exchanges, trace, end };
+}
+
+/** Settings to pin while replaying: the recorded snapshot minus redacted secrets. */
+export function getReplaySettings(record: RunRecord): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record.header.settings).filter(([, value]) => value !== '[redacted]'));
+}
+
+function pruneRunRecords(dir: string, maxRecords: number): void {
+  const files = fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.jsonl'))
+    .map((name) => ({ fullPath: path.join(dir, name), mtimeMs: fs.statSync(path.join(dir, name)).mtimeMs }))
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+  files.slice(Math.max(1, maxRecords)).forEach((file) => fs.rmSync(file.fullPath, { force: true }));
+}
@@ -0,0 +1,374 @@
+/** Transactional file writes with persisted per-run snapshots for undo. */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FileUpdate } from './types';
+
+export type RunSnapshotFile = {
+  relativePath: string;
+  existed: boolean;
+  original: string | null;
+  appliedHash: string;
+};
+
+export type RunSnapshot = {
+  version: 1;
+  runId: string;
+  createdAt: string;
+  updatedAt: string;
+  undoneAt?: string;
+  files: RunSnapshotFile[];
+};
+
+export type UndoResult = {
+  runId: string;
+  restored: string[];
+  deleted: string[];
+};
+
+const SNAPSHOT_VERSION: RunSnapshot['version'] = 1;
+const MAX_SNAPSHOTS = 20;
+
+let activeRun: { rootPath: string; runId: string } | null = null;
+
+/** Begin collecting originals for the current run so it can be undone later. */
+export function startRunSnapshot(rootPath: string, runId: string): void {
+  activeRun = { rootPath, runId };
+}
+
+/** Stop collecting originals for `runId`; a newer run's snapshot is left running. */
+export function endRunSnapshot(runId: string): void {
+  if (activeRun?.runId === runId) {
+    activeRun = null;
+  }
+}
+
+/** Resolve the snapshot directory for a repo root. */
+export function getSnapshotDir(rootPath: string): string {
+  return path.join(rootPath, '.forge', 'snapshots');
+}
+
+/** Load a specific run snapshot from disk if present and valid. */
+export function loadRunSnapshot(rootPath: string, runId: string): RunSnapshot | null {
+  const filePath = path.join(getSnapshotDir(rootPath), `${sanitizeRunId(runId)}.json`);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as RunSnapshot;
+    if (!parsed || parsed.version !== SNAPSHOT_VERSION || !Array.isArray(parsed.files)) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/** Find the most recent run snapshot that has not been undone yet. */
+export function loadLastRunSnapshot(rootPath: string): RunSnapshot | null {
+  const snapshots = listRunSnapshots(rootPath).filter((snapshot) => !snapshot.undoneAt);
+  return snapshots[0] ?? null;
+}
+
+/** List stored run snapshots, newest first. */
+export function listRunSnapshots(rootPath: string): RunSnapshot[] {
+  const dirPath = getSnapshotDir(rootPath);
+  if (!fs.existsSync(dirPath)) {
+    return [];
+  }
+  const snapshots: RunSnapshot[] = [];
+  for (const name of fs.readdirSync(dirPath)) {
+    if (!name.endsWith('.json')) {
+      continue;
+    }
+    const snapshot = loadRunSnapshot(rootPath, name.slice(0, -'.json'.length));
+    if (snapshot) {
+      snapshots.push(snapshot);
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Write all updates or none: contents are staged to temp files first, then renamed into place.
+ * Any failure restores files that were already committed and removes the temp files.
+ */
+export function commitFileUpdates(updates: FileUpdate[]): void {
+  const writes = updates.map((update) => ({
+    fullPath: update.fullPath,
+    relativePath: update.relativePath,
+    content: update.updated
+  }));
+  commitWrites(writes, []);
+}
+
+/** Write each file's content atomically; a null content deletes the file if it exists. */
+export function commitFileStates(
+  rootPath: string,
+  states: Array<{ relativePath: string; content: string | null }>
+): void {
+  const writes: Array<{ fullPath: string; relativePath: string; content: string }> = [];
+  const deletes: Array<{ fullPath: string; relativePath: string }> = [];
+  for (const state of states) {
+    const fullPath = path.join(rootPath, state.relativePath);
+    if (state.content !== null) {
+      writes.push({ fullPath, relativePath: state.relativePath, content: state.content });
+    } else if (fs.existsSync(fullPath)) {
+      deletes.push({ fullPath, relativePath: state.relativePath });
+    }
+  }
+  commitWrites(writes, deletes);
+}
+
+/** Restore every file touched by a run snapshot, deleting files the run created. */
+export function undoRunSnapshot(rootPath: string, snapshot: RunSnapshot): UndoResult {
+  const writes: Array<{ fullPath: string; relativePath: string; content: string }> = [];
+  const deletes: Array<{ fullPath: string; relativePath: string }> = [];
+  for (const file of snapshot.files) {
+    const fullPath = resolveSnapshotPath(rootPath, file.relativePath);
+    if (!fullPath) {
+      continue;
+    }
+    if (file.existed && file.original !== null) {
+      writes.push({ fullPath, relativePath: file.relativePath, content: file.original });
+    } else if (fs.existsSync(fullPath)) {
+      deletes.push({ fullPath, relativePath: file.relativePath });
+    }
+  }
+
+  // Undo writes must not be captured as part of any active run.
+  const previousRun = activeRun;
+  activeRun = null;
+  try {
+    commitWrites(writes, deletes);
+  } finally {
+    activeRun = previousRun;
+  }
+
+  saveRunSnapshot(rootPath, { ...snapshot, undoneAt: new Date().toISOString() });
+  return {
+    runId: snapshot.runId,
+    restored: writes.map((item) => item.relativePath),
+    deleted: deletes.map((item) => item.relativePath)
+  };
+}
+
+/** List snapshot files whose current content differs from what the run wrote. */
+export function findFilesModifiedSinceRun(rootPath: string, snapshot: RunSnapshot): string[] {
+  return snapshot.files
+    .filter((file) => {
+      const fullPath = resolveSnapshotPath(rootPath, file.relativePath);
+      if (!fullPath) {
+        return true;
+      }
+      if (!fs.existsSync(fullPath)) {
+        // An empty hash means the run itself deleted the file.
+        return file.appliedHash !== '';
+      }
+      return hashContent(fs.readFileSync(fullPath, 'utf8')) !== file.appliedHash;
+    })
+    .map((file) => file.relativePath);
+}
+
+function commitWrites(
+  writes: Array<{ fullPath: string; relativePath: string; content: string }>,
+  deletes: Array<{ fullPath: string; relativePath: string }>
+): void {
+  const createdDirs: string[] = [];
+  const staged: Array<{ fullPath: string; relativePath: string; tempPath: string; content: string }> = [];
+  const committed: Array<{ fullPath: string; existed: boolean; previous: string | null }> = [];
+  const snapshotRun = activeRun;
+  const previousSnapshot = snapshotRun ? loadRunSnapshot(snapshotRun.rootPath, snapshotRun.runId) : null;
+
+  try {
+    for (const write of writes) {
+      ensureDir(path.dirname(write.fullPath), createdDirs);
+      const tempPath = `${write.fullPath}.forge-${process.pid}-${Date.now().toString(36)}.tmp`;
+      fs.writeFileSync(tempPath, write.content, 'utf8');
+      copyFileMode(write.fullPath, tempPath);
+      staged.push({ ...write, tempPath });
+    }
+
+    const previous = [...writes, ...deletes].map((item) => {
+      const existed = fs.existsSync(item.fullPath);
+      return {
+        fullPath: item.fullPath,
+        relativePath: item.relativePath,
+        existed,
+        previous: existed ? fs.readFileSync(item.fullPath, 'utf8') : null
+      };
+    });
+
+    // Persist originals before touching the workspace so a crash mid-commit stays undoable.
+    if (snapshotRun) {
+      recordSnapshotFiles(snapshotRun.rootPath, snapshotRun.runId, previousSnapshot, previous, staged);
+    }
+
+    for (const item of staged) {
+      const before = previous.find((entry) => entry.fullPath === item.fullPath);
+      fs.renameSync(item.tempPath, item.fullPath);
+      committed.push({ fullPath: item.fullPath, existed: before?.existed ?? false, previous: before?.previous ?? null });
+    }
+    for (const item of deletes) {
+      const before = previous.find((entry) => entry.fullPath === item.fullPath);
+      fs.unlinkSync(item.fullPath);
+      committed.push({ fullPath: item.fullPath, existed: true, previous: before?.previous ?? null });
+    }
+  } catch (error) {
+    rollback(committed, staged, createdDirs);
+    if (snapshotRun) {
+      restoreSnapshot(snapshotRun.rootPath, snapshotRun.runId, previousSnapshot);
+    }
+    throw error;
+  }
+}
+
+function rollback(
+  committed: Array<{ fullPath: string; existed: boolean; previous: string | null }>,
+  staged: Array<{ tempPath: string }>,
+  createdDirs: string[]
+): void {
+  for (let i = committed.length - 1; i >= 0; i -= 1) {
+    const item = committed[i];
+    try {
+      if (item.existed && item.previous !== null) {
+        fs.writeFileSync(item.fullPath, item.previous, 'utf8');
+      } else if (fs.existsSync(item.fullPath)) {
+        fs.unlinkSync(item.fullPath);
+      }
+    } catch {
+      // Best-effort: keep restoring the remaining files.
+    }
+  }
+  for (const item of staged) {
+    try {
+      if (fs.existsSync(item.tempPath)) {
+        fs.unlinkSync(item.tempPath);
+      }
+    } catch {
+      // ignore
+    }
+  }
+  for (let i = createdDirs.length - 1; i >= 0; i -= 1) {
+    try {
+      fs.rmdirSync(createdDirs[i]);
+    } catch {
+      // Directory is not empty or already gone.
+    }
+  }
+}
+
+function recordSnapshotFiles(
+  rootPath: string,
+  runId: string,
+  existing: RunSnapshot | null,
+  previous: Array<{ relativePath: string; existed: boolean; previous: string | null }>,
+  staged: Array<{ relativePath: string; content: string }>
+): void {
+  const now = new Date().toISOString();
+  const snapshot: RunSnapshot = existing
+    ? { ...existing, files: [...existing.files], updatedAt: now }
+    : { version: SNAPSHOT_VERSION, runId, createdAt: now, updatedAt: now, files: [] };
+
+  for (const item of previous) {
+    const key = normalizeRelativePath(item.relativePath);
+    const written = staged.find((entry) => normalizeRelativePath(entry.relativePath) === key);
+    const appliedHash = written ? hashContent(written.content) : '';
+    const index = snapshot.files.findIndex((file) => normalizeRelativePath(file.relativePath) === key);
+    if (index >= 0) {
+      // Keep the earliest original; only the applied content moves forward.
+      snapshot.files[index] = { ...snapshot.files[index], appliedHash };
+      continue;
+    }
+    snapshot.files.push({
+      relativePath: item.relativePath,
+      existed: item.existed,
+      original: item.previous,
+      appliedHash
+    });
+  }
+
+  saveRunSnapshot(rootPath, snapshot);
+  pruneSnapshots(rootPath);
+}
+
+function restoreSnapshot(rootPath: string, runId: string, snapshot: RunSnapshot | null): void {
+  try {
+    if (snapshot) {
+      saveRunSnapshot(rootPath, snapshot);
+      return;
+    }
+    const filePath = path.join(getSnapshotDir(rootPath), `${sanitizeRunId(runId)}.json`);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  } catch {
+    // Snapshot bookkeeping is best-effort once the workspace is restored.
+  }
+}
+
+function saveRunSnapshot(rootPath: string, snapshot: RunSnapshot): void {
+  const dirPath = getSnapshotDir(rootPath);
+  fs.mkdirSync(dirPath, { recursive: true });
+  const filePath = path.join(dirPath, `${sanitizeRunId(snapshot.runId)}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2), 'utf8');
+}
+
+function pruneSnapshots(rootPath: string): void {
+  const snapshots = listRunSnapshots(rootPath);
+  for (const snapshot of snapshots.slice(MAX_SNAPSHOTS)) {
+    try {
+      fs.unlinkSync(path.join(getSnapshotDir(rootPath), `${sanitizeRunId(snapshot.runId)}.json`));
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/** Keep the target's permissions (e.g. the executable bit), which the rename would otherwise replace. */
+function copyFileMode(fromPath: string, toPath: string): void {
+  try {
+    fs.chmodSync(toPath, fs.statSync(fromPath).mode & 0o7777);
+  } catch {
+    // New files keep the default mode.
+  }
+}
+
+function ensureDir(dirPath: string, createdDirs: string[]): void {
+  const missing: string[] = [];
+  let current = dirPath;
+  while (!fs.existsSync(current)) {
+    missing.unshift(current);
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  for (const dir of missing) {
+    fs.mkdirSync(dir);
+    createdDirs.push(dir);
+  }
+}
+
+function resolveSnapshotPath(rootPath: string, relativePath: string): string | null {
+  const fullPath = path.resolve(rootPath, relativePath);
+  const relative = path.relative(rootPath, fullPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return fullPath;
+}
+
+function normalizeRelativePath(value: string): string {
+  return value.replace(/\\/g, '/').toLowerCase();
+}
+
+function sanitizeRunId(runId: string): string {
+  return runId.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
@@ -31,6 +31,37 @@ export const FILE_UPDATE_SCHEMA = {
   additionalProperties: false
 } as const;
 
+export const FILE_EDIT_SCHEMA = {
+  type: 'object',
+  properties: {
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          edits: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                search: { type: 'string' },
+                replace: { type: 'string' }
+              },
+              required: ['search', 'replace'],
+              additionalProperties: false
+            }
+          }
+        },
+        required: ['path', 'edits'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['files'],
+  additionalProperties: false
+} as const;
+
 export const INTENT_SCHEMA = {
   type: 'object',
   properties: {
@@ -188,6 +219,68 @@ export const TOOL_CALL_SCHEMA = {
       required: ['tool', 'path'],
       additionalProperties: false
     },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'read_file_range' },
+        path: { type: 'string' },
+        startLine: { type: 'integer', minimum: 1 },
+        endLine: { type: 'integer', minimum: 1 }
+      },
+      required: ['tool', 'path', 'startLine', 'endLine'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'list_dir' },
+        path: { type: 'string' }
+      },
+      required: ['tool'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'search_text' },
+        pattern: { type: 'string', minLength: 1 },
+        path: { type: 'string' },
+        maxResults: { type: 'integer', minimum: 1 }
+      },
+      required: ['tool', 'pattern'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'find_symbol' },
+        name: { type: 'string', minLength: 1 }
+      },
+      required: ['tool', 'name'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'propose_patch' },
+        path: { type: 'string' },
+        edits: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              search: { type: 'string' },
+              replace: { type: 'string' }
+            },
+            required: ['search', 'replace'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['tool', 'path', 'edits'],
+      additionalProperties: false
+    },
     {
       type: 'object',
       properties: {
@@ -204,6 +297,15 @@ export const TOOL_CALL_SCHEMA = {
       },
       required: ['tool', 'command'],
       additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        tool: { const: 'finish' },
+        reason: { type: 'string' }
+      },
+      required: ['tool'],
+      additionalProperties: false
     }
   ]
 } as const;
@@ -15,6 +15,7 @@ const PROFILE_DEFAULTS: Record<ForgeProfile, ProfileDefaults> = {
     autoValidationMode: 'smart',
     autoFixValidation: true,
     autoFixMaxRetries: 3,
+    testSelection: 'targeted',
     bestEffortFix: true,
     autoAddDependencies: true,
     autoCreateMissingFiles: true,
@@ -40,6 +41,7 @@ const PROFILE_DEFAULTS: Record<ForgeProfile, ProfileDefaults> = {
     showDiffPreview: true,
     autoValidation: false,
     autoFixValidation: false,
+    testSelection: 'full',
     skipCreateFilePicker: false,
     clarifyBeforeEdit: true,
     clarifyOnlyIf: 'always',
@@ -82,8 +84,18 @@ function hasUserOverride<T>(inspect: ConfigInspect<T> | undefined): boolean {
   );
 }
 
+let settingOverrides: Record<string, unknown> | null = null;
+
+/** Pin setting values (e.g. a recorded run's snapshot during replay); null restores live settings. */
+export function setForgeSettingOverrides(overrides: Record<string, unknown> | null): void {
+  settingOverrides = overrides;
+}
+
 /** Get a Forge setting, honoring profile defaults unless the user explicitly overrides. */
 export function getForgeSetting<T>(key: string, fallback?: T): T {
+  if (settingOverrides && Object.prototype.hasOwnProperty.call(settingOverrides, key)) {
+    return settingOverrides[key] as T;
+  }
   const config = vscode.workspace.getConfiguration('forge');
   const profile = getForgeProfile(config);
   const inspect = config.inspect<T>(key);
@@ -101,3 +113,36 @@ export function getForgeSetting<T>(key: string, fallback?: T): T {
   const value = config.get<T>(key, fallback as T);
   return value as T;
 }
+
+const SECRET_KEY = /apikey|token(?!i[sz]er)|secret/i;
+
+/**
+ * Effective value of every contributed `forge.*` setting (profile defaults applied), with API keys,
+ * tokens and secrets redacted at any depth (e.g. `apiKey` inside `llmModels` routes), for run records.
+ */
+export function snapshotForgeSettings(): Record<string, unknown> {
+  const properties = (vscode.extensions.getExtension('forge.forge')?.packageJSON?.contributes?.configuration?.properties ??
+    {}) as Record<string, unknown>;
+  const snapshot: Record<string, unknown> = {};
+  for (const name of Object.keys(properties)) {
+    const key = name.replace(/^forge\./, '');
+    const value = getForgeSetting<unknown>(key);
+    snapshot[key] = redactSecretValues(key, value);
+  }
+  return snapshot;
+}
+
+function redactSecretValues(key: string, value: unknown): unknown {
+  if (typeof value === 'string') {
+    return SECRET_KEY.test(key) && value.length > 0 ? '[redacted]' : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecretValues(key, item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([name, item]) => [name, redactSecretValues(name, item)])
+    );
+  }
+  return value;
+}
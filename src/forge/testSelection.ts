@@ -0,0 +1,216 @@
+/** Targeted test selection: tests affected by changed files via import graph, naming and runner flags. */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ValidationOption } from '../validation';
+import { listWorkspaceFiles } from './workspaceFiles';
+
+export type TestSelectionMode = 'full' | 'targeted' | 'targetedThenFull';
+
+export type TestRunner = 'jest' | 'vitest' | 'mocha' | 'pytest';
+
+/** What a test command actually ran, for the trace and baseline comparison. */
+export type TestSelection = {
+  label: string;
+  runner: TestRunner | null;
+  changedFiles: string[];
+  /** Test files found by import graph and naming conventions (the runner may add its own). */
+  tests: string[];
+  /** Command for the targeted run; null when no targeted run was possible. */
+  targetedCommand: string | null;
+  fullCommand: string;
+  /** The full suite ran after the targeted run passed. */
+  escalated: boolean;
+};
+
+type ImportEntry = {
+  mtimeMs: number;
+  size: number;
+  specifiers: string[];
+};
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const TEST_FILE_PATTERN = /(^|\/)(__tests__\/.*\.[cm]?[jt]sx?|[^/]+\.(test|spec)\.[cm]?[jt]sx?)$/;
+const PYTHON_TEST_PATTERN = /(^|\/)(test_[^/]+|[^/]+_test)\.py$/;
+const IMPORT_PATTERN =
+  /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*['"]([^'"]+)['"]|(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+const MAX_GRAPH_FILES = 20000;
+const MAX_GRAPH_DEPTH = 12;
+const MAX_IMPORT_FILE_BYTES = 512 * 1024;
+// Beyond this many files a targeted run is not meaningfully faster and risks command-line limits.
+const MAX_TARGETED_FILES = 100;
+
+// Keyed by relative path for one root at a time, so sandbox copies do not pile up entries.
+const importCache = new Map<string, ImportEntry>();
+let importCacheRoot: string | null = null;
+
+/** Work out which runner a test option uses, looking through `npm run test` to the script body. */
+export function detectTestRunner(option: ValidationOption, packageJson: unknown): TestRunner | null {
+  let text = option.command;
+  if (/^(npm run|yarn|pnpm|bun run)\s+test$/.test(option.command.trim())) {
+    const scripts = (packageJson as { scripts?: Record<string, string> } | null)?.scripts ?? {};
+    text = scripts.test ?? '';
+  }
+  if (/\bvitest\b/.test(text)) {
+    return 'vitest';
+  }
+  if (/\bjest\b/.test(text)) {
+    return 'jest';
+  }
+  if (/\bmocha\b/.test(text)) {
+    return 'mocha';
+  }
+  if (/\bpytest\b/.test(text)) {
+    return 'pytest';
+  }
+  return null;
+}
+
+/**
+ * Test files affected by the changed files: changed tests themselves, JS/TS tests that import a
+ * changed file (transitively), and tests named after a changed module (`foo.test.ts`, `test_foo.py`).
+ */
+export function findAffectedTests(rootPath: string, changedFiles: string[]): string[] {
+  const changed = changedFiles.map(normalizePath);
+  const affected = new Set<string>(changed.filter(isTestFile));
+  const files = listWorkspaceFiles(rootPath, MAX_GRAPH_DEPTH, MAX_GRAPH_FILES).map(normalizePath);
+
+  const baseNames = new Set(changed.map((file) => stripExtensions(path.posix.basename(file))));
+  for (const file of files) {
+    if (!isTestFile(file)) {
+      continue;
+    }
+    const name = path.posix.basename(file);
+    const subject = name.endsWith('.py')
+      ? name.replace(/^test_/, '').replace(/_test\.py$/, '').replace(/\.py$/, '')
+      : stripExtensions(name.replace(/\.(test|spec)(?=\.[cm]?[jt]sx?$)/, ''));
+    if (baseNames.has(subject)) {
+      affected.add(file);
+    }
+  }
+
+  const scripts = files.filter((file) => SCRIPT_EXTENSIONS.includes(path.posix.extname(file)));
+  if (importCacheRoot !== rootPath) {
+    importCache.clear();
+    importCacheRoot = rootPath;
+  }
+  const importers = buildReverseImportGraph(rootPath, scripts);
+  const queue = changed.filter((file) => SCRIPT_EXTENSIONS.includes(path.posix.extname(file)));
+  const visited = new Set(queue);
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const importer of importers.get(current) ?? []) {
+      if (visited.has(importer)) {
+        continue;
+      }
+      visited.add(importer);
+      if (isTestFile(importer)) {
+        affected.add(importer);
+      }
+      queue.push(importer);
+    }
+  }
+  return Array.from(affected).sort();
+}
+
+/**
+ * Command that runs only the affected tests, or null when the runner is unknown, the command
+ * changes directory first, or nothing would be selected. The files are appended to the option's
+ * own command so the script's flags and config still apply.
+ */
+export function buildTargetedTestCommand(
+  option: ValidationOption,
+  runner: TestRunner | null,
+  changedFiles: string[],
+  tests: string[]
+): string | null {
+  if (!runner || option.command.trim().startsWith('cd ')) {
+    return null;
+  }
+  const quote = (files: string[]) => files.map((file) => JSON.stringify(file)).join(' ');
+  const separator = option.command.startsWith('npm run ') ? ' -- ' : ' ';
+
+  if (runner === 'jest') {
+    const sources = changedFiles.filter((file) => SCRIPT_EXTENSIONS.includes(path.extname(file)));
+    if (sources.length === 0 || sources.length > MAX_TARGETED_FILES) {
+      return null;
+    }
+    // Keep the script's own flags and config; jest walks its module graph from the changed files.
+    return `${option.command}${separator}--findRelatedTests ${quote(sources)} --passWithNoTests`;
+  }
+  const selected = tests.filter((file) => (runner === 'pytest' ? file.endsWith('.py') : !file.endsWith('.py')));
+  if (selected.length === 0 || selected.length > MAX_TARGETED_FILES) {
+    return null;
+  }
+  // Vitest treats the paths as filters; mocha and pytest run exactly the given files.
+  const flags = runner === 'vitest' ? ' --passWithNoTests' : '';
+  return `${option.command}${separator}${quote(selected)}${flags}`;
+}
+
+function buildReverseImportGraph(rootPath: string, scripts: string[]): Map<string, string[]> {
+  const known = new Set(scripts);
+  const importers = new Map<string, string[]>();
+  for (const file of scripts) {
+    for (const specifier of readImports(rootPath, file)) {
+      const target = resolveImport(file, specifier, known);
+      if (!target || target === file) {
+        continue;
+      }
+      const list = importers.get(target) ?? [];
+      list.push(file);
+      importers.set(target, list);
+    }
+  }
+  return importers;
+}
+
+function readImports(rootPath: string, relativePath: string): string[] {
+  const fullPath = path.join(rootPath, relativePath);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(fullPath);
+  } catch {
+    importCache.delete(relativePath);
+    return [];
+  }
+  const cached = importCache.get(relativePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.specifiers;
+  }
+  const specifiers: string[] = [];
+  if (stat.size <= MAX_IMPORT_FILE_BYTES) {
+    const text = fs.readFileSync(fullPath, 'utf8');
+    for (const match of text.matchAll(IMPORT_PATTERN)) {
+      const specifier = match[1] ?? match[2] ?? match[3];
+      // Only relative imports can point at workspace files without resolver configuration.
+      if (specifier && specifier.startsWith('.')) {
+        specifiers.push(specifier);
+      }
+    }
+  }
+  importCache.set(relativePath, { mtimeMs: stat.mtimeMs, size: stat.size, specifiers });
+  return specifiers;
+}
+
+function resolveImport(fromFile: string, specifier: string, known: Set<string>): string | null {
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+  // ESM TypeScript imports name the emitted `.js` file.
+  const withoutJs = base.replace(/\.[cm]?js$/, '');
+  const candidates = [
+    base,
+    ...SCRIPT_EXTENSIONS.map((ext) => `${withoutJs}${ext}`),
+    ...SCRIPT_EXTENSIONS.map((ext) => `${base}/index${ext}`)
+  ];
+  return candidates.find((candidate) => known.has(candidate)) ?? null;
+}
+
+function isTestFile(file: string): boolean {
+  return TEST_FILE_PATTERN.test(file) || PYTHON_TEST_PATTERN.test(file);
+}
+
+function stripExtensions(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
@@ -2,7 +2,7 @@
 import type { ChatMessage } from '../llm/client';
 
 export type TraceEntry = {
-  kind: 'step' | 'prompt' | 'response' | 'payload' | 'validation' | 'diff' | 'info';
+  kind: 'step' | 'prompt' | 'response' | 'payload' | 'validation' | 'diff' | 'table' | 'info';
   title: string;
   content: string;
   sensitive?: boolean;
@@ -22,6 +22,7 @@ const SECRET_PATTERNS: Array<{ regex: RegExp; replacement: string }> = [
 ];
 
 let activeTrace: TraceEntry[] | null = null;
+let traceSink: ((entry: TraceEntry) => void) | null = null;
 
 /** Begin a new trace collection for the current run. */
 export function startTrace(): void {
@@ -35,17 +36,23 @@ export function endTrace(): TraceEntry[] {
   return entries;
 }
 
+/** Also send every entry, redacted but untruncated, to `sink` (null stops). */
+export function setTraceSink(sink: ((entry: TraceEntry) => void) | null): void {
+  traceSink = sink;
+}
+
 /** Record an arbitrary trace entry, applying redaction and truncation. */
 export function recordTrace(entry: TraceEntry): void {
   if (!activeTrace) {
     return;
   }
+  const redacted = redactSecrets(entry.content);
+  const sensitive = entry.sensitive === true || redacted.redacted;
+  traceSink?.({ ...entry, content: redacted.text, sensitive });
   if (activeTrace.length >= MAX_ENTRIES) {
     return;
   }
-  const redacted = redactSecrets(entry.content);
   const content = truncate(redacted.text, MAX_CONTENT_CHARS);
-  const sensitive = entry.sensitive === true || redacted.redacted;
   activeTrace.push({ ...entry, content, sensitive });
 }
 
@@ -59,6 +66,16 @@ export function recordPayload(title: string, content: string): void {
   recordTrace({ kind: 'payload', title, content });
 }
 
+/** Record a unified diff for the peek panel. */
+export function recordDiff(title: string, content: string): void {
+  recordTrace({ kind: 'diff', title, content });
+}
+
+/** Record a small table for the peek panel; the first row is the header. */
+export function recordTable(title: string, rows: string[][]): void {
+  recordTrace({ kind: 'table', title, content: rows.map((row) => row.join('\t')).join('\n') });
+}
+
 /** Record the prompt messages with optional system prompt hiding. */
 export function recordPrompt(title: string, messages: ChatMessage[], hideSystem: boolean = true): void {
   const lines: string[] = [];
@@ -94,7 +111,8 @@ function truncate(value: string, maxChars: number): string {
   return `${value.slice(0, maxChars)}\n... (truncated)`;
 }
 
-function redactSecrets(value: string): { text: string; redacted: boolean } {
+/** Mask API keys and bearer tokens in free text (prompts, payloads, responses). */
+export function redactSecrets(value: string): { text: string; redacted: boolean } {
   let text = value;
   let redacted = false;
   for (const pattern of SECRET_PATTERNS) {
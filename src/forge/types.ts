@@ -24,3 +24,20 @@ export type FileSelectionResult = {
 export type FileSelectionRequester = {
   requestFileSelection: (files: string[], preselected: string[]) => Promise<FileSelectionResult | null>;
 };
+
+/** File diff split into hunks for per-hunk review in the UI. */
+export type HunkReviewFile = {
+  path: string;
+  hunks: Array<{ header: string; lines: string[] }>;
+};
+
+/** Accepted hunk indexes per file from a review prompt. */
+export type HunkReviewResult = {
+  files: Array<{ path: string; accepted: number[] }>;
+  cancelled: boolean;
+};
+
+/** Contract for UI components that can review proposed hunks before apply; aborting `signal` cancels the review. */
+export type HunkReviewRequester = {
+  requestHunkReview: (files: HunkReviewFile[], signal?: AbortSignal) => Promise<HunkReviewResult | null>;
+};
@@ -5,9 +5,11 @@ import * as vscode from 'vscode';
 import { harvestContext } from '../context';
 import type { ChatMessage } from '../llm/client';
 import { callChatCompletion } from '../llm/client';
+import { getRoutedConfig } from '../llm/routing';
 import { getWorkspaceIndex } from '../indexer/workspaceIndex';
 import { buildInlineDiffPreview, getLineChangeSummary } from './diff';
-import { FILE_SELECTION_SCHEMA, FILE_UPDATE_SCHEMA } from './schemas';
+import { FILE_EDIT_SCHEMA, FILE_SELECTION_SCHEMA, FILE_UPDATE_SCHEMA } from './schemas';
+import { applySearchReplaceEdits, formatHunkFailures, type SearchReplaceEdit } from './hunkEdits';
 import { isAbortError, logOutput, logVerbose } from './logging';
 import { mergeChatHistory } from './intent';
 import { listWorkspaceFiles } from './workspaceFiles';
@@ -18,12 +20,14 @@ import type { ChatHistoryItem, FileSelectionRequester, FileUpdate } from './type
 import type { ForgeUiApi } from '../ui/api';
 import { computeAutoSelection, resolveSelectionCandidates, resolveWorkspacePath } from './updateSelection';
 import { runCommand } from '../validation';
+import { commitFileUpdates } from './runSnapshot';
 import { requestStructuredJson } from '../llm/structured';
 
 let lastManualSelection: string[] = [];
 let installApprovedOnce = false;
 const DEFAULT_MAX_FILES_PER_UPDATE = 6;
 const DEFAULT_MAX_UPDATE_CHARS = 60000;
+const DEFAULT_HUNK_EDIT_MIN_LINES = 200;
 const MAX_JSON_RETRIES = 3;
 
 /** Request a full-file update for a single file from the LLM. */
@@ -46,6 +50,45 @@ export async function requestSingleFileUpdate(
     return null;
   }
 
+  if (shouldUseHunkEdits(originalContent)) {
+    panelApi?.setStatus('Requesting LLM...');
+    let hunkResult: { updates: Array<{ path: string; content: string }>; fallback: Array<{ path: string; content: string }> };
+    try {
+      hunkResult = await requestHunkUpdates(
+        instruction,
+        [{ path: relativePath, content: originalContent }],
+        relativePath,
+        extraContext,
+        output,
+        panelApi,
+        history,
+        signal,
+        ''
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        logOutput(output, panelApi, 'LLM request aborted.');
+        return null;
+      }
+      throw error;
+    }
+    const hunkUpdate = hunkResult.updates[0];
+    if (hunkUpdate) {
+      if (hunkUpdate.content === originalContent) {
+        return null;
+      }
+      return {
+        fullPath,
+        relativePath,
+        original: originalContent,
+        updated: hunkUpdate.content
+      };
+    }
+    if (hunkResult.fallback.length === 0) {
+      return null;
+    }
+  }
+
   logVerbose(output, panelApi, 'Requesting updated file from the local LLM...');
   panelApi?.setStatus('Requesting LLM...');
   const messages = mergeChatHistory(
@@ -56,7 +99,7 @@ export async function requestSingleFileUpdate(
 
   let updatedContent: string;
   try {
-    const response = await callChatCompletion({}, messages, signal);
+    const response = await callChatCompletion(getRoutedConfig('edit'), messages, signal);
     updatedContent = extractUpdatedFile(response);
     recordResponse(`Edit response (single): ${relativePath}`, updatedContent);
   } catch (error) {
@@ -337,28 +380,28 @@ export async function requestMultiFileUpdate(
   return result;
 }
 
-/** Write updated file contents to disk and report success/failure. */
+/** Write updated file contents atomically (all or nothing) and report success/failure. */
 export function applyFileUpdates(
   updates: FileUpdate[],
   output: vscode.OutputChannel,
   panelApi?: ForgeUiApi
 ): boolean {
   try {
-    updates.forEach((file) => {
-      fs.mkdirSync(path.dirname(file.fullPath), { recursive: true });
-      fs.writeFileSync(file.fullPath, file.updated, 'utf8');
-    });
+    commitFileUpdates(updates);
     void vscode.window.showInformationMessage(`Forge: Changes applied (${updates.length} files).`);
     return true;
   } catch (error) {
-    logOutput(output, panelApi, `Write error: ${String(error)}`);
-    void vscode.window.showErrorMessage('Forge: Failed to write files.');
+    logOutput(output, panelApi, `Write error: ${String(error)} (no files were changed)`);
+    void vscode.window.showErrorMessage('Forge: Failed to write files. Changes were rolled back.');
     return false;
   }
 }
 
-/** Run an auto-fix loop using validation output as extra context. */
-export async function attemptAutoFix(
+/**
+ * Ask the LLM for fixes using validation output as extra context without writing anything.
+ * Files are read from `rootPath`, so a validation sandbox sees its own edited state.
+ */
+export async function requestAutoFixUpdates(
   rootPath: string,
   instruction: string,
   validationOutput: string,
@@ -366,11 +409,17 @@ export async function attemptAutoFix(
   panelApi?: ForgeUiApi,
   history?: ChatHistoryItem[],
   signal?: AbortSignal,
-  extraFixContext?: string
+  extraFixContext?: string,
+  failingFiles: string[] = []
 ): Promise<FileUpdate[] | null> {
+  // Naming the failing files lets file selection pick them directly instead of asking the model.
+  const targetHint = failingFiles.length > 0
+    ? ` Files with failures: ${failingFiles.join(', ')}. Edit other files only if the fix requires it.`
+    : '';
   const fixInstruction =
     'Fix the validation errors based on the output below. ' +
-    'Only change files necessary to make validation pass.';
+    'Only change files necessary to make validation pass.' +
+    targetHint;
 
   const extraContext = extraFixContext
     ? `${validationOutput}\n\nAdditional fix context:\n${extraFixContext}`
@@ -406,6 +455,38 @@ export async function attemptAutoFix(
     }
   });
 
+  return updates;
+}
+
+/** Run an auto-fix loop using validation output as extra context. */
+export async function attemptAutoFix(
+  rootPath: string,
+  instruction: string,
+  validationOutput: string,
+  output: vscode.OutputChannel,
+  panelApi?: ForgeUiApi,
+  history?: ChatHistoryItem[],
+  signal?: AbortSignal,
+  extraFixContext?: string,
+  failingFiles: string[] = [],
+  beforeApply?: (updates: FileUpdate[]) => void
+): Promise<FileUpdate[] | null> {
+  const updates = await requestAutoFixUpdates(
+    rootPath,
+    instruction,
+    validationOutput,
+    output,
+    panelApi,
+    history,
+    signal,
+    extraFixContext,
+    failingFiles
+  );
+  if (!updates) {
+    return null;
+  }
+
+  beforeApply?.(updates);
   const applied = applyFileUpdates(updates, output, panelApi);
   if (!applied) {
     return null;
@@ -435,8 +516,8 @@ export async function attemptAutoFix(
       recordStep('Dependency install', command);
       logOutput(output, panelApi, `Running install: ${command}`);
       try {
-        const result = await runCommand(command, rootPath, output);
-        recordStep('Dependency install exit code', String(result.code));
+        const result = await runCommand(command, rootPath, output, { signal });
+        recordStep('Dependency install exit code', result.cancelled ? 'cancelled' : String(result.code));
         recordPayload('Dependency install output', result.output || '(no output)');
       } catch (error) {
         recordStep('Dependency install error', String(error));
@@ -1573,6 +1654,42 @@ function buildMultiFileUpdateMessages(
   ];
 }
 
+/** Build the prompt for search/replace hunk edits. */
+function buildHunkEditMessages(
+  instruction: string,
+  files: Array<{ path: string; content: string }>,
+  activeRelativePath: string | null,
+  extraContext?: string
+): ChatMessage[] {
+  const activeNote = activeRelativePath ? `Active file: ${activeRelativePath}\n` : '';
+  const contextNote = extraContext ? `\nValidation output:\n${extraContext}\n` : '';
+  const fileBlocks = files
+    .map((file) => `=== ${file.path} ===\n${file.content}\n=== end ${file.path} ===`)
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are a coding assistant. Update the given files to satisfy the instruction using search/replace edits. ' +
+        'Return ONLY valid JSON in the format {"files":[{"path":"...","edits":[{"search":"...","replace":"..."}]}]}. ' +
+        'Each "search" must be copied verbatim from the current file and include enough surrounding lines to be unique. ' +
+        'Each "replace" is the exact text that replaces it. Keep edits small and do not return full files. ' +
+        'Edits are applied in order. Omit files that need no changes. Do not include code fences or explanations.'
+    },
+    {
+      role: 'user',
+      content:
+        `Instruction: ${instruction}\n` +
+        activeNote +
+        contextNote +
+        'Files:\n' +
+        fileBlocks +
+        '\nReturn JSON only.'
+    }
+  ];
+}
+
 /** Ask the UI (panel or view) to choose files before invoking the LLM. */
 async function requestUserFileSelection(
   filesList: string[],
@@ -1709,7 +1826,7 @@ function suggestFilesForInstruction(
   return Array.from(suggestions).slice(0, 12);
 }
 
-type JsonRetryMode = 'selection' | 'update';
+type JsonRetryMode = 'selection' | 'update' | 'edit';
 
 /** Request a JSON payload with multiple retry passes and increasingly strict prompts. */
 async function requestJsonPayloadWithRetries(
@@ -1723,7 +1840,8 @@ async function requestJsonPayloadWithRetries(
 ): Promise<{ files?: unknown }> {
   let lastError: unknown;
   const labelBase = traceLabel ?? (mode === 'selection' ? 'File selection' : 'Update');
-  const schema = mode === 'selection' ? FILE_SELECTION_SCHEMA : FILE_UPDATE_SCHEMA;
+  const schema =
+    mode === 'selection' ? FILE_SELECTION_SCHEMA : mode === 'edit' ? FILE_EDIT_SCHEMA : FILE_UPDATE_SCHEMA;
 
   for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
     const attemptMessages = buildJsonRetryMessages(messages, attempt, mode);
@@ -1733,7 +1851,7 @@ async function requestJsonPayloadWithRetries(
       const payload = await requestStructuredJson<{ files?: unknown }>(
         attemptMessages,
         schema,
-        { signal, maxRetries: 0 }
+        { signal, maxRetries: 0, config: getRoutedConfig(mode === 'selection' ? 'plan' : 'edit') }
       );
       recordResponse(`${labelBase} response (${attemptLabel})`, JSON.stringify(payload));
       return payload;
@@ -1765,7 +1883,36 @@ async function requestUpdatesInChunks(
   signal: AbortSignal | undefined
 ): Promise<Array<{ path: string; content: string }>> {
   const { maxFiles, maxChars } = getUpdateChunkLimits();
-  const chunks = chunkFilePayloads(filePayloads, maxFiles, maxChars);
+  const updates: Array<{ path: string; content: string }> = [];
+  const hunkFiles = filePayloads.filter((file) => shouldUseHunkEdits(file.content));
+  let fullFiles = filePayloads.filter((file) => !hunkFiles.includes(file));
+
+  if (hunkFiles.length > 0) {
+    recordStep('Edit format', `hunks: ${hunkFiles.map((file) => file.path).join(', ')}`);
+    const hunkChunks = chunkFilePayloads(hunkFiles, maxFiles, maxChars);
+    for (let index = 0; index < hunkChunks.length; index += 1) {
+      const label = hunkChunks.length > 1 ? ` (${index + 1}/${hunkChunks.length})` : '';
+      panelApi?.setStatus(`Requesting LLM${label}...`);
+      const hunkResult = await requestHunkUpdates(
+        instruction,
+        hunkChunks[index],
+        activeRelativePath,
+        extraContext,
+        output,
+        panelApi,
+        history,
+        signal,
+        label
+      );
+      updates.push(...hunkResult.updates);
+      fullFiles = fullFiles.concat(hunkResult.fallback);
+    }
+    if (fullFiles.length === 0) {
+      return updates;
+    }
+  }
+
+  const chunks = chunkFilePayloads(fullFiles, maxFiles, maxChars);
   if (chunks.length > 1) {
     logVerbose(output, panelApi, `Chunking update into ${chunks.length} batches.`);
     recordStep('Update chunking', `Split into ${chunks.length} batches (max ${maxFiles} files / ${maxChars} chars).`);
@@ -1773,7 +1920,6 @@ async function requestUpdatesInChunks(
     recordStep('Update chunking', `Single batch (max ${maxFiles} files / ${maxChars} chars).`);
   }
 
-  const updates: Array<{ path: string; content: string }> = [];
   for (let index = 0; index < chunks.length; index += 1) {
     const chunk = chunks[index];
     const label = chunks.length > 1 ? ` (${index + 1}/${chunks.length})` : '';
@@ -1806,6 +1952,96 @@ async function requestUpdatesInChunks(
   return updates;
 }
 
+/** Request search/replace hunks for a batch and apply them locally; failed files fall back to full mode. */
+async function requestHunkUpdates(
+  instruction: string,
+  files: Array<{ path: string; content: string }>,
+  activeRelativePath: string | null,
+  extraContext: string | undefined,
+  output: vscode.OutputChannel,
+  panelApi: ForgeUiApi | undefined,
+  history: ChatHistoryItem[] | undefined,
+  signal: AbortSignal | undefined,
+  label: string
+): Promise<{ updates: Array<{ path: string; content: string }>; fallback: Array<{ path: string; content: string }> }> {
+  const messages = mergeChatHistory(
+    history,
+    buildHunkEditMessages(instruction, files, activeRelativePath, extraContext)
+  );
+
+  let payload: { files?: unknown };
+  try {
+    payload = await requestJsonPayloadWithRetries(
+      messages,
+      output,
+      panelApi,
+      signal,
+      'edit',
+      `Hunk edit${label}`
+    );
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    recordStep('Hunk edit fallback', `${String(error)}\nFalling back to full-file updates.`);
+    logVerbose(output, panelApi, 'Hunk edit request failed; falling back to full-file updates.');
+    return { updates: [], fallback: files };
+  }
+  recordPayload(`Hunk edit JSON${label}`, JSON.stringify(payload, null, 2));
+
+  const editMap = new Map<string, SearchReplaceEdit[]>();
+  const entries = Array.isArray(payload.files) ? payload.files : [];
+  for (const item of entries as Array<{ path?: unknown; edits?: unknown }>) {
+    if (!item || typeof item.path !== 'string' || !Array.isArray(item.edits)) {
+      continue;
+    }
+    const edits = (item.edits as Array<{ search?: unknown; replace?: unknown }>)
+      .filter((edit) => edit && typeof edit.search === 'string' && typeof edit.replace === 'string')
+      .map((edit) => ({ search: edit.search as string, replace: edit.replace as string }));
+    const key = normalizePathForMatch(item.path);
+    editMap.set(key, [...(editMap.get(key) ?? []), ...edits]);
+  }
+
+  const updates: Array<{ path: string; content: string }> = [];
+  const fallback: Array<{ path: string; content: string }> = [];
+  for (const file of files) {
+    const edits = editMap.get(normalizePathForMatch(file.path));
+    if (!edits || edits.length === 0) {
+      continue;
+    }
+    const result = applySearchReplaceEdits(file.content, edits);
+    if (result.failures.length > 0) {
+      const report = formatHunkFailures(file.path, result.failures);
+      recordStep('Hunk edit failures', report);
+      logOutput(output, panelApi, `Hunk edits did not apply cleanly to ${file.path}; retrying with full-file mode.`);
+      logVerbose(output, panelApi, report);
+      fallback.push(file);
+      continue;
+    }
+    const matchNotes = result.applied.map((item) => {
+      const score = item.score !== undefined ? ` ${item.score}` : '';
+      return `#${item.index + 1} line ${item.line} (${item.match}${score})`;
+    });
+    recordStep(`Hunk edits applied: ${file.path}`, matchNotes.join('\n'));
+    updates.push({ path: file.path, content: result.updated });
+  }
+
+  return { updates, fallback };
+}
+
+/** Decide whether a file should be edited with search/replace hunks instead of a full rewrite. */
+function shouldUseHunkEdits(content: string): boolean {
+  const format = getForgeSetting<string>('editFormat') ?? 'auto';
+  if (format === 'full' || content.length === 0) {
+    return false;
+  }
+  if (format === 'hunks') {
+    return true;
+  }
+  const minLines = Math.max(1, getForgeSetting<number>('hunkEditMinLines') ?? DEFAULT_HUNK_EDIT_MIN_LINES);
+  return content.split(/\r?\n/).length >= minLines;
+}
+
 /** Compute chunking limits for multi-file update requests. */
 function getUpdateChunkLimits(): { maxFiles: number; maxChars: number } {
   const configuredMaxFiles = getForgeSetting<number>('maxFilesPerUpdate');
@@ -1875,9 +2111,13 @@ function buildJsonRetryMessages(
 }
 
 function getSchemaHint(mode: JsonRetryMode): string {
-  return mode === 'selection'
-    ? '{"files":["path1","path2"]}'
-    : '{"files":[{"path":"...","content":"..."}]}';
+  if (mode === 'selection') {
+    return '{"files":["path1","path2"]}';
+  }
+  if (mode === 'edit') {
+    return '{"files":[{"path":"...","edits":[{"search":"...","replace":"..."}]}]}';
+  }
+  return '{"files":[{"path":"...","content":"..."}]}';
 }
 
 /** Wrap an existing prompt with a strict JSON-only system instruction. */
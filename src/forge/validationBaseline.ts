@@ -0,0 +1,189 @@
+/** Validation baselines: pre-edit diagnostics cached by git state, used to blame only new failures. */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDirtyFiles, getHeadCommit, isGitRepo } from '../git';
+import { formatDiagnostic, type ValidationDiagnostic } from '../validation/diagnostics';
+import type { ValidationResult } from './validationFlow';
+
+export type ValidationBaseline = {
+  /** HEAD + dirty-file hashes + commands; null outside git, where baselines are never reused. */
+  key: string | null;
+  capturedAt: string;
+  commands: string[];
+  failedCommands: string[];
+  diagnostics: ValidationDiagnostic[];
+};
+
+export type ValidationComparison = {
+  introduced: ValidationDiagnostic[];
+  fixed: ValidationDiagnostic[];
+  preExisting: ValidationDiagnostic[];
+};
+
+/** A comparison flattened to display strings, for prompts, summaries and memory. */
+export type ValidationProblems = {
+  introduced: string[];
+  fixed: string[];
+  preExisting: string[];
+};
+
+const TEST_RUNNER_SOURCES = new Set<ValidationDiagnostic['source']>(['jest', 'vitest', 'mocha']);
+
+const baselineCache = new Map<string, ValidationBaseline>();
+
+/** Cache key for the current workspace state and command set; null when the folder is not a git repo. */
+export async function computeBaselineKey(rootPath: string, commands: string[]): Promise<string | null> {
+  if (!(await isGitRepo(rootPath))) {
+    return null;
+  }
+  const hash = crypto.createHash('sha1');
+  hash.update(`head:${(await getHeadCommit(rootPath)) ?? 'none'}\n`);
+  hash.update(`commands:${commands.join('\n')}\n`);
+  // Forge's own state (memory, indexes, this baseline) must not invalidate the key.
+  const dirty = (await getDirtyFiles(rootPath)).filter((file) => !file.startsWith('.forge/')).sort();
+  for (const file of dirty) {
+    hash.update(`file:${file}\n`);
+    try {
+      hash.update(fs.readFileSync(path.join(rootPath, file)));
+    } catch {
+      hash.update('(deleted)');
+    }
+  }
+  return hash.digest('hex');
+}
+
+/** Look up a stored baseline for this key (memory first, then `.forge/validation-baseline.json`). */
+export function loadValidationBaseline(rootPath: string, key: string | null): ValidationBaseline | null {
+  if (!key) {
+    return null;
+  }
+  const cached = baselineCache.get(rootPath);
+  if (cached?.key === key) {
+    return cached;
+  }
+  try {
+    const stored = JSON.parse(fs.readFileSync(getBaselinePath(rootPath), 'utf8')) as ValidationBaseline;
+    if (stored && stored.key === key && Array.isArray(stored.diagnostics)) {
+      baselineCache.set(rootPath, stored);
+      return stored;
+    }
+  } catch {
+    // No usable baseline on disk.
+  }
+  return null;
+}
+
+/** Remember a baseline in memory and on disk (only keyed baselines are persisted). */
+export function saveValidationBaseline(rootPath: string, baseline: ValidationBaseline): void {
+  baselineCache.set(rootPath, baseline);
+  if (!baseline.key) {
+    return;
+  }
+  try {
+    const filePath = getBaselinePath(rootPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2), 'utf8');
+  } catch {
+    // Baselines are an optimisation; a write failure only costs a re-run next time.
+  }
+}
+
+/**
+ * Match post-edit diagnostics against the baseline. Lines are ignored when matching because
+ * edits shift them; each baseline entry can absorb one post-edit entry with the same identity.
+ */
+export function compareWithBaseline(
+  baseline: ValidationDiagnostic[],
+  current: ValidationDiagnostic[]
+): ValidationComparison {
+  const remaining = new Map<string, ValidationDiagnostic[]>();
+  baseline.forEach((item) => {
+    const key = diagnosticIdentity(item);
+    remaining.set(key, [...(remaining.get(key) ?? []), item]);
+  });
+
+  const introduced: ValidationDiagnostic[] = [];
+  const preExisting: ValidationDiagnostic[] = [];
+  current.forEach((item) => {
+    const matches = remaining.get(diagnosticIdentity(item));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      preExisting.push(item);
+    } else {
+      introduced.push(item);
+    }
+  });
+  const fixed = Array.from(remaining.values()).flat();
+  return { introduced, fixed, preExisting };
+}
+
+/**
+ * Re-judge a validation result against the baseline: a failing command only counts when it
+ * introduced new errors or passed before the edit. Kept failures carry only the new diagnostics.
+ */
+export function applyValidationBaseline(result: ValidationResult, baseline: ValidationBaseline): ValidationResult {
+  const compared = compareWithBaseline(baseline.diagnostics, result.diagnostics ?? []);
+  // Tests a targeted run skipped were not observed, so their baseline failures are not "fixed".
+  const partialTests = (result.testSelections ?? []).some((item) => item.targetedCommand !== null && !item.escalated);
+  const comparison = partialTests
+    ? { ...compared, fixed: compared.fixed.filter((item) => !TEST_RUNNER_SOURCES.has(item.source)) }
+    : compared;
+  const introducedSet = new Set(comparison.introduced);
+
+  const failures = (result.failures ?? []).flatMap((failure) => {
+    const introduced = (failure.diagnostics ?? []).filter((item) => introducedSet.has(item));
+    const introducedErrors = introduced.filter((item) => item.severity === 'error');
+    const failedBefore = baseline.failedCommands.includes(failure.fullCommand ?? failure.command);
+    if (introducedErrors.length === 0 && failedBefore) {
+      return [];
+    }
+    return [{ ...failure, diagnostics: introduced }];
+  });
+
+  return {
+    ...result,
+    ok: result.ok || failures.length === 0,
+    failures,
+    comparison
+  };
+}
+
+/** `N introduced, N fixed, N pre-existing` plus the introduced and fixed entries. */
+export function formatValidationComparison(comparison: ValidationComparison, maxItems = 10): string {
+  const lines = [
+    `${comparison.introduced.length} introduced, ${comparison.fixed.length} fixed, ` +
+      `${comparison.preExisting.length} pre-existing`
+  ];
+  const section = (title: string, items: ValidationDiagnostic[]) => {
+    if (items.length === 0) {
+      return;
+    }
+    lines.push(`${title}:`);
+    items.slice(0, maxItems).forEach((item) => lines.push(`- ${formatDiagnostic(item)}`));
+    if (items.length > maxItems) {
+      lines.push(`- ... (${items.length - maxItems} more)`);
+    }
+  };
+  section('Introduced', comparison.introduced);
+  section('Fixed', comparison.fixed);
+  return lines.join('\n');
+}
+
+/** Flatten a comparison to formatted diagnostics, keeping at most `maxItems` per group. */
+export function listValidationProblems(comparison: ValidationComparison, maxItems = 20): ValidationProblems {
+  const format = (items: ValidationDiagnostic[]) => items.slice(0, maxItems).map((item) => formatDiagnostic(item));
+  return {
+    introduced: format(comparison.introduced),
+    fixed: format(comparison.fixed),
+    preExisting: format(comparison.preExisting)
+  };
+}
+
+function diagnosticIdentity(item: ValidationDiagnostic): string {
+  return [item.file, item.source, item.code ?? '', item.severity, item.message.replace(/\s+/g, ' ').trim()].join('|');
+}
+
+function getBaselinePath(rootPath: string): string {
+  return path.join(rootPath, '.forge', 'validation-baseline.json');
+}
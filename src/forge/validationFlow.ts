@@ -1,9 +1,46 @@
 /** Validation flow orchestration and auto-fix support. */
 import * as vscode from 'vscode';
 import { harvestContext } from '../context';
-import { buildValidationOptions, runCommand, type ValidationOption } from '../validation';
+import {
+  DEFAULT_MAX_OUTPUT_CHARS,
+  runCommand,
+  type CommandResult,
+  type ValidationOption
+} from '../validation';
+import { discoverValidationOptions } from '../validation/providers';
+import {
+  buildTargetedTestCommand,
+  detectTestRunner,
+  findAffectedTests,
+  type TestSelection,
+  type TestSelectionMode
+} from './testSelection';
+import {
+  formatDiagnostic,
+  formatDiagnosticsForPrompt,
+  listDiagnosticFiles,
+  parseValidationOutput,
+  type ValidationDiagnostic
+} from '../validation/diagnostics';
+import { publishValidationDiagnostics } from '../validation/problems';
+import {
+  applyValidationBaseline,
+  computeBaselineKey,
+  formatValidationComparison,
+  loadValidationBaseline,
+  saveValidationBaseline,
+  type ValidationBaseline,
+  type ValidationComparison
+} from './validationBaseline';
 import { logOutput } from './logging';
-import { attemptAutoFix } from './updates';
+import { attemptAutoFix, requestAutoFixUpdates } from './updates';
+import {
+  collectSandboxUpdates,
+  createValidationSandbox,
+  disposeValidationSandbox,
+  writeSandboxUpdates,
+  type ValidationSandbox
+} from './validationSandbox';
 import { getForgeSetting } from './settings';
 import { recordPayload, recordStep } from './trace';
 import { verifyChanges } from './verification';
@@ -18,19 +55,144 @@ export type ValidationResult = {
   output: string;
   command: string | null;
   label: string | null;
-  failures?: Array<{ label: string; command: string; output: string }>;
+  diagnostics?: ValidationDiagnostic[];
+  failures?: ValidationFailure[];
+  comparison?: ValidationComparison;
+  /** At least one command was killed by the validation timeout. */
+  timedOut?: boolean;
+  /** The run was stopped; remaining commands were skipped. */
+  cancelled?: boolean;
+  testSelections?: TestSelection[];
 };
 
-/** Optionally run a validation command based on settings and package scripts. */
+type ValidationFailure = {
+  label: string;
+  command: string;
+  /** The option's own command when a targeted variant was what failed. */
+  fullCommand?: string;
+  output: string;
+  diagnostics?: ValidationDiagnostic[];
+  timedOut?: boolean;
+};
+
+export type ValidationRunOptions = {
+  baseline?: ValidationBaseline | null;
+  /** Run the commands here (a validation sandbox); diagnostics are still reported against rootPath. */
+  runIn?: string;
+  signal?: AbortSignal;
+  /** Files this run changed (relative); enables targeted test selection. */
+  changedFiles?: string[];
+};
+
+type CommandRunContext = {
+  cwd: string;
+  signal?: AbortSignal;
+  changedFiles?: string[];
+};
+
+const DEFAULT_VALIDATION_TIMEOUT_SECONDS = 600;
+
+/**
+ * Optionally run a validation command based on settings and package scripts. With a baseline,
+ * failures that already existed before the edit no longer make the result fail.
+ */
 export async function maybeRunValidation(
   rootPath: string,
   output: vscode.OutputChannel,
-  instruction?: string
+  instruction?: string,
+  options: ValidationRunOptions = {}
 ): Promise<ValidationResult> {
-  const autoValidation = getForgeSetting<boolean>('autoValidation') !== false;
+  const { baseline } = options;
+  const result = await runSelectedValidation(rootPath, output, instruction, {
+    cwd: options.runIn ?? rootPath,
+    signal: options.signal,
+    changedFiles: options.changedFiles
+  });
+  if (!baseline || result.command === null || result.cancelled) {
+    return result;
+  }
+  const judged = applyValidationBaseline(result, baseline);
+  if (judged.comparison) {
+    recordStep('Validation vs baseline', formatValidationComparison(judged.comparison));
+  }
+  return judged;
+}
+
+/**
+ * Run the automatic validation commands before edits are applied and remember the diagnostics,
+ * reusing a stored baseline when HEAD, dirty files and commands are unchanged.
+ */
+export async function captureValidationBaseline(
+  rootPath: string,
+  output: vscode.OutputChannel,
+  instruction?: string,
+  signal?: AbortSignal
+): Promise<ValidationBaseline | null> {
+  if (getForgeSetting<boolean>('validationBaseline') === false) {
+    return null;
+  }
+  const plan = planAutomaticValidation(instruction ?? '');
+  if (!plan) {
+    return null;
+  }
+  const ordered = orderValidationOptions(plan.options);
+  const commands = ordered.map((option) => `${option.label}: ${option.command}`);
+  let key: string | null = null;
+  try {
+    key = await computeBaselineKey(rootPath, commands);
+  } catch {
+    key = null;
+  }
+  const cached = loadValidationBaseline(rootPath, key);
+  if (cached) {
+    recordStep('Validation baseline', `cached from ${cached.capturedAt} (${cached.diagnostics.length} diagnostics)`);
+    return cached;
+  }
+
+  recordStep('Validation baseline', `capturing: ${commands.join(', ')}`);
+  const result = await runAllValidationOptions(rootPath, output, ordered, { cwd: rootPath, signal });
+  if (result.cancelled) {
+    return null;
+  }
+  const baseline: ValidationBaseline = {
+    key,
+    capturedAt: new Date().toISOString(),
+    commands,
+    failedCommands: (result.failures ?? []).map((failure) => failure.command),
+    diagnostics: result.diagnostics ?? []
+  };
+  saveValidationBaseline(rootPath, baseline);
+  recordStep(
+    'Validation baseline',
+    `${baseline.diagnostics.length} diagnostics, failing: ${baseline.failedCommands.join(', ') || 'none'}`
+  );
+  return baseline;
+}
+
+/** Commands automatic validation would run for an instruction; null when validation is manual or unavailable. */
+function planAutomaticValidation(instruction: string): { options: ValidationOption[]; reason: string } | null {
+  if (getForgeSetting<boolean>('autoValidation') === false) {
+    return null;
+  }
+  const options = discoverValidationOptions(harvestContext());
+  if (options.length === 0) {
+    return null;
+  }
   const autoMode = getForgeSetting<string>('autoValidationMode') ?? 'smart';
-  const contextObject = harvestContext();
-  const options = buildValidationOptions(contextObject.packageJson, contextObject.packageManager);
+  if (autoMode === 'all') {
+    return { options, reason: 'auto: all' };
+  }
+  return selectValidationOptions(options, instruction);
+}
+
+async function runSelectedValidation(
+  rootPath: string,
+  output: vscode.OutputChannel,
+  instruction: string | undefined,
+  run: CommandRunContext
+): Promise<ValidationResult> {
+  const autoValidation = getForgeSetting<boolean>('autoValidation') !== false;
+  const options = discoverValidationOptions(harvestContext());
 
   if (options.length === 0) {
     return { ok: true, output: '', command: null, label: null };
@@ -38,30 +200,31 @@ export async function maybeRunValidation(
 
   let selected: ValidationOption | null = null;
   if (autoValidation) {
-    if (autoMode === 'all') {
-      recordStep('Validation selection', 'auto: all');
-      return runAllValidationOptions(rootPath, output, options);
+    const plan = planAutomaticValidation(instruction ?? '');
+    if (!plan) {
+      return { ok: true, output: '', command: null, label: null };
     }
-    const selection = selectValidationOptions(options, instruction ?? '');
-    recordStep('Validation selection', selection.reason);
-    return runAllValidationOptions(rootPath, output, selection.options);
+    recordStep('Validation selection', plan.reason);
+    return runAllValidationOptions(rootPath, output, plan.options, run);
   } else {
-    const items = options.map((option) => ({
+    const items: Array<vscode.QuickPickItem & { option: ValidationOption | null }> = options.map((option) => ({
       label: option.label,
-      description: option.command
+      description: option.command,
+      option
     }));
 
-    items.push({ label: 'Skip validation', description: '' });
+    items.push({ label: 'Skip validation', description: '', option: null });
 
     const pick = await vscode.window.showQuickPick(items, {
       placeHolder: 'Select a validation command to run'
     });
 
-    if (!pick || pick.label === 'Skip validation') {
+    if (!pick || !pick.option) {
       return { ok: true, output: '', command: null, label: null };
     }
 
-    selected = options.find((option) => option.label === pick.label) ?? null;
+    // Several providers can share a label (npm and pytest both offer `test`), so keep the picked item's option.
+    selected = pick.option;
   }
 
   if (!selected) {
@@ -71,14 +234,33 @@ export async function maybeRunValidation(
   output.appendLine(`Running validation: ${selected.label}`);
   recordStep('Validation command', `${selected.label}: ${selected.command}`);
   try {
-    const result = await runCommand(selected.command, rootPath, output);
-    recordStep('Validation exit code', `${selected.label}: ${result.code}`);
-    recordPayload(`Validation output: ${selected.label}`, result.output || '(no output)');
+    const { result, command, selection } = await runValidationOption(selected, output, run);
+    if (result.cancelled) {
+      return { ok: false, output: result.output, command: selected.command, label: selected.label, cancelled: true };
+    }
+    const diagnostics = collectDiagnostics(result.output, run.cwd, selected);
+    publishValidationDiagnostics(rootPath, diagnostics);
     return {
       ok: result.code === 0,
       output: result.output,
-      command: selected.command,
-      label: selected.label
+      command,
+      label: selected.label,
+      diagnostics,
+      failures:
+        result.code === 0
+          ? []
+          : [
+              {
+                label: selected.label,
+                command,
+                fullCommand: command !== selected.command ? selected.command : undefined,
+                output: result.output,
+                diagnostics,
+                timedOut: result.timedOut
+              }
+            ],
+      timedOut: result.timedOut,
+      testSelections: selection ? [selection] : []
     };
   } catch (error) {
     output.appendLine(`Validation error: ${String(error)}`);
@@ -91,24 +273,49 @@ export async function maybeRunValidation(
 async function runAllValidationOptions(
   rootPath: string,
   output: vscode.OutputChannel,
-  options: ValidationOption[]
+  options: ValidationOption[],
+  run: CommandRunContext
 ): Promise<ValidationResult> {
   const ordered = orderValidationOptions(options);
   let combinedOutput = '';
   let ok = true;
-  const failures: Array<{ label: string; command: string; output: string }> = [];
+  let timedOut = false;
+  const failures: ValidationFailure[] = [];
+  const diagnostics: ValidationDiagnostic[] = [];
+  const testSelections: TestSelection[] = [];
 
   for (const option of ordered) {
     output.appendLine(`Running validation: ${option.label}`);
     recordStep('Validation command', `${option.label}: ${option.command}`);
     try {
-      const result = await runCommand(option.command, rootPath, output);
-      recordStep('Validation exit code', `${option.label}: ${result.code}`);
-      recordPayload(`Validation output: ${option.label}`, result.output || '(no output)');
+      const { result, command, selection } = await runValidationOption(option, output, run);
       combinedOutput += result.output;
+      if (selection) {
+        testSelections.push(selection);
+      }
+      if (result.cancelled) {
+        // Diagnostics from a partial run would be misleading; leave the Problems panel as it was.
+        return {
+          ok: false,
+          output: combinedOutput,
+          command: ordered.map((item) => item.command).join(' && '),
+          label: ordered.map((item) => item.label).join(', '),
+          cancelled: true
+        };
+      }
+      const optionDiagnostics = collectDiagnostics(result.output, run.cwd, option);
+      diagnostics.push(...optionDiagnostics);
+      timedOut = timedOut || result.timedOut;
       if (result.code !== 0) {
         ok = false;
-        failures.push({ label: option.label, command: option.command, output: result.output });
+        failures.push({
+          label: option.label,
+          command,
+          fullCommand: command !== option.command ? option.command : undefined,
+          output: result.output,
+          diagnostics: optionDiagnostics,
+          timedOut: result.timedOut
+        });
       }
     } catch (error) {
       output.appendLine(`Validation error: ${String(error)}`);
@@ -119,13 +326,196 @@ async function runAllValidationOptions(
     }
   }
 
+  publishValidationDiagnostics(rootPath, diagnostics);
   return {
     ok,
     output: combinedOutput,
     command: ordered.map((item) => item.command).join(' && '),
     label: ordered.map((item) => item.label).join(', '),
-    failures
+    diagnostics,
+    failures,
+    timedOut,
+    testSelections
+  };
+}
+
+/**
+ * Run one option, narrowing `test` commands to the tests affected by the changed files when
+ * `forge.testSelection` allows it, and escalating to the full suite after a passing targeted run
+ * in `targetedThenFull` mode.
+ */
+async function runValidationOption(
+  option: ValidationOption,
+  output: vscode.OutputChannel,
+  run: CommandRunContext
+): Promise<{ result: CommandResult; command: string; selection: TestSelection | null }> {
+  const mode = getForgeSetting<TestSelectionMode>('testSelection') ?? 'targetedThenFull';
+  const changedFiles = run.changedFiles ?? [];
+  if (option.label !== 'test' || mode === 'full' || changedFiles.length === 0) {
+    return { result: await runValidationCommand(option, run.cwd, output, run.signal), command: option.command, selection: null };
+  }
+
+  const contextObject = harvestContext();
+  const runner = detectTestRunner(option, contextObject.packageJson);
+  const tests = findAffectedTests(run.cwd, changedFiles);
+  const targetedCommand = buildTargetedTestCommand(option, runner, changedFiles, tests);
+  const selection: TestSelection = {
+    label: option.label,
+    runner,
+    changedFiles,
+    tests,
+    targetedCommand,
+    fullCommand: option.command,
+    escalated: false
   };
+  recordStep('Test selection', formatTestSelection(selection, mode));
+  if (!targetedCommand) {
+    return { result: await runValidationCommand(option, run.cwd, output, run.signal), command: option.command, selection };
+  }
+
+  output.appendLine(`Running affected tests (${runner}): ${tests.length} found by import graph and naming`);
+  const targeted = await runValidationCommand({ label: option.label, command: targetedCommand }, run.cwd, output, run.signal);
+  if (targeted.cancelled || targeted.code !== 0 || mode !== 'targetedThenFull') {
+    return { result: targeted, command: targetedCommand, selection };
+  }
+
+  recordStep('Test selection', `${option.label}: affected tests passed, running the full suite`);
+  selection.escalated = true;
+  return { result: await runValidationCommand(option, run.cwd, output, run.signal), command: option.command, selection };
+}
+
+function formatTestSelection(selection: TestSelection, mode: TestSelectionMode): string {
+  const lines = [
+    `Mode: ${mode}`,
+    `Runner: ${selection.runner ?? 'unknown'}`,
+    `Changed: ${selection.changedFiles.join(', ')}`,
+    `Affected tests (${selection.tests.length}):`,
+    ...selection.tests.slice(0, 50).map((file) => `- ${file}`),
+    selection.tests.length > 50 ? `- ... (${selection.tests.length - 50} more)` : null,
+    selection.targetedCommand ? `Targeted: ${selection.targetedCommand}` : `Targeted: none, running ${selection.fullCommand}`
+  ];
+  return lines.filter((line): line is string => line !== null).join('\n');
+}
+
+/** Run one validation command with the configured timeout and output cap, tracing the result. */
+async function runValidationCommand(
+  option: ValidationOption,
+  cwd: string,
+  output: vscode.OutputChannel,
+  signal?: AbortSignal
+): Promise<CommandResult> {
+  const timeoutSeconds = getForgeSetting<number>('validationTimeoutSeconds') ?? DEFAULT_VALIDATION_TIMEOUT_SECONDS;
+  const result = await runCommand(option.command, cwd, output, {
+    signal,
+    timeoutMs: Math.max(0, timeoutSeconds) * 1000,
+    maxOutputChars: getForgeSetting<number>('commandOutputMaxChars') ?? DEFAULT_MAX_OUTPUT_CHARS
+  });
+  const status = result.cancelled ? 'cancelled' : result.timedOut ? `timed out after ${timeoutSeconds}s` : String(result.code);
+  recordStep('Validation exit code', `${option.label}: ${status}`);
+  recordPayload(`Validation output: ${option.label}`, result.output || '(no output)');
+  if (result.timedOut) {
+    // Tell the fix prompt why the command stopped; a hang looks like a clean exit otherwise.
+    return { ...result, output: `${result.output}\n[${option.label} timed out after ${timeoutSeconds}s]` };
+  }
+  return result;
+}
+
+export type SandboxValidationResult = {
+  validation: ValidationResult;
+  /** Proposed edits plus sandbox fixes, mapped back to workspace paths. */
+  updates: FileUpdate[];
+  fixAttempts: number;
+};
+
+/**
+ * Validate proposed updates in a sandbox (git worktree or scratch copy) and run the auto-fix
+ * loop there, so the workspace is only written once the result is final. Returns null when no
+ * sandbox could be created; the caller then validates after applying as usual.
+ */
+export async function validateBeforeApply(
+  rootPath: string,
+  updates: FileUpdate[],
+  instruction: string,
+  output: vscode.OutputChannel,
+  options: {
+    panelApi?: ForgeUiApi;
+    history?: ChatHistoryItem[];
+    signal?: AbortSignal;
+    baseline?: ValidationBaseline | null;
+    extraFixContext?: string | null;
+  } = {}
+): Promise<SandboxValidationResult | null> {
+  const { panelApi, history, signal } = options;
+  let sandbox: ValidationSandbox;
+  try {
+    sandbox = await createValidationSandbox(rootPath);
+  } catch (error) {
+    logOutput(output, panelApi, `Validation sandbox unavailable: ${String(error)}`);
+    recordStep('Validation sandbox', `unavailable: ${String(error)}`);
+    return null;
+  }
+  recordStep('Validation sandbox', `${sandbox.kind}: ${sandbox.sandboxPath}`);
+
+  try {
+    writeSandboxUpdates(sandbox, updates);
+    const autoFixValidation = getForgeSetting<boolean>('autoFixValidation') === true;
+    const maxFixRetries = Math.max(0, getForgeSetting<number>('autoFixMaxRetries') ?? 0);
+    let fixAttempts = 0;
+
+    logOutput(output, panelApi, 'Running validation in sandbox...');
+    const runOptions = (): ValidationRunOptions => ({
+      baseline: options.baseline,
+      runIn: sandbox.sandboxPath,
+      signal,
+      changedFiles: Array.from(sandbox.touched)
+    });
+    let validation = await maybeRunValidation(rootPath, output, instruction, runOptions());
+    while (!validation.ok && !validation.cancelled && autoFixValidation && fixAttempts < maxFixRetries) {
+      fixAttempts += 1;
+      logOutput(output, panelApi, `Auto-fix attempt ${fixAttempts} of ${maxFixRetries} (sandbox)...`);
+      panelApi?.setStatus(`Auto-fix ${fixAttempts}/${maxFixRetries}`);
+      recordStep('Auto-fix attempt', `${fixAttempts} of ${maxFixRetries} (sandbox)`);
+      const extraContext = [buildValidationFailureContext(validation), options.extraFixContext]
+        .filter(Boolean)
+        .join('\n\n') || undefined;
+      // Excerpts and file reads come from the sandbox, which holds the edited state.
+      const failureDetail = describeValidationFailures(validation, sandbox.sandboxPath);
+      const fixed = await requestAutoFixUpdates(
+        sandbox.sandboxPath,
+        instruction,
+        failureDetail.text,
+        output,
+        panelApi,
+        history,
+        signal,
+        extraContext,
+        failureDetail.files
+      );
+      if (!fixed) {
+        break;
+      }
+      writeSandboxUpdates(sandbox, fixed);
+      logOutput(output, panelApi, 'Re-running validation in sandbox...');
+      validation = await maybeRunValidation(rootPath, output, instruction, runOptions());
+    }
+
+    return { validation, updates: collectSandboxUpdates(sandbox), fixAttempts };
+  } finally {
+    try {
+      await disposeValidationSandbox(sandbox);
+    } catch (error) {
+      recordStep('Validation sandbox', `cleanup failed: ${String(error)}`);
+    }
+  }
+}
+
+/** Parse one command's output and record what was recognised in the trace. */
+function collectDiagnostics(commandOutput: string, rootPath: string, option: ValidationOption): ValidationDiagnostic[] {
+  const diagnostics = parseValidationOutput(commandOutput, rootPath, option.dir);
+  if (diagnostics.length > 0) {
+    recordPayload(`Validation diagnostics: ${option.label}`, diagnostics.map((item) => formatDiagnostic(item)).join('\n'));
+  }
+  return diagnostics;
 }
 
 /** Run validation first, then attempt auto-fixes if enabled. */
@@ -140,7 +530,11 @@ export async function runValidationFirstFix(
 ): Promise<boolean> {
   logOutput(output, panelApi, 'Running validation (fix mode)...');
   recordStep('Validation mode', 'fix');
-  let validationResult = await maybeRunValidation(rootPath, output, instruction);
+  let validationResult = await maybeRunValidation(rootPath, output, instruction, { signal });
+  if (validationResult.cancelled) {
+    logOutput(output, panelApi, 'Validation cancelled.');
+    return true;
+  }
   if (validationResult.ok) {
     logOutput(output, panelApi, 'Validation already passing.');
     return options?.continueOnPass ? false : true;
@@ -150,13 +544,14 @@ export async function runValidationFirstFix(
   const maxFixRetries = Math.max(0, getForgeSetting<number>('autoFixMaxRetries') ?? 0);
   let remainingFixRetries = maxFixRetries;
   let lastUpdates: FileUpdate[] | null = null;
+  const changedFiles = new Set<string>();
 
   if (!autoFixValidation || maxFixRetries === 0) {
     logOutput(output, panelApi, 'Auto-fix disabled.');
     return true;
   }
 
-  while (true) {
+  while (!validationResult.cancelled) {
     if (!validationResult.ok) {
       if (remainingFixRetries <= 0) {
         break;
@@ -165,23 +560,29 @@ export async function runValidationFirstFix(
       logOutput(output, panelApi, `Auto-fix attempt ${attempt} of ${maxFixRetries}...`);
       recordStep('Auto-fix attempt', `${attempt} of ${maxFixRetries}`);
       const failureContext = buildValidationFailureContext(validationResult);
+      const failureDetail = describeValidationFailures(validationResult, rootPath);
       const fixedUpdates = await attemptAutoFix(
         rootPath,
         instruction,
-        validationResult.output,
+        failureDetail.text,
         output,
         panelApi,
         history,
         signal,
-        failureContext ?? undefined
+        failureContext ?? undefined,
+        failureDetail.files
       );
       if (!fixedUpdates) {
         break;
       }
       lastUpdates = fixedUpdates;
+      fixedUpdates.forEach((update) => changedFiles.add(update.relativePath));
       remainingFixRetries -= 1;
       logOutput(output, panelApi, 'Re-running validation...');
-      validationResult = await maybeRunValidation(rootPath, output, instruction);
+      validationResult = await maybeRunValidation(rootPath, output, instruction, {
+        signal,
+        changedFiles: Array.from(changedFiles)
+      });
       continue;
     }
 
@@ -208,25 +609,35 @@ export async function runValidationFirstFix(
     const extraContext = verification.issues.join('\n');
     const failureContext = buildValidationFailureContext(validationResult);
     const combinedContext = [extraContext, failureContext].filter(Boolean).join('\n\n') || undefined;
+    const failureDetail = describeValidationFailures(validationResult, rootPath);
     const fixedUpdates = await attemptAutoFix(
       rootPath,
       instruction,
-      validationResult.output,
+      failureDetail.text,
       output,
       panelApi,
       history,
       signal,
-      combinedContext
+      combinedContext,
+      failureDetail.files
     );
     if (!fixedUpdates) {
       break;
     }
     lastUpdates = fixedUpdates;
+    fixedUpdates.forEach((update) => changedFiles.add(update.relativePath));
     remainingFixRetries -= 1;
     logOutput(output, panelApi, 'Re-running validation...');
-    validationResult = await maybeRunValidation(rootPath, output, instruction);
+    validationResult = await maybeRunValidation(rootPath, output, instruction, {
+      signal,
+      changedFiles: Array.from(changedFiles)
+    });
   }
 
+  if (validationResult.cancelled) {
+    logOutput(output, panelApi, 'Validation cancelled.');
+    return true;
+  }
   if (!validationResult.ok) {
     logOutput(output, panelApi, 'Validation still failing after auto-fix attempts.');
     return true;
@@ -282,8 +693,8 @@ function selectValidationOptions(
   const lowered = instruction.toLowerCase();
   const wantsAll = /(validate|ci|pipeline|all checks|all tests)/.test(lowered);
   const wantsTest = /(test|tests|unit|integration|e2e|spec)/.test(lowered);
-  const wantsLint = /(lint|eslint|prettier|format)/.test(lowered);
-  const wantsTypecheck = /(typecheck|type check|typescript|tsc)/.test(lowered);
+  const wantsLint = /(lint|eslint|prettier|format|ruff|clippy|vet)/.test(lowered);
+  const wantsTypecheck = /(typecheck|type check|typescript|tsc|mypy)/.test(lowered);
   const wantsBuild = /(build|compile|bundle)/.test(lowered);
 
   if (wantsAll) {
@@ -292,28 +703,16 @@ function selectValidationOptions(
 
   const requested: ValidationOption[] = [];
   if (wantsTest) {
-    const found = options.find((option) => option.label === 'test');
-    if (found) {
-      requested.push(found);
-    }
+    requested.push(...options.filter((option) => option.label === 'test'));
   }
   if (wantsLint) {
-    const found = options.find((option) => option.label === 'lint');
-    if (found) {
-      requested.push(found);
-    }
+    requested.push(...options.filter((option) => option.label === 'lint'));
   }
   if (wantsTypecheck) {
-    const found = options.find((option) => option.label === 'typecheck');
-    if (found) {
-      requested.push(found);
-    }
+    requested.push(...options.filter((option) => option.label === 'typecheck'));
   }
   if (wantsBuild) {
-    const found = options.find((option) => option.label === 'build');
-    if (found) {
-      requested.push(found);
-    }
+    requested.push(...options.filter((option) => option.label === 'build'));
   }
 
   if (requested.length > 0) {
@@ -322,27 +721,46 @@ function selectValidationOptions(
 
   const best = pickBestValidationOption(options);
   return {
-    options: best ? [best] : options,
+    // Polyglot workspaces can have one command per ecosystem under the same label.
+    options: best ? options.filter((option) => option.label === best.label) : options,
     reason: best ? `auto: default -> ${best.label}` : 'auto: default -> all'
   };
 }
 
-/** Summarize validation failures for auto-fix prompts. */
+/** Summarize validation failures for auto-fix prompts; raw output is only kept when nothing was parsed. */
 export function buildValidationFailureContext(result: ValidationResult): string | null {
   if (!result.failures || result.failures.length === 0) {
     return null;
   }
   const blocks = result.failures.map((failure) => {
     const output = failure.output?.trim();
+    const parsed = failure.diagnostics?.length ?? 0;
     return [
       `Command: ${failure.command}`,
       `Label: ${failure.label}`,
-      output ? `Output:\n${output}` : null
+      parsed > 0 ? `Diagnostics: ${parsed} (listed with the failing code)` : output ? `Output:\n${output}` : null
     ].filter(Boolean).join('\n');
   });
   return `Validation failures:\n${blocks.join('\n\n')}`;
 }
 
+/**
+ * Text and target files for an auto-fix pass: parsed diagnostics with the failing lines when
+ * available, otherwise the raw validation output and no file restriction.
+ */
+export function describeValidationFailures(
+  result: ValidationResult,
+  rootPath: string
+): { text: string; files: string[] } {
+  const failed = (result.failures ?? []).flatMap((failure) => failure.diagnostics ?? []);
+  if (failed.length === 0) {
+    return { text: result.output, files: [] };
+  }
+  const errors = failed.filter((item) => item.severity === 'error');
+  const relevant = errors.length > 0 ? errors : failed;
+  return { text: formatDiagnosticsForPrompt(relevant, rootPath), files: listDiagnosticFiles(relevant) };
+}
+
 /** Choose the highest-priority validation option. */
 function pickBestValidationOption(options: ValidationOption[]): ValidationOption | null {
   const priority = ['test', 'typecheck', 'lint', 'build'];
@@ -359,14 +777,10 @@ function pickBestValidationOption(options: ValidationOption[]): ValidationOption
 function orderValidationOptions(options: ValidationOption[]): ValidationOption[] {
   const priority = ['test', 'typecheck', 'lint', 'build'];
   const ordered: ValidationOption[] = [];
-  const remaining = [...options];
 
   for (const label of priority) {
-    const index = remaining.findIndex((option) => option.label === label);
-    if (index >= 0) {
-      ordered.push(remaining.splice(index, 1)[0]);
-    }
+    ordered.push(...options.filter((option) => option.label === label));
   }
 
-  return ordered.concat(remaining);
+  return ordered.concat(options.filter((option) => !priority.includes(option.label)));
 }
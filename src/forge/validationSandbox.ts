@@ -0,0 +1,145 @@
+/** Throwaway copies of the workspace (git worktree or scratch copy) for validating edits before apply. */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { addDetachedWorktree, getDirtyFiles, getHeadCommit, isGitRepo, removeWorktree } from '../git';
+import type { FileUpdate } from './types';
+
+export type ValidationSandbox = {
+  kind: 'worktree' | 'copy';
+  rootPath: string;
+  sandboxPath: string;
+  /** Relative paths written into the sandbox so far. */
+  touched: Set<string>;
+  /** Symlinks to the workspace's dependency folders, removed before cleanup. */
+  links: string[];
+};
+
+// Installed dependencies are linked rather than copied; they are large and usually ignored by git.
+const DEPENDENCY_DIRS = ['node_modules', '.venv', 'venv'];
+const COPY_EXCLUDED_DIRS = new Set(['.git', '.forge', ...DEPENDENCY_DIRS]);
+
+/**
+ * Create a sandbox mirroring the workspace as it is now: a detached worktree of HEAD with the
+ * uncommitted files copied over, or a copy-on-write scratch copy when the folder is not a git repo.
+ */
+export async function createValidationSandbox(rootPath: string): Promise<ValidationSandbox> {
+  const sandboxPath = fs.mkdtempSync(path.join(os.tmpdir(), 'forge-validate-'));
+  const useWorktree = (await isGitRepo(rootPath)) && (await getHeadCommit(rootPath)) !== null;
+  const sandbox: ValidationSandbox = {
+    kind: useWorktree ? 'worktree' : 'copy',
+    rootPath,
+    sandboxPath,
+    touched: new Set(),
+    links: []
+  };
+
+  try {
+    if (useWorktree) {
+      // `worktree add` refuses an existing directory, even an empty one.
+      fs.rmdirSync(sandboxPath);
+      await addDetachedWorktree(rootPath, sandboxPath);
+      await copyDirtyFiles(rootPath, sandboxPath);
+    } else {
+      copyWorkspace(rootPath, sandboxPath);
+    }
+    linkDependencyDirs(sandbox);
+  } catch (error) {
+    await disposeValidationSandbox(sandbox);
+    throw error;
+  }
+  return sandbox;
+}
+
+/** Write proposed updates into the sandbox at the same relative paths. */
+export function writeSandboxUpdates(sandbox: ValidationSandbox, updates: FileUpdate[]): void {
+  for (const update of updates) {
+    const target = path.join(sandbox.sandboxPath, update.relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, update.updated, 'utf8');
+    sandbox.touched.add(update.relativePath.replace(/\\/g, '/'));
+  }
+}
+
+/**
+ * Turn every file written into the sandbox back into workspace updates: `updated` is the
+ * sandbox content, `original` the current workspace content. Unchanged files are dropped.
+ */
+export function collectSandboxUpdates(sandbox: ValidationSandbox): FileUpdate[] {
+  const updates: FileUpdate[] = [];
+  for (const relativePath of sandbox.touched) {
+    const sandboxFile = path.join(sandbox.sandboxPath, relativePath);
+    if (!fs.existsSync(sandboxFile)) {
+      continue;
+    }
+    const fullPath = path.join(sandbox.rootPath, relativePath);
+    const original = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf8') : '';
+    const updated = fs.readFileSync(sandboxFile, 'utf8');
+    if (updated !== original) {
+      updates.push({ fullPath, relativePath, original, updated });
+    }
+  }
+  return updates;
+}
+
+/** Remove the sandbox directory (and its worktree registration). Never touches linked dependencies. */
+export async function disposeValidationSandbox(sandbox: ValidationSandbox): Promise<void> {
+  for (const link of sandbox.links) {
+    try {
+      fs.unlinkSync(link);
+    } catch {
+      // Already gone.
+    }
+  }
+  if (sandbox.kind === 'worktree') {
+    try {
+      await removeWorktree(sandbox.rootPath, sandbox.sandboxPath);
+    } catch {
+      // Fall through to the directory removal below; prune already ran.
+    }
+  }
+  fs.rmSync(sandbox.sandboxPath, { recursive: true, force: true });
+}
+
+async function copyDirtyFiles(rootPath: string, sandboxPath: string): Promise<void> {
+  const dirty = (await getDirtyFiles(rootPath)).filter((file) => !file.startsWith('.forge/'));
+  for (const file of dirty) {
+    const source = path.join(rootPath, file);
+    const target = path.join(sandboxPath, file);
+    if (fs.existsSync(source) && fs.statSync(source).isFile()) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(source, target, fs.constants.COPYFILE_FICLONE);
+    } else if (fs.existsSync(target)) {
+      fs.rmSync(target, { force: true });
+    }
+  }
+}
+
+function copyWorkspace(rootPath: string, sandboxPath: string): void {
+  fs.cpSync(rootPath, sandboxPath, {
+    recursive: true,
+    mode: fs.constants.COPYFILE_FICLONE,
+    filter: (source) => !COPY_EXCLUDED_DIRS.has(path.basename(source)) || source === rootPath
+  });
+}
+
+/** Link dependency folders at the root and one level down (monorepo packages) into the sandbox. */
+function linkDependencyDirs(sandbox: ValidationSandbox): void {
+  const parents = [''];
+  for (const entry of fs.readdirSync(sandbox.rootPath, { withFileTypes: true })) {
+    if (entry.isDirectory() && !COPY_EXCLUDED_DIRS.has(entry.name)) {
+      parents.push(entry.name);
+    }
+  }
+  for (const parent of parents) {
+    for (const name of DEPENDENCY_DIRS) {
+      const source = path.join(sandbox.rootPath, parent, name);
+      const target = path.join(sandbox.sandboxPath, parent, name);
+      if (!fs.existsSync(source) || !fs.existsSync(path.dirname(target)) || fs.existsSync(target)) {
+        continue;
+      }
+      fs.symlinkSync(source, target, process.platform === 'win32' ? 'junction' : 'dir');
+      sandbox.links.push(target);
+    }
+  }
+}
@@ -2,6 +2,7 @@
 import type { ChatMessage } from '../llm/client';
 import { requestStructuredJson } from '../llm/structured';
 import { VERIFICATION_SCHEMA } from './schemas';
+import type { ValidationProblems } from './validationBaseline';
 import { recordPrompt, recordResponse, recordStep } from './trace';
 import { getRoutedConfig } from '../llm/routing';
 
@@ -9,17 +10,23 @@ export type VerificationResult = {
   status: 'pass' | 'fail';
   issues: string[];
   confidence?: 'low' | 'medium' | 'high';
+  problems?: ValidationProblems;
 };
 
-/** Ask the verifier model to confirm requirements were met given summary + diff. */
+/**
+ * Ask the verifier model to confirm requirements were met given summary + diff. With a baseline
+ * comparison, problems that predate the change are listed so they are not blamed on it.
+ */
 export async function verifyChanges(
   instruction: string,
   changeSummary: string,
   validationOutput: string | null,
   changeDetails?: string | null,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  problems?: ValidationProblems | null
 ): Promise<VerificationResult> {
   const validationBlock = validationOutput ? `\n\nValidation output:\n${validationOutput}` : '';
+  const problemsBlock = problems ? `\n\n${formatProblemsBlock(problems)}` : '';
   const detailBlock = changeDetails ? `\n\nChange details:\n${changeDetails}` : '';
   const messages: ChatMessage[] = [
     {
@@ -28,13 +35,14 @@ export async function verifyChanges(
         'You are verifying whether code changes satisfy the instruction. ' +
         'Return ONLY valid JSON: {"status":"pass|fail","issues":["..."],"confidence":"low|medium|high"}. ' +
         'Use the change summary/details to decide if requirements are met. ' +
-        'Do not fail solely because validation output lacks confirmation.'
+        'Do not fail solely because validation output lacks confirmation. ' +
+        'Problems listed as pre-existing were present before the change and are not caused by it.'
     },
     {
       role: 'user',
       content:
         `Instruction: ${instruction}\n\n` +
-        `Change summary:\n${changeSummary || '(no summary)'}${detailBlock}${validationBlock}`
+        `Change summary:\n${changeSummary || '(no summary)'}${detailBlock}${validationBlock}${problemsBlock}`
     }
   ];
 
@@ -48,10 +56,20 @@ export async function verifyChanges(
   const status = payload.status === 'fail' ? 'fail' : 'pass';
   const confidence =
     payload.confidence === 'high' || payload.confidence === 'medium' ? payload.confidence : 'low';
-  const result: VerificationResult = { status, issues, confidence };
+  const result: VerificationResult = { status, issues, confidence, ...(problems ? { problems } : {}) };
   recordStep('Verification status', `${status} (${confidence})`);
   if (issues.length > 0) {
     recordStep('Verification issues', issues.map((item) => `- ${item}`).join('\n'));
   }
   return result;
 }
+
+function formatProblemsBlock(problems: ValidationProblems): string {
+  const group = (title: string, items: string[]) =>
+    `${title} (${items.length}):${items.length > 0 ? `\n${items.map((item) => `- ${item}`).join('\n')}` : ' none'}`;
+  return [
+    group('Problems introduced by the change', problems.introduced),
+    group('Problems fixed by the change', problems.fixed),
+    group('Pre-existing problems (not caused by the change)', problems.preExisting)
+  ].join('\n');
+}
@@ -130,6 +130,48 @@ export async function getCurrentBranch(cwd: string): Promise<string> {
   return branch.trim();
 }
 
+/** Return the HEAD commit hash, or null before the first commit. */
+export async function getHeadCommit(cwd: string): Promise<string | null> {
+  try {
+    return (await execGit(['rev-parse', 'HEAD'], cwd)).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Return paths with uncommitted changes, including every untracked file (renames report the new path). */
+export async function getDirtyFiles(cwd: string): Promise<string[]> {
+  const status = await execGit(['status', '--porcelain', '-z', '--untracked-files=all'], cwd);
+  const entries = status.split('\0');
+  const files: string[] = [];
+  for (let i = 0; i < entries.length; i += 1) {
+    const entry = entries[i];
+    if (entry.length < 4) {
+      continue;
+    }
+    files.push(entry.slice(3));
+    // With -z, a rename is followed by its source path as a separate entry.
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      i += 1;
+    }
+  }
+  return files;
+}
+
+/** Check out HEAD into a new detached worktree at `worktreePath`. */
+export async function addDetachedWorktree(cwd: string, worktreePath: string): Promise<void> {
+  await execGit(['worktree', 'add', '--detach', worktreePath, 'HEAD'], cwd);
+}
+
+/** Remove a worktree (discarding its changes) and prune stale worktree metadata. */
+export async function removeWorktree(cwd: string, worktreePath: string): Promise<void> {
+  try {
+    await execGit(['worktree', 'remove', '--force', worktreePath], cwd);
+  } finally {
+    await execGit(['worktree', 'prune'], cwd).catch(() => undefined);
+  }
+}
+
 /** Return configured remote names. */
 export async function getRemotes(cwd: string): Promise<string[]> {
   const remotes = await execGit(['remote'], cwd);
@@ -0,0 +1,422 @@
+/** Syntax-aware chunking: split source files along declarations instead of raw character counts. */
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type ChunkSymbolKind =
+  | 'function'
+  | 'class'
+  | 'method'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'variable'
+  | 'module'
+  | 'section';
+
+export type CodeChunk = {
+  content: string;
+  startLine: number;
+  endLine: number;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+};
+
+/** A 1-based inclusive line span; `standalone` spans never merge with neighbours. */
+type ChunkUnit = {
+  startLine: number;
+  endLine: number;
+  symbolName?: string;
+  symbolKind?: ChunkSymbolKind;
+  standalone: boolean;
+};
+
+const TS_SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX
+};
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.mdx', '.markdown']);
+const PLAIN_EXTENSIONS = new Set(['.json', '.jsonc', '.yaml', '.yml', '.toml', '.txt', '.lock', '.csv', '.ini', '.env']);
+
+// Column-0 declarations for languages without a parser; capture group 2 is the name.
+const HEURISTIC_TYPE_PATTERN =
+  /^(?:(?:export|public|private|protected|internal|abstract|final|static|sealed|data|open|partial|pub(?:\([^)]*\))?)\s+)*(class|object|interface|trait|struct|enum|impl|module|mod|namespace|type)\s+([A-Za-z_]\w*(?:::\w+)*)/;
+const HEURISTIC_FUNCTION_PATTERN =
+  /^(?:(?:export|public|private|protected|internal|static|async|unsafe|inline|pub(?:\([^)]*\))?)\s+)*(def|fn|func|function|fun|sub|proc)\s+(\([^)]*\)\s*)?([A-Za-z_][\w.!?]*)/;
+const HEURISTIC_LEADING_PATTERN = /^\s*(#(?!\w*include)|\/\/|\/\*|\*|@|""")/;
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split a file into chunks that follow its structure: declarations for TS/JS (TypeScript parser),
+ * column-0 declarations for other code, headings for Markdown, and plain line packing otherwise.
+ */
+export function chunkSource(filePath: string, text: string, maxChars: number): CodeChunk[] {
+  const lines = text.split(/\r?\n/);
+  const extension = path.extname(filePath).toLowerCase();
+  let units: ChunkUnit[] | null = null;
+
+  const scriptKind = TS_SCRIPT_KINDS[extension];
+  if (scriptKind !== undefined) {
+    try {
+      units = collectScriptUnits(filePath, text, scriptKind, maxChars, lines);
+    } catch {
+      units = null;
+    }
+  } else if (MARKDOWN_EXTENSIONS.has(extension)) {
+    units = collectMarkdownUnits(lines);
+  } else if (!PLAIN_EXTENSIONS.has(extension)) {
+    units = collectHeuristicUnits(lines);
+  }
+
+  if (!units || units.length === 0) {
+    return packLines(lines, 1, lines.length, maxChars);
+  }
+  return buildChunks(lines, fillGaps(units, lines.length), maxChars);
+}
+
+/** Find the chunk covering a 1-based line, if any. */
+export function findChunkForLine(chunks: CodeChunk[], line: number): CodeChunk | null {
+  return chunks.find((chunk) => chunk.startLine <= line && line <= chunk.endLine) ?? null;
+}
+
+/** Short label such as `function buildPrompt` for prompts and source lists. */
+export function describeChunkSymbol(chunk: { symbolName?: string; symbolKind?: ChunkSymbolKind }): string | null {
+  if (!chunk.symbolName) {
+    return null;
+  }
+  return chunk.symbolKind ? `${chunk.symbolKind} ${chunk.symbolName}` : chunk.symbolName;
+}
+
+/** Top-level statements via the TypeScript parser; oversized classes are split per member. */
+function collectScriptUnits(
+  filePath: string,
+  text: string,
+  scriptKind: ts.ScriptKind,
+  maxChars: number,
+  lines: string[]
+): ChunkUnit[] {
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, false, scriptKind);
+  const units: ChunkUnit[] = [];
+
+  for (const statement of sourceFile.statements) {
+    const symbol = describeStatement(statement);
+    const span = getNodeLines(sourceFile, statement, lines);
+    const size = statement.getEnd() - statement.getFullStart();
+    if (symbol?.kind === 'class' && ts.isClassLike(statement) && size > maxChars && statement.members.length > 0) {
+      units.push(...collectClassUnits(sourceFile, statement, symbol.name, span, lines));
+      continue;
+    }
+    units.push({
+      ...span,
+      symbolName: symbol?.name,
+      symbolKind: symbol?.kind,
+      standalone: Boolean(symbol)
+    });
+  }
+  return units;
+}
+
+/** Class header and fields stay together; each method, constructor or accessor becomes its own unit. */
+function collectClassUnits(
+  sourceFile: ts.SourceFile,
+  node: ts.ClassLikeDeclaration,
+  className: string,
+  span: { startLine: number; endLine: number },
+  lines: string[]
+): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  const firstMember = getNodeLines(sourceFile, node.members[0], lines);
+  if (firstMember.startLine > span.startLine) {
+    units.push({
+      startLine: span.startLine,
+      endLine: firstMember.startLine - 1,
+      symbolName: className,
+      symbolKind: 'class',
+      standalone: false
+    });
+  }
+  for (const member of node.members) {
+    const memberSpan = getNodeLines(sourceFile, member, lines);
+    const isCallable =
+      ts.isMethodDeclaration(member) ||
+      ts.isConstructorDeclaration(member) ||
+      ts.isGetAccessorDeclaration(member) ||
+      ts.isSetAccessorDeclaration(member) ||
+      (ts.isPropertyDeclaration(member) && member.initializer !== undefined && isFunctionLike(member.initializer));
+    const memberName = ts.isConstructorDeclaration(member) ? 'constructor' : getDeclarationName(member);
+    units.push({
+      ...memberSpan,
+      symbolName: isCallable && memberName ? `${className}.${memberName}` : className,
+      symbolKind: isCallable ? 'method' : 'class',
+      standalone: isCallable
+    });
+  }
+  // The closing brace belongs to the last member rather than becoming a chunk of its own.
+  const last = units[units.length - 1];
+  last.endLine = Math.max(last.endLine, span.endLine);
+  return units;
+}
+
+function describeStatement(statement: ts.Statement): { name: string; kind: ChunkSymbolKind } | null {
+  if (ts.isFunctionDeclaration(statement)) {
+    return { name: statement.name?.text ?? 'default', kind: 'function' };
+  }
+  if (ts.isClassDeclaration(statement)) {
+    return { name: statement.name?.text ?? 'default', kind: 'class' };
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    return { name: statement.name.text, kind: 'interface' };
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return { name: statement.name.text, kind: 'type' };
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    return { name: statement.name.text, kind: 'enum' };
+  }
+  if (ts.isModuleDeclaration(statement)) {
+    return { name: statement.name.text, kind: 'module' };
+  }
+  if (ts.isVariableStatement(statement)) {
+    const declarations = statement.declarationList.declarations;
+    const first = declarations[0];
+    if (!first || !ts.isIdentifier(first.name)) {
+      return null;
+    }
+    if (first.initializer && isFunctionLike(first.initializer)) {
+      return { name: first.name.text, kind: 'function' };
+    }
+    if (first.initializer && ts.isClassExpression(first.initializer)) {
+      return { name: first.name.text, kind: 'class' };
+    }
+    // Plain constants are only worth a chunk of their own when exported.
+    const exported = statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+    return exported ? { name: first.name.text, kind: 'variable' } : null;
+  }
+  if (ts.isExportAssignment(statement)) {
+    return { name: 'default', kind: isFunctionLike(statement.expression) ? 'function' : 'variable' };
+  }
+  return null;
+}
+
+function isFunctionLike(node: ts.Node): boolean {
+  const inner = ts.isParenthesizedExpression(node) ? node.expression : node;
+  return ts.isArrowFunction(inner) || ts.isFunctionExpression(inner);
+}
+
+function getDeclarationName(member: ts.ClassElement): string | null {
+  const name = member.name;
+  if (!name) {
+    return null;
+  }
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+/** Node line span including the comments above it (not a trailing comment of the previous line). */
+function getNodeLines(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  lines: string[]
+): { startLine: number; endLine: number } {
+  const fullStart = node.getFullStart();
+  const fullStartPosition = sourceFile.getLineAndCharacterOfPosition(fullStart);
+  let startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  for (const comment of ts.getLeadingCommentRanges(sourceFile.text, fullStart) ?? []) {
+    const commentLine = sourceFile.getLineAndCharacterOfPosition(comment.pos).line;
+    if (commentLine > fullStartPosition.line || fullStartPosition.character === 0) {
+      startLine = Math.min(startLine, commentLine + 1);
+      break;
+    }
+  }
+  while (startLine < lines.length && !lines[startLine - 1]?.trim()) {
+    startLine += 1;
+  }
+  const endLine = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+  return { startLine, endLine: Math.max(startLine, endLine) };
+}
+
+/** Markdown sections start at headings. */
+function collectMarkdownUnits(lines: string[]): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const match = inFence ? null : line.match(MARKDOWN_HEADING_PATTERN);
+    if (match) {
+      units.push({ startLine: index + 1, endLine: index + 1, symbolName: match[2], symbolKind: 'section', standalone: true });
+    }
+  });
+  return extendToNextUnit(units, lines);
+}
+
+/** Column-0 declarations in other languages, pulling in comments and decorators directly above them. */
+function collectHeuristicUnits(lines: string[]): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  lines.forEach((line, index) => {
+    const symbol = matchHeuristicDeclaration(line);
+    if (!symbol) {
+      return;
+    }
+    let startLine = index + 1;
+    const floor = units.length > 0 ? units[units.length - 1].startLine + 1 : 1;
+    while (startLine - 1 >= floor && HEURISTIC_LEADING_PATTERN.test(lines[startLine - 2])) {
+      startLine -= 1;
+    }
+    units.push({ startLine, endLine: startLine, symbolName: symbol.name, symbolKind: symbol.kind, standalone: true });
+  });
+  return extendToNextUnit(units, lines);
+}
+
+function matchHeuristicDeclaration(line: string): { name: string; kind: ChunkSymbolKind } | null {
+  const fn = line.match(HEURISTIC_FUNCTION_PATTERN);
+  if (fn) {
+    // Go-style receivers (`func (s *Server) Start`) mark methods.
+    return { name: fn[3], kind: fn[2] ? 'method' : 'function' };
+  }
+  const type = line.match(HEURISTIC_TYPE_PATTERN);
+  if (!type) {
+    return null;
+  }
+  const keyword = type[1];
+  const kind: ChunkSymbolKind =
+    keyword === 'class' || keyword === 'object'
+      ? 'class'
+      : keyword === 'interface' || keyword === 'trait'
+        ? 'interface'
+        : keyword === 'enum'
+          ? 'enum'
+          : keyword === 'struct' || keyword === 'type'
+            ? 'type'
+            : 'module';
+  return { name: type[2], kind };
+}
+
+/** Stretch each boundary-only unit up to the next one, dropping trailing blank lines. */
+function extendToNextUnit(units: ChunkUnit[], lines: string[]): ChunkUnit[] {
+  return units.map((unit, index) => {
+    const next = units[index + 1];
+    let endLine = next ? next.startLine - 1 : lines.length;
+    while (endLine > unit.startLine && !lines[endLine - 1]?.trim()) {
+      endLine -= 1;
+    }
+    return { ...unit, endLine: Math.max(unit.startLine, endLine) };
+  });
+}
+
+/** Merge overlapping units and cover uncovered lines (imports, trailing code) with anonymous units. */
+function fillGaps(units: ChunkUnit[], lineCount: number): ChunkUnit[] {
+  const sorted = [...units].sort((a, b) => a.startLine - b.startLine);
+  const filled: ChunkUnit[] = [];
+  let nextLine = 1;
+  for (const unit of sorted) {
+    const previous = filled[filled.length - 1];
+    if (previous && unit.startLine <= previous.endLine) {
+      // Several statements on one line: keep the first symbol, widen its span.
+      previous.endLine = Math.max(previous.endLine, unit.endLine);
+      nextLine = previous.endLine + 1;
+      continue;
+    }
+    if (unit.startLine > nextLine) {
+      filled.push({ startLine: nextLine, endLine: unit.startLine - 1, standalone: false });
+    }
+    filled.push({ ...unit });
+    nextLine = unit.endLine + 1;
+  }
+  if (nextLine <= lineCount) {
+    filled.push({ startLine: nextLine, endLine: lineCount, standalone: false });
+  }
+  return filled;
+}
+
+/** Turn units into chunks: neighbouring non-standalone units are packed, oversized ones split by lines. */
+function buildChunks(lines: string[], units: ChunkUnit[], maxChars: number): CodeChunk[] {
+  const chunks: CodeChunk[] = [];
+  let pending: ChunkUnit | null = null;
+
+  const flush = () => {
+    if (pending) {
+      chunks.push(...packLines(lines, pending.startLine, pending.endLine, maxChars, pending));
+      pending = null;
+    }
+  };
+
+  for (const unit of units) {
+    if (unit.standalone) {
+      flush();
+      chunks.push(...packLines(lines, unit.startLine, unit.endLine, maxChars, unit));
+      continue;
+    }
+    if (pending && spanChars(lines, pending.startLine, unit.endLine) <= maxChars) {
+      pending = {
+        startLine: pending.startLine,
+        endLine: unit.endLine,
+        // A packed group only keeps a symbol when every part agrees on it.
+        symbolName: pending.symbolName === unit.symbolName ? pending.symbolName : undefined,
+        symbolKind: pending.symbolKind === unit.symbolKind ? pending.symbolKind : undefined,
+        standalone: false
+      };
+      continue;
+    }
+    flush();
+    pending = { ...unit };
+  }
+  flush();
+  return chunks.filter((chunk) => chunk.content.trim().length > 0);
+}
+
+/** Pack a line range into chunks of at most `maxChars` (a single long line still forms one chunk). */
+function packLines(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  maxChars: number,
+  symbol?: { symbolName?: string; symbolKind?: ChunkSymbolKind }
+): CodeChunk[] {
+  const chunks: CodeChunk[] = [];
+  let buffer: string[] = [];
+  let bufferStart = startLine;
+  let currentChars = 0;
+
+  const push = () => {
+    chunks.push({
+      content: buffer.join('\n'),
+      startLine: bufferStart,
+      endLine: bufferStart + buffer.length - 1,
+      ...(symbol?.symbolName ? { symbolName: symbol.symbolName } : {}),
+      ...(symbol?.symbolKind ? { symbolKind: symbol.symbolKind } : {})
+    });
+  };
+
+  for (let lineNumber = startLine; lineNumber <= endLine; lineNumber += 1) {
+    const line = lines[lineNumber - 1] ?? '';
+    if (buffer.length > 0 && currentChars + line.length + 1 > maxChars) {
+      push();
+      buffer = [];
+      currentChars = 0;
+      bufferStart = lineNumber;
+    }
+    buffer.push(line);
+    currentChars += line.length + 1;
+  }
+  if (buffer.length > 0) {
+    push();
+  }
+  return chunks;
+}
+
+function spanChars(lines: string[], startLine: number, endLine: number): number {
+  let total = 0;
+  for (let lineNumber = startLine; lineNumber <= endLine; lineNumber += 1) {
+    total += (lines[lineNumber - 1] ?? '').length + 1;
+  }
+  return total;
+}
@@ -2,12 +2,15 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { harvestContext } from '../context';
+import { getActiveWorkspaceRoot, getWorkspaceRootForFile, listWorkspaceRoots } from '../context/workspaceRoots';
 
 type IndexedSymbol = {
   name: string;
   kind: string;
   containerName: string | null;
   relativePath: string;
+  line: number | null;
+  rootPath: string | null;
 };
 
 export type WorkspaceIndex = {
@@ -16,7 +19,7 @@ export type WorkspaceIndex = {
   files: string[];
 };
 
-let currentIndex: WorkspaceIndex | null = null;
+let currentIndex: { generatedAt: string; symbols: IndexedSymbol[]; filesByRoot: Map<string, string[]> } | null = null;
 let refreshTimer: NodeJS.Timeout | null = null;
 
 /** Start background indexing on file changes and saves. */
@@ -30,9 +33,19 @@ export function startWorkspaceIndexing(context: vscode.ExtensionContext): void {
   context.subscriptions.push(onSave, onChange, onOpen);
 }
 
-/** Get the last computed workspace index, if available. */
-export function getWorkspaceIndex(): WorkspaceIndex | null {
-  return currentIndex;
+/** Get the last computed index for one workspace folder (defaults to the run's folder). */
+export function getWorkspaceIndex(rootPath: string | null = getActiveWorkspaceRoot()): WorkspaceIndex | null {
+  if (!currentIndex) {
+    return null;
+  }
+  if (!rootPath) {
+    return { generatedAt: currentIndex.generatedAt, symbols: currentIndex.symbols, files: [] };
+  }
+  return {
+    generatedAt: currentIndex.generatedAt,
+    symbols: currentIndex.symbols.filter((symbol) => symbol.rootPath === rootPath),
+    files: currentIndex.filesByRoot.get(rootPath) ?? []
+  };
 }
 
 /** Debounce index refresh to avoid excessive work. */
@@ -45,11 +58,12 @@ function scheduleRefresh(delayMs = 1500): void {
   }, delayMs);
 }
 
-/** Rebuild the workspace symbol index from the VS Code provider. */
+/** Rebuild the workspace symbol index from the VS Code provider, keyed by workspace folder. */
 async function refreshIndex(): Promise<void> {
-  const rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
-  const context = harvestContext();
-  const files = context.files ?? [];
+  const filesByRoot = new Map<string, string[]>();
+  for (const root of listWorkspaceRoots()) {
+    filesByRoot.set(root.rootPath, harvestContext(root.rootPath).files ?? []);
+  }
 
   const rawSymbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
     'vscode.executeWorkspaceSymbolProvider',
@@ -58,6 +72,7 @@ async function refreshIndex(): Promise<void> {
 
   const symbols = (rawSymbols ?? [])
     .map((symbol) => {
+      const rootPath = getWorkspaceRootForFile(symbol.location.uri.fsPath);
       const relativePath = rootPath
         ? path.relative(rootPath, symbol.location.uri.fsPath)
         : path.basename(symbol.location.uri.fsPath);
@@ -65,7 +80,9 @@ async function refreshIndex(): Promise<void> {
         name: symbol.name,
         kind: vscode.SymbolKind[symbol.kind] ?? String(symbol.kind),
         containerName: symbol.containerName ?? null,
-        relativePath
+        relativePath,
+        line: symbol.location.range ? symbol.location.range.start.line + 1 : null,
+        rootPath
       };
     })
     .filter((symbol) => symbol.name && symbol.relativePath);
@@ -73,6 +90,6 @@ async function refreshIndex(): Promise<void> {
   currentIndex = {
     generatedAt: new Date().toISOString(),
     symbols,
-    files
+    filesByRoot
   };
 }
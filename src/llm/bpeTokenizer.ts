@@ -0,0 +1,218 @@
+/**
+ * BPE token counting from a Hugging Face `tokenizer.json`: byte-level vocabularies (Qwen2, Llama 3,
+ * GPT-2 style) and SentencePiece-style `▁` vocabularies with byte fallback (Llama 2, Mistral).
+ * Special tokens are not matched; prompts rarely contain them.
+ */
+import * as fs from 'fs';
+
+export type BpeTokenizer = {
+  countTokens: (text: string) => number;
+};
+
+type PreTokenizerJson = {
+  type?: string;
+  pretokenizers?: PreTokenizerJson[];
+  pattern?: { Regex?: string; String?: string };
+};
+
+type TokenizerJson = {
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+    byte_fallback?: boolean;
+  };
+  pre_tokenizer?: PreTokenizerJson | null;
+};
+
+const GPT2_SPLIT_PATTERN = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+const METASPACE = '\u2581';
+const MAX_CACHED_WORDS = 50000;
+// Merging is quadratic in word length; longer runs (minified code, base64) are counted in chunks.
+const MAX_BPE_WORD_SYMBOLS = 256;
+
+const tokenizerCache = new Map<string, { mtimeMs: number; tokenizer: BpeTokenizer | null }>();
+
+/** Load (and cache by mtime) a BPE tokenizer; null when the file is missing or not a BPE model. */
+export function loadBpeTokenizer(filePath: string): BpeTokenizer | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch {
+    return null;
+  }
+  const cached = tokenizerCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.tokenizer;
+  }
+  let tokenizer: BpeTokenizer | null = null;
+  try {
+    tokenizer = buildTokenizer(JSON.parse(fs.readFileSync(filePath, 'utf8')) as TokenizerJson);
+  } catch {
+    tokenizer = null;
+  }
+  tokenizerCache.set(filePath, { mtimeMs, tokenizer });
+  return tokenizer;
+}
+
+function buildTokenizer(json: TokenizerJson): BpeTokenizer | null {
+  const model = json.model;
+  if (!model || model.type !== 'BPE' || !model.vocab || !Array.isArray(model.merges)) {
+    return null;
+  }
+  const vocab = new Map(Object.entries(model.vocab));
+  const ranks = new Map<string, number>();
+  model.merges.forEach((merge, index) => {
+    const key = Array.isArray(merge) ? `${merge[0]} ${merge[1]}` : merge;
+    if (!ranks.has(key)) {
+      ranks.set(key, index);
+    }
+  });
+
+  const preTokenizers = flattenPreTokenizers(json.pre_tokenizer);
+  const byteLevel = preTokenizers.some((item) => item.type === 'ByteLevel');
+  const wordCache = new Map<string, number>();
+  const countWord = (word: string, byteFallback: boolean): number => {
+    const cached = wordCache.get(word);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const count = countBpeSymbols(word, vocab, ranks, byteFallback);
+    if (wordCache.size >= MAX_CACHED_WORDS) {
+      wordCache.clear();
+    }
+    wordCache.set(word, count);
+    return count;
+  };
+
+  if (byteLevel) {
+    const split = buildSplitPattern(preTokenizers);
+    const byteMap = buildByteToUnicode();
+    const encoder = new TextEncoder();
+    return {
+      countTokens: (text) => {
+        let total = 0;
+        for (const match of text.matchAll(split)) {
+          const bytes = encoder.encode(match[0]);
+          let word = '';
+          bytes.forEach((byte) => {
+            word += byteMap[byte];
+          });
+          total += countWord(word, false);
+        }
+        return total;
+      }
+    };
+  }
+
+  // SentencePiece style: spaces become `▁`, a leading `▁` is added, words start at each `▁`.
+  const byteFallback = model.byte_fallback === true;
+  return {
+    countTokens: (text) => {
+      if (!text) {
+        return 0;
+      }
+      const normalized = METASPACE + text.replace(/ /g, METASPACE);
+      return normalized
+        .split(new RegExp(`(?=${METASPACE})`, 'u'))
+        .reduce((total, piece) => total + (piece ? countWord(piece, byteFallback) : 0), 0);
+    }
+  };
+}
+
+/** Merge adjacent symbols by rank until no ranked pair remains; return the symbol count. */
+function countBpeSymbols(
+  word: string,
+  vocab: Map<string, number>,
+  ranks: Map<string, number>,
+  byteFallback: boolean
+): number {
+  if (vocab.has(word)) {
+    return 1;
+  }
+  const symbols = Array.from(word);
+  if (symbols.length > MAX_BPE_WORD_SYMBOLS) {
+    // A merge never spans a chunk boundary, so this overcounts by at most one token per chunk.
+    let total = 0;
+    for (let start = 0; start < symbols.length; start += MAX_BPE_WORD_SYMBOLS) {
+      total += countBpeSymbols(symbols.slice(start, start + MAX_BPE_WORD_SYMBOLS).join(''), vocab, ranks, byteFallback);
+    }
+    return total;
+  }
+  while (symbols.length > 1) {
+    let bestRank = Infinity;
+    let bestIndex = -1;
+    for (let i = 0; i < symbols.length - 1; i += 1) {
+      const rank = ranks.get(`${symbols[i]} ${symbols[i + 1]}`);
+      if (rank !== undefined && rank < bestRank) {
+        bestRank = rank;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex < 0) {
+      break;
+    }
+    const first = symbols[bestIndex];
+    const second = symbols[bestIndex + 1];
+    // Merge every occurrence of the best pair in one pass, left to right.
+    for (let i = 0; i < symbols.length - 1; i += 1) {
+      if (symbols[i] === first && symbols[i + 1] === second) {
+        symbols.splice(i, 2, first + second);
+      }
+    }
+  }
+  if (!byteFallback) {
+    return symbols.length;
+  }
+  // Unknown symbols fall back to one `<0xNN>` token per UTF-8 byte.
+  return symbols.reduce((total, symbol) => total + (vocab.has(symbol) ? 1 : Buffer.byteLength(symbol, 'utf8')), 0);
+}
+
+function flattenPreTokenizers(preTokenizer: PreTokenizerJson | null | undefined): PreTokenizerJson[] {
+  if (!preTokenizer) {
+    return [];
+  }
+  if (preTokenizer.type === 'Sequence') {
+    return (preTokenizer.pretokenizers ?? []).flatMap((item) => flattenPreTokenizers(item));
+  }
+  return [preTokenizer];
+}
+
+/** The tokenizer's own split regex when JavaScript can compile it, else the GPT-2 pattern. */
+function buildSplitPattern(preTokenizers: PreTokenizerJson[]): RegExp {
+  const source = preTokenizers.find((item) => item.type === 'Split' && item.pattern?.Regex)?.pattern?.Regex;
+  if (!source) {
+    return GPT2_SPLIT_PATTERN;
+  }
+  try {
+    // JavaScript has no inline `(?i:...)` groups; the contraction alternatives only lose case-insensitivity.
+    return new RegExp(source.replace(/\(\?i:/g, '(?:'), 'gu');
+  } catch {
+    return GPT2_SPLIT_PATTERN;
+  }
+}
+
+/** GPT-2's reversible byte-to-printable-character table used by byte-level vocabularies. */
+function buildByteToUnicode(): string[] {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b += 1) {
+    printable.push(b);
+  }
+  for (let b = 161; b <= 172; b += 1) {
+    printable.push(b);
+  }
+  for (let b = 174; b <= 255; b += 1) {
+    printable.push(b);
+  }
+  const table: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b += 1) {
+    if (printable.includes(b)) {
+      table[b] = String.fromCharCode(b);
+    } else {
+      table[b] = String.fromCharCode(256 + extra);
+      extra += 1;
+    }
+  }
+  return table;
+}
@@ -1,15 +1,21 @@
 /**
- * LangChain-backed OpenAI-compatible chat client.
+ * Chat client over pluggable LLM providers.
  *
- * Forge intentionally targets *OpenAI-compatible* servers (vLLM, Ollama, OpenAI API).
- * We keep higher-level orchestration (planning, file updates, validation loops)
- * inside Forge, but delegate the low-level HTTP + streaming details to LangChain.
+ * Forge keeps higher-level orchestration (planning, file updates, validation loops) in one
+ * place; the provider selected by `LLMConfig.provider` handles the wire format: OpenAI-compatible
+ * servers through LangChain, or Ollama and llama.cpp through their native APIs. Chat requests go
+ * through the run recorder (exchanges.ts), the optional response cache (responseCache.ts), then the
+ * config's failover chain (failover.ts).
  */
-import { ChatOpenAI } from '@langchain/openai';
-import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import type { LLMConfig, ResolvedLLMConfig } from './config';
 import { resolveLLMConfig } from './config';
-import { parseTokenLimitFromError, trimMessagesToTokenBudget } from './tokenBudget';
+import { discoverContextLimit } from './contextLimits';
+import { withExchangeLog } from './exchanges';
+import { runWithFailover } from './failover';
+import { getLLMProvider, type ChatRequestOptions, type LLMCapabilities } from './providers';
+import { withResponseCache } from './responseCache';
+import { estimateMessagesTokens, parseTokenLimitFromError, trimMessagesToTokenBudget } from './tokenBudget';
+import { resolveTokenCounter } from './tokenizers';
 
 export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
 
@@ -22,39 +28,61 @@ export type ChatCompletionResponse = {
   error?: { message?: string };
 };
 
-type CachedModel = {
-  model: ChatOpenAI;
-  streaming: boolean;
-};
-
-const modelCache = new Map<string, CachedModel>();
+// The ratio estimate can undercount code by ~2x; below this share of the limit trimming cannot trigger.
+const EXACT_COUNT_THRESHOLD = 0.4;
 
-/** Ping the LLM /models endpoint to keep it warm. */
+/** Ping the LLM model listing endpoint to keep it warm. */
 export async function pingLLM(config: LLMConfig = {}): Promise<void> {
+  // We don't care about the payload, only whether the endpoint is reachable.
+  await listLLMModels(config);
+}
+
+/** List the models the configured backend serves. */
+export async function listLLMModels(config: LLMConfig = {}, signal?: AbortSignal): Promise<string[]> {
   const resolved = resolveLLMConfig(config);
-  const url = new URL(resolved.endpoint.replace(/\/$/, '') + '/models');
+  const timeout = withTimeout(resolved.timeoutMs, signal);
+  try {
+    return await getLLMProvider(resolved.provider).listModels(resolved, timeout.signal);
+  } finally {
+    timeout.dispose();
+  }
+}
 
-  const timeout = withTimeout(resolved.timeoutMs, undefined);
+/** Embed texts with the configured backend; one vector per input, in order. */
+export async function embedTexts(config: LLMConfig, inputs: string[], signal?: AbortSignal): Promise<number[][]> {
+  const resolved = resolveLLMConfig(config);
+  const timeout = withTimeout(resolved.timeoutMs, signal);
   try {
-    const response = await fetch(url, { method: 'GET', signal: timeout.signal });
-    // We don't care about the payload, only whether the endpoint is reachable.
-    if (!response.ok) {
-      const body = await safeReadText(response);
-      throw new Error(`HTTP ${response.status}: ${body}`);
-    }
+    return await getLLMProvider(resolved.provider).embed(resolved, inputs, timeout.signal);
   } finally {
     timeout.dispose();
   }
 }
 
+/** Static capabilities of the provider a config resolves to. */
+export function getLLMCapabilities(config: LLMConfig = {}): LLMCapabilities {
+  return getLLMProvider(resolveLLMConfig(config).provider).capabilities;
+}
+
 /** Call a non-streaming chat completion request. */
 export async function callChatCompletion(
   config: LLMConfig,
   messages: ChatMessage[],
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options?: ChatRequestOptions
 ): Promise<ChatCompletionResponse> {
   const resolved = resolveLLMConfig(config);
-  return requestChatCompletion(resolved, messages, signal);
+  const content = await withExchangeLog(resolved, messages, options, false, () =>
+    withResponseCache(resolved, messages, options, async () => {
+      const response = await runWithFailover(
+        resolved,
+        (target) => requestChatCompletion(target, messages, signal, true, options),
+        signal
+      );
+      return response.choices?.[0]?.message?.content ?? '';
+    })
+  );
+  return { choices: [{ message: { content } }] };
 }
 
 /** Call a streaming chat completion request and emit deltas. */
@@ -65,22 +93,47 @@ export async function callChatCompletionStream(
   signal?: AbortSignal
 ): Promise<string> {
   const resolved = resolveLLMConfig(config);
-  return requestChatCompletionStream(resolved, messages, onDelta, signal);
+  let emitted = false;
+  const emit = (text: string) => {
+    emitted = true;
+    onDelta(text);
+  };
+  // Once text reached the caller, switching endpoints would splice two different answers.
+  return withExchangeLog(
+    resolved,
+    messages,
+    undefined,
+    true,
+    () =>
+      withResponseCache(
+        resolved,
+        messages,
+        undefined,
+        () =>
+          runWithFailover(
+            resolved,
+            (target) => requestChatCompletionStream(target, messages, emit, signal),
+            signal,
+            () => !emitted
+          ),
+        onDelta
+      ),
+    onDelta
+  );
 }
 
 async function requestChatCompletion(
   config: ResolvedLLMConfig,
   messages: ChatMessage[],
   signal?: AbortSignal,
-  retryOnTokenLimit: boolean = true
+  retryOnTokenLimit: boolean = true,
+  options?: ChatRequestOptions
 ): Promise<ChatCompletionResponse> {
-  const prepared = applyTokenBudget(config, messages);
-  const model = getChatModel(config, { streaming: false });
   const timeout = withTimeout(config.timeoutMs, signal);
 
   try {
-    const result = await model.invoke(toLangChainMessages(prepared.messages), { signal: timeout.signal });
-    const content = normalizeLangChainContent((result as unknown as AIMessage).content);
+    const prepared = await applyTokenBudget(config, messages, timeout.signal);
+    const content = await getLLMProvider(config.provider).chat(config, prepared.messages, timeout.signal, options);
     return { choices: [{ message: { content } }] };
   } catch (error) {
     // When vLLM/Ollama reject an oversized prompt, they commonly include the max
@@ -89,7 +142,7 @@ async function requestChatCompletion(
       const maxTokens = parseTokenLimitFromError(String(error));
       if (maxTokens) {
         const trimmed = trimMessagesToTokenBudget(messages, maxTokens);
-        return requestChatCompletion({ ...config, maxInputTokens: maxTokens }, trimmed.messages, signal, false);
+        return requestChatCompletion({ ...config, maxInputTokens: maxTokens }, trimmed.messages, signal, false, options);
       }
     }
     throw error;
@@ -105,22 +158,11 @@ async function requestChatCompletionStream(
   signal?: AbortSignal,
   retryOnTokenLimit: boolean = true
 ): Promise<string> {
-  const prepared = applyTokenBudget(config, messages);
-  const model = getChatModel(config, { streaming: true });
   const timeout = withTimeout(config.timeoutMs, signal);
 
   try {
-    const stream = await model.stream(toLangChainMessages(prepared.messages), { signal: timeout.signal });
-    let fullText = '';
-    for await (const chunk of stream) {
-      const delta = normalizeLangChainContent((chunk as unknown as AIMessage).content);
-      if (!delta) {
-        continue;
-      }
-      fullText += delta;
-      onDelta(delta);
-    }
-    return fullText;
+    const prepared = await applyTokenBudget(config, messages, timeout.signal);
+    return await getLLMProvider(config.provider).stream(config, prepared.messages, onDelta, timeout.signal);
   } catch (error) {
     if (retryOnTokenLimit) {
       const maxTokens = parseTokenLimitFromError(String(error));
@@ -135,76 +177,25 @@ async function requestChatCompletionStream(
   }
 }
 
-function applyTokenBudget(
+/**
+ * Trim to the model's input budget: the configured limit, else the context length the server
+ * reports. Exact counting (tokenizer pass or server round-trip) only runs near the limit.
+ */
+async function applyTokenBudget(
   config: ResolvedLLMConfig,
-  messages: ChatMessage[]
-): { messages: ChatMessage[]; trimmed: boolean; estimatedTokens: number } {
-  if (!config.maxInputTokens) {
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<{ messages: ChatMessage[]; trimmed: boolean; estimatedTokens: number }> {
+  const maxTokens = config.maxInputTokens ?? (await discoverContextLimit(config, signal));
+  if (!maxTokens) {
     return { messages, trimmed: false, estimatedTokens: 0 };
   }
-  return trimMessagesToTokenBudget(messages, config.maxInputTokens);
-}
-
-function getChatModel(config: ResolvedLLMConfig, options: { streaming: boolean }): ChatOpenAI {
-  // OpenAI client expects a baseURL without a trailing slash.
-  const baseURL = config.endpoint.replace(/\/$/, '');
-
-  // Many local OpenAI-compatible servers ignore auth, but OpenAI requires it.
-  // We provide a harmless placeholder key for local setups when one isn't set.
-  const apiKey = config.apiKey ?? 'local';
-
-  const cacheKey = `${baseURL}|${config.model}|${apiKey}|${config.timeoutMs}|${options.streaming ? 'stream' : 'nostream'}`;
-  const cached = modelCache.get(cacheKey);
-  if (cached && cached.streaming === options.streaming) {
-    return cached.model;
+  const estimatedTokens = estimateMessagesTokens(messages);
+  if (estimatedTokens < maxTokens * EXACT_COUNT_THRESHOLD) {
+    return { messages, trimmed: false, estimatedTokens };
   }
-
-  const model = new ChatOpenAI({
-    modelName: config.model,
-    temperature: 0,
-    streaming: options.streaming,
-    openAIApiKey: apiKey,
-    timeout: config.timeoutMs,
-    configuration: {
-      baseURL
-    }
-  });
-
-  modelCache.set(cacheKey, { model, streaming: options.streaming });
-  return model;
-}
-
-function toLangChainMessages(messages: ChatMessage[]): BaseMessage[] {
-  return messages.map((message) => {
-    if (message.role === 'system') {
-      return new SystemMessage(message.content);
-    }
-    if (message.role === 'assistant') {
-      return new AIMessage(message.content);
-    }
-    return new HumanMessage(message.content);
-  });
-}
-
-function normalizeLangChainContent(content: unknown): string {
-  // LangChain content can be a string or an array of rich content parts.
-  if (typeof content === 'string') {
-    return content;
-  }
-  if (Array.isArray(content)) {
-    return content
-      .map((part) => {
-        if (typeof part === 'string') {
-          return part;
-        }
-        if (part && typeof part === 'object' && 'text' in part) {
-          return String((part as { text?: unknown }).text ?? '');
-        }
-        return '';
-      })
-      .join('');
-  }
-  return content == null ? '' : String(content);
+  const counter = await resolveTokenCounter(config, messages, signal);
+  return trimMessagesToTokenBudget(messages, maxTokens, counter);
 }
 
 function withTimeout(
@@ -244,11 +235,3 @@ function withTimeout(
     }
   };
 }
-
-async function safeReadText(response: Response): Promise<string> {
-  try {
-    return await response.text();
-  } catch {
-    return '';
-  }
-}
@@ -1,27 +1,62 @@
 /** LLM configuration types and defaults. */
 
+/** Backend API family: OpenAI-compatible `/v1`, Ollama native or llama.cpp server native. */
+export type LLMProviderKind = 'openai' | 'ollama' | 'llamacpp';
+
+/** `auto` probes the backend for schema-constrained decoding; `off` always uses prompt + repair. */
+export type GuidedDecodingMode = 'auto' | 'off';
+
+/**
+ * Token counting for the budget: `auto` tries a local tokenizer.json, then the server's
+ * /tokenize, then the characters-per-token estimate.
+ */
+export type TokenizerMode = 'auto' | 'local' | 'server' | 'estimate';
+
 export type LLMConfig = {
+  provider?: LLMProviderKind;
   endpoint?: string;
   model?: string;
   apiKey?: string;
   timeoutMs?: number;
   maxInputTokens?: number;
+  /** Sampling temperature; 0 (deterministic) unless a model route sets one. */
+  temperature?: number;
+  /** Cap on generated tokens; unset leaves the server default. */
+  maxTokens?: number;
+  /** Ollama `keep_alive` (e.g. `30m`, `-1`); ignored by providers without keep-alive control. */
+  keepAlive?: string;
+  guidedDecoding?: GuidedDecodingMode;
+  tokenizer?: TokenizerMode;
+  /** A tokenizer.json file, or a model directory containing one. */
+  tokenizerPath?: string;
+  /** Endpoints to try, in order, when this one is down or its circuit is open. */
+  fallbacks?: LLMConfig[];
 };
 
 export type ResolvedLLMConfig = {
+  provider: LLMProviderKind;
   endpoint: string;
   model: string;
   apiKey?: string;
   timeoutMs: number;
   maxInputTokens?: number;
+  temperature: number;
+  maxTokens?: number;
+  keepAlive?: string;
+  guidedDecoding: GuidedDecodingMode;
+  tokenizer: TokenizerMode;
+  tokenizerPath?: string;
+  fallbacks: ResolvedLLMConfig[];
 };
 
+export const DEFAULT_LLM_PROVIDER: LLMProviderKind = 'openai';
 export const DEFAULT_LLM_ENDPOINT = 'http://127.0.0.1:8000/v1';
 export const DEFAULT_LLM_MODEL = 'Qwen/Qwen2.5-Coder-32B-Instruct-AWQ';
 export const DEFAULT_TIMEOUT_MS = 30_000;
 
 /** Resolve LLM config by merging overrides, env vars, and defaults. */
 export function resolveLLMConfig(overrides: LLMConfig = {}): ResolvedLLMConfig {
+  const provider = overrides.provider ?? parseLLMProviderKind(process.env.FORGE_LLM_PROVIDER) ?? DEFAULT_LLM_PROVIDER;
   const endpoint = overrides.endpoint ?? process.env.FORGE_LLM_ENDPOINT ?? DEFAULT_LLM_ENDPOINT;
   const model = overrides.model ?? process.env.FORGE_LLM_MODEL ?? DEFAULT_LLM_MODEL;
   const apiKey = overrides.apiKey ?? process.env.FORGE_LLM_API_KEY;
@@ -33,12 +68,42 @@ export function resolveLLMConfig(overrides: LLMConfig = {}): ResolvedLLMConfig {
     : undefined;
   const timeoutMs = overrides.timeoutMs ?? envTimeout ?? DEFAULT_TIMEOUT_MS;
   const maxInputTokens = overrides.maxInputTokens ?? envMaxTokens;
+  const temperature = overrides.temperature ?? 0;
+  const maxTokens = overrides.maxTokens;
+  const keepAlive = (overrides.keepAlive ?? process.env.FORGE_LLM_KEEP_ALIVE ?? '').trim();
+  const guidedDecoding =
+    overrides.guidedDecoding ?? (process.env.FORGE_LLM_GUIDED_DECODING?.trim() === 'off' ? 'off' : 'auto');
+  const tokenizer = overrides.tokenizer ?? parseTokenizerMode(process.env.FORGE_LLM_TOKENIZER);
+  const tokenizerPath = (overrides.tokenizerPath ?? process.env.FORGE_LLM_TOKENIZER_PATH ?? '').trim();
 
   return {
+    provider,
     endpoint,
     model,
     apiKey: apiKey && apiKey.trim().length > 0 ? apiKey : undefined,
     timeoutMs,
-    maxInputTokens: Number.isFinite(maxInputTokens) && (maxInputTokens as number) > 0 ? maxInputTokens : undefined
+    maxInputTokens: Number.isFinite(maxInputTokens) && (maxInputTokens as number) > 0 ? maxInputTokens : undefined,
+    temperature: Number.isFinite(temperature) && temperature >= 0 ? temperature : 0,
+    maxTokens: maxTokens !== undefined && Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : undefined,
+    keepAlive: keepAlive.length > 0 ? keepAlive : undefined,
+    guidedDecoding,
+    tokenizer,
+    tokenizerPath: tokenizerPath.length > 0 ? tokenizerPath : undefined,
+    fallbacks: (overrides.fallbacks ?? []).map((fallback) => resolveLLMConfig({ ...fallback, fallbacks: undefined }))
   };
 }
+
+/** Parse a provider name from settings or env; null when unset or unknown. */
+export function parseLLMProviderKind(value: string | undefined): LLMProviderKind | null {
+  const normalized = (value ?? '').trim().toLowerCase().replace(/[^a-z]/g, '');
+  if (normalized === 'openai' || normalized === 'ollama' || normalized === 'llamacpp') {
+    return normalized;
+  }
+  return null;
+}
+
+/** Parse a tokenizer mode from settings or env; unset or unknown values mean `auto`. */
+export function parseTokenizerMode(value: string | undefined): TokenizerMode {
+  const normalized = (value ?? '').trim();
+  return normalized === 'local' || normalized === 'server' || normalized === 'estimate' ? normalized : 'auto';
+}
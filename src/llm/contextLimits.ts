@@ -0,0 +1,37 @@
+/** Per-model context limits discovered from the server (`/models`, `/api/show`, `/props`). */
+import type { ResolvedLLMConfig } from './config';
+import { getLLMProvider } from './providers';
+
+const limitCache = new Map<string, Promise<number | null>>();
+
+/**
+ * Context window for the configured model, cached per provider/endpoint/model for the session.
+ * Servers that do not report one resolve to null; an aborted lookup is not cached.
+ */
+export async function discoverContextLimit(config: ResolvedLLMConfig, signal?: AbortSignal): Promise<number | null> {
+  const key = `${config.provider}|${config.endpoint.replace(/\/$/, '')}|${config.model}`;
+  const cached = limitCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const lookup = getLLMProvider(config.provider)
+    .getContextLength(config, signal)
+    .catch((error) => {
+      if (signal?.aborted) {
+        throw error;
+      }
+      return null;
+    });
+  limitCache.set(key, lookup);
+  try {
+    return await lookup;
+  } catch (error) {
+    limitCache.delete(key);
+    throw error;
+  }
+}
+
+/** Forget discovered limits, e.g. after the endpoint or model settings change. */
+export function clearContextLimitCache(): void {
+  limitCache.clear();
+}
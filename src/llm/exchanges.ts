@@ -0,0 +1,122 @@
+/**
+ * Run-level LLM exchange log. While a run is recorded every chat request/response pair goes to the
+ * sink; while a run is replayed, recorded responses are served instead of calling the network.
+ */
+import * as crypto from 'crypto';
+import { recordStep, redactSecrets } from '../forge/trace';
+import type { ChatMessage } from './client';
+import type { ResolvedLLMConfig } from './config';
+import type { ChatRequestOptions } from './providers';
+
+export type LLMExchange = {
+  seq: number;
+  /** Hash of the messages and schema; endpoint and model are left out so replays survive setting changes. */
+  key: string;
+  provider: string;
+  endpoint: string;
+  model: string;
+  stream: boolean;
+  messages: ChatMessage[];
+  jsonSchema?: Record<string, unknown>;
+  content?: string;
+  error?: string;
+  durationMs: number;
+};
+
+type ReplayState = {
+  exchanges: LLMExchange[];
+  used: Set<number>;
+};
+
+let recordSink: ((exchange: LLMExchange) => void) | null = null;
+let replayState: ReplayState | null = null;
+let nextSeq = 0;
+
+/** Send every chat exchange to `sink` until called again with null. */
+export function recordLLMExchanges(sink: ((exchange: LLMExchange) => void) | null): void {
+  recordSink = sink;
+  nextSeq = 0;
+}
+
+/** Serve chat requests from recorded exchanges until called again with null. */
+export function replayLLMExchanges(exchanges: LLMExchange[] | null): void {
+  replayState = exchanges ? { exchanges: exchanges.filter((item) => item.content !== undefined), used: new Set() } : null;
+}
+
+/**
+ * While replaying, whether the recorded run used schema-constrained requests; null otherwise.
+ * The capability probe is skipped so it cannot consume a recorded response.
+ */
+export function getReplayedGuidedDecoding(): boolean | null {
+  return replayState ? replayState.exchanges.some((exchange) => exchange.jsonSchema !== undefined) : null;
+}
+
+/**
+ * Wrap one chat request. In replay, the first unused exchange with the same key answers it, else
+ * the next unused exchange in recorded order (prompts that embed changed context still line up).
+ */
+export async function withExchangeLog(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  options: ChatRequestOptions | undefined,
+  stream: boolean,
+  request: () => Promise<string>,
+  onReplay?: (content: string) => void
+): Promise<string> {
+  const key = hashExchange(messages, options);
+  if (replayState) {
+    const content = takeReplayed(replayState, key);
+    onReplay?.(content);
+    return content;
+  }
+  if (!recordSink) {
+    return request();
+  }
+  const sink = recordSink;
+  const startedAt = Date.now();
+  const exchange: LLMExchange = {
+    seq: nextSeq,
+    key,
+    provider: config.provider,
+    endpoint: config.endpoint,
+    model: config.model,
+    stream,
+    // Records are written to disk, so prompts and responses get the same secret masking as trace entries.
+    messages: messages.map((message) => ({ ...message, content: redactSecrets(message.content).text })),
+    jsonSchema: options?.jsonSchema,
+    durationMs: 0
+  };
+  nextSeq += 1;
+  try {
+    const content = await request();
+    sink({ ...exchange, content: redactSecrets(content).text, durationMs: Date.now() - startedAt });
+    return content;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    sink({ ...exchange, error: redactSecrets(message).text, durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
+
+function takeReplayed(state: ReplayState, key: string): string {
+  const unused = state.exchanges.filter((exchange) => !state.used.has(exchange.seq));
+  const exact = unused.find((exchange) => exchange.key === key);
+  const match = exact ?? unused[0];
+  if (!match) {
+    throw new Error('Replay has no recorded LLM response left for this request.');
+  }
+  state.used.add(match.seq);
+  recordStep(
+    exact ? 'Replayed LLM response' : 'Replayed LLM response (prompt changed)',
+    `#${match.seq} ${match.model}`
+  );
+  return match.content ?? '';
+}
+
+function hashExchange(messages: ChatMessage[], options: ChatRequestOptions | undefined): string {
+  const material = JSON.stringify({
+    messages: messages.map((message) => [message.role, message.content]),
+    jsonSchema: options?.jsonSchema ?? null
+  });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
@@ -0,0 +1,244 @@
+/**
+ * Endpoint failover for chat requests: each config's fallback chain is tried in order, transient
+ * errors are retried with backoff, and a circuit breaker skips endpoints after consecutive failures.
+ */
+import type { ResolvedLLMConfig } from './config';
+
+export type FailoverOptions = {
+  /** Retries per endpoint for transient errors (5xx, 429, connection failures). */
+  retries: number;
+  /** Consecutive failures that open an endpoint's circuit. */
+  failureThreshold: number;
+  /** How long an open circuit skips the endpoint before it is tried again. */
+  cooldownMs: number;
+};
+
+export type EndpointHealth = {
+  key: string;
+  endpoint: string;
+  model: string;
+  consecutiveFailures: number;
+  /** Epoch ms until which the circuit is open; 0 when closed. */
+  openUntil: number;
+  lastError?: string;
+  lastSuccessAt?: number;
+};
+
+type ErrorClass = 'retry' | 'failover' | 'fatal';
+
+const DEFAULT_FAILOVER_OPTIONS: FailoverOptions = { retries: 2, failureThreshold: 3, cooldownMs: 30_000 };
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const CONNECTION_CODES = /^(ECONNREFUSED|ECONNRESET|EPIPE|ETIMEDOUT|EHOSTUNREACH|ENETUNREACH|ENOTFOUND|EAI_AGAIN|UND_ERR_\w+)$/;
+const CONNECTION_MESSAGE = /fetch failed|socket hang up|connection error|ECONNREFUSED|ECONNRESET|network/i;
+
+let failoverOptions: FailoverOptions = DEFAULT_FAILOVER_OPTIONS;
+const healthByKey = new Map<string, EndpointHealth>();
+const listeners = new Set<() => void>();
+let liveKey: string | null = null;
+
+/** Override retry and circuit-breaker thresholds; missing fields keep their defaults. */
+export function configureFailover(options: Partial<FailoverOptions>): void {
+  failoverOptions = { ...DEFAULT_FAILOVER_OPTIONS, ...options };
+}
+
+/**
+ * Run a request against the config's endpoint chain. Endpoints with an open circuit go last, so a
+ * request still has somewhere to go when every circuit is open. `canFailover` returning false
+ * (e.g. a stream that already emitted text) stops after the current endpoint.
+ */
+export async function runWithFailover<T>(
+  config: ResolvedLLMConfig,
+  call: (target: ResolvedLLMConfig) => Promise<T>,
+  signal?: AbortSignal,
+  canFailover: () => boolean = () => true
+): Promise<T> {
+  const chain = [config, ...config.fallbacks];
+  const now = Date.now();
+  const ordered = [
+    ...chain.filter((target) => !isCircuitOpen(target, now)),
+    ...chain.filter((target) => isCircuitOpen(target, now))
+  ];
+
+  let lastError: unknown;
+  for (const target of ordered) {
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        const result = await call(target);
+        recordEndpointSuccess(target, true);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        const kind = classifyError(error);
+        if (kind === 'fatal') {
+          // The server answered; the request itself is the problem and would fail anywhere.
+          throw error;
+        }
+        lastError = error;
+        if (kind === 'retry' && attempt < failoverOptions.retries && canFailover()) {
+          await sleep(Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt), signal);
+          continue;
+        }
+        break;
+      }
+    }
+    recordEndpointFailure(target, lastError);
+    if (!canFailover()) {
+      break;
+    }
+  }
+  throw lastError;
+}
+
+/** Record a successful request or health check; closes the endpoint's circuit. */
+export function recordEndpointSuccess(config: ResolvedLLMConfig, served: boolean = false): void {
+  const health = getOrCreateHealth(config);
+  health.consecutiveFailures = 0;
+  health.openUntil = 0;
+  health.lastError = undefined;
+  health.lastSuccessAt = Date.now();
+  if (served) {
+    liveKey = health.key;
+  }
+  notifyListeners();
+}
+
+/** Record a failed request or health check; opens the circuit at the failure threshold. */
+export function recordEndpointFailure(config: ResolvedLLMConfig, error: unknown): void {
+  const health = getOrCreateHealth(config);
+  health.consecutiveFailures += 1;
+  health.lastError = error instanceof Error ? error.message : String(error);
+  if (health.consecutiveFailures >= failoverOptions.failureThreshold) {
+    health.openUntil = Date.now() + failoverOptions.cooldownMs;
+  }
+  notifyListeners();
+}
+
+/** Health of every endpoint seen so far, in first-seen order. */
+export function getEndpointHealth(): EndpointHealth[] {
+  return Array.from(healthByKey.values()).map((health) => ({ ...health }));
+}
+
+/** The endpoint that served the most recent request, if any. */
+export function getLiveEndpoint(): EndpointHealth | null {
+  const health = liveKey ? healthByKey.get(liveKey) : undefined;
+  return health ? { ...health } : null;
+}
+
+/** Whether an endpoint's circuit is currently open. */
+export function isEndpointOpen(health: EndpointHealth, now: number = Date.now()): boolean {
+  return health.openUntil > now;
+}
+
+/** Subscribe to health changes; returns an unsubscribe function. */
+export function onEndpointHealthChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Forget endpoint health, e.g. after the routed endpoints change. */
+export function clearEndpointHealth(): void {
+  healthByKey.clear();
+  liveKey = null;
+  notifyListeners();
+}
+
+function isCircuitOpen(config: ResolvedLLMConfig, now: number): boolean {
+  const health = healthByKey.get(endpointKey(config));
+  return health ? isEndpointOpen(health, now) : false;
+}
+
+/**
+ * `retry`: transient (5xx, 429, dropped connection); `failover`: this endpoint cannot serve the
+ * request (timeout, unknown model, other 5xx); `fatal`: anything else, such as a rejected prompt.
+ */
+function classifyError(error: unknown): ErrorClass {
+  const status = readStatus(error);
+  if (status !== null) {
+    if (RETRY_STATUSES.has(status)) {
+      return 'retry';
+    }
+    return status >= 500 || status === 404 ? 'failover' : 'fatal';
+  }
+  if (isTimeout(error)) {
+    return 'failover';
+  }
+  const code = readCode(error);
+  if (code && CONNECTION_CODES.test(code)) {
+    return 'retry';
+  }
+  return CONNECTION_MESSAGE.test(error instanceof Error ? error.message : String(error)) ? 'retry' : 'fatal';
+}
+
+function readStatus(error: unknown): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+  // Native providers throw `HTTP 503: ...`; the OpenAI SDK says `503 status code (no body)`.
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/^HTTP (\d{3})\b/) ?? message.match(/^(\d{3}) status code\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function readCode(error: unknown): string | null {
+  let current: unknown = error;
+  for (let depth = 0; depth < 3 && current && typeof current === 'object'; depth += 1) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+}
+
+/** The per-request timeout aborts with an AbortError (or the SDK's timeout error) while the caller's signal is live. */
+function isTimeout(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name;
+  const message = error instanceof Error ? error.message : String(error);
+  return name === 'AbortError' || name === 'APIConnectionTimeoutError' || /timed? ?out|aborted/i.test(message);
+}
+
+function endpointKey(config: ResolvedLLMConfig): string {
+  return `${config.provider}|${config.endpoint.replace(/\/$/, '')}|${config.model}`;
+}
+
+function getOrCreateHealth(config: ResolvedLLMConfig): EndpointHealth {
+  const key = endpointKey(config);
+  let health = healthByKey.get(key);
+  if (!health) {
+    health = {
+      key,
+      endpoint: config.endpoint.replace(/\/$/, ''),
+      model: config.model,
+      consecutiveFailures: 0,
+      openUntil: 0
+    };
+    healthByKey.set(key, health);
+  }
+  return health;
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Capability probe for schema-constrained decoding. The first structured request per
+ * provider/endpoint/model sends a tiny schema-constrained request; the answer is cached for the session.
+ */
+import { callChatCompletion } from './client';
+import type { LLMConfig } from './config';
+import { resolveLLMConfig } from './config';
+import { getReplayedGuidedDecoding } from './exchanges';
+import { getLLMProvider } from './providers';
+
+const PROBE_SCHEMA = {
+  type: 'object',
+  properties: { ok: { type: 'boolean' } },
+  required: ['ok'],
+  additionalProperties: false
+};
+const PROBE_MAX_TOKENS = 32;
+
+const probeCache = new Map<string, Promise<boolean>>();
+
+/**
+ * Whether the backend accepts a JSON schema for constrained decoding. Unsupported providers and
+ * `guidedDecoding: off` skip the probe; an aborted probe is not cached.
+ */
+export async function supportsGuidedDecoding(config: LLMConfig = {}, signal?: AbortSignal): Promise<boolean> {
+  const replayed = getReplayedGuidedDecoding();
+  if (replayed !== null) {
+    return replayed;
+  }
+  const resolved = resolveLLMConfig(config);
+  if (resolved.guidedDecoding === 'off' || !getLLMProvider(resolved.provider).capabilities.structuredOutput) {
+    return false;
+  }
+  const key = `${resolved.provider}|${resolved.endpoint.replace(/\/$/, '')}|${resolved.model}`;
+  const cached = probeCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const probe = runProbe(config, signal);
+  probeCache.set(key, probe);
+  try {
+    return await probe;
+  } catch (error) {
+    probeCache.delete(key);
+    throw error;
+  }
+}
+
+/** Forget probe results, e.g. after the endpoint or model settings change. */
+export function clearGuidedDecodingCache(): void {
+  probeCache.clear();
+}
+
+async function runProbe(config: LLMConfig, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const response = await callChatCompletion(
+      config,
+      [{ role: 'user', content: 'Reply with the JSON object {"ok": true} and nothing else.' }],
+      signal,
+      { jsonSchema: PROBE_SCHEMA, maxTokens: PROBE_MAX_TOKENS }
+    );
+    const content = response.choices?.[0]?.message?.content?.trim() ?? '';
+    const parsed = JSON.parse(content) as { ok?: unknown };
+    return typeof parsed.ok === 'boolean';
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    // Rejected parameter (HTTP 400), unknown endpoint or unconstrained output.
+    return false;
+  }
+}
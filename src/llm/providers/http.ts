@@ -0,0 +1,101 @@
+/** Fetch helpers shared by the native (non-OpenAI) provider implementations. */
+
+export type HttpOptions = {
+  apiKey?: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * Root URL for a native API. Endpoints are usually configured for the OpenAI shim
+ * (`http://host:11434/v1`), so a trailing `/v1` is dropped.
+ */
+export function nativeBaseUrl(endpoint: string): string {
+  return endpoint.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/** POST a JSON body; non-2xx responses throw `HTTP <status>: <body>` so callers can parse limits. */
+export async function postJson(url: string, body: unknown, options: HttpOptions = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: buildHeaders(options.apiKey, true),
+    body: JSON.stringify(body),
+    signal: options.signal
+  });
+  await assertOk(response);
+  return response;
+}
+
+/** GET and parse a JSON response. */
+export async function getJson<T>(url: string, options: HttpOptions = {}): Promise<T> {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: buildHeaders(options.apiKey, false),
+    signal: options.signal
+  });
+  await assertOk(response);
+  return (await response.json()) as T;
+}
+
+/** Read a streamed response body line by line (NDJSON or server-sent events). */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        onLine(line);
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) {
+    onLine(rest);
+  }
+}
+
+/** Parse one JSON line, throwing on an `error` field some servers send mid-stream. */
+export function parseJsonLine<T>(line: string): T {
+  const parsed = JSON.parse(line) as T & { error?: unknown };
+  if (parsed && typeof parsed === 'object' && parsed.error) {
+    const error = parsed.error as { message?: string } | string;
+    throw new Error(typeof error === 'string' ? error : error.message ?? JSON.stringify(error));
+  }
+  return parsed;
+}
+
+function buildHeaders(apiKey: string | undefined, json: boolean): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+async function assertOk(response: Response): Promise<void> {
+  if (response.ok) {
+    return;
+  }
+  let body = '';
+  try {
+    body = await response.text();
+  } catch {
+    // Keep the status alone.
+  }
+  throw new Error(`HTTP ${response.status}: ${body}`);
+}
@@ -0,0 +1,61 @@
+/** LLM provider interface and registry: one implementation per backend API family. */
+import type { ChatMessage } from '../client';
+import type { LLMProviderKind, ResolvedLLMConfig } from '../config';
+import { llamaCppProvider } from './llamacpp';
+import { ollamaProvider } from './ollama';
+import { openAIProvider } from './openai';
+
+export type LLMCapabilities = {
+  /**
+   * How the backend takes a JSON schema for constrained decoding: vLLM `guided_json`, Ollama
+   * `format`, llama.cpp `json_schema` (compiled to a GBNF grammar by the server).
+   */
+  structuredOutput: 'guided_json' | 'format' | 'grammar' | null;
+  embeddings: boolean;
+  modelListing: boolean;
+  /** Honors `keepAlive` (how long the server keeps the model loaded). */
+  keepAlive: boolean;
+};
+
+export type ChatRequestOptions = {
+  /** Constrain the output to this JSON schema (only when the provider reports structured output). */
+  jsonSchema?: Record<string, unknown>;
+  maxTokens?: number;
+};
+
+export type LLMProvider = {
+  kind: LLMProviderKind;
+  capabilities: LLMCapabilities;
+  /** Return the full assistant message. */
+  chat: (
+    config: ResolvedLLMConfig,
+    messages: ChatMessage[],
+    signal?: AbortSignal,
+    options?: ChatRequestOptions
+  ) => Promise<string>;
+  /** Emit deltas as they arrive and return the full assistant message. */
+  stream: (
+    config: ResolvedLLMConfig,
+    messages: ChatMessage[],
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  /** One vector per input, in order. */
+  embed: (config: ResolvedLLMConfig, inputs: string[], signal?: AbortSignal) => Promise<number[][]>;
+  listModels: (config: ResolvedLLMConfig, signal?: AbortSignal) => Promise<string[]>;
+  /** Context window of the configured model as the server reports it; null when unknown. */
+  getContextLength: (config: ResolvedLLMConfig, signal?: AbortSignal) => Promise<number | null>;
+  /** Exact token count from the server's tokenizer, for backends that expose one. */
+  countTokens?: (config: ResolvedLLMConfig, text: string, signal?: AbortSignal) => Promise<number>;
+};
+
+const LLM_PROVIDERS: Record<LLMProviderKind, LLMProvider> = {
+  openai: openAIProvider,
+  ollama: ollamaProvider,
+  llamacpp: llamaCppProvider
+};
+
+/** Look up the provider implementation for a resolved config. */
+export function getLLMProvider(kind: LLMProviderKind): LLMProvider {
+  return LLM_PROVIDERS[kind] ?? openAIProvider;
+}
@@ -0,0 +1,142 @@
+/**
+ * llama.cpp server native provider. Messages are rendered with the server's own chat template
+ * (`/apply-template`) and sent to `/completion`, which accepts GBNF grammars and prompt caching.
+ */
+import type { ChatMessage } from '../client';
+import type { ResolvedLLMConfig } from '../config';
+import { getJson, nativeBaseUrl, parseJsonLine, postJson, readLines } from './http';
+import type { LLMProvider } from './index';
+
+type CompletionChunk = {
+  content?: string;
+  stop?: boolean;
+};
+
+type EmbeddingItem = {
+  embedding?: number[] | number[][];
+};
+
+export const llamaCppProvider: LLMProvider = {
+  kind: 'llamacpp',
+  capabilities: {
+    structuredOutput: 'grammar',
+    embeddings: true,
+    modelListing: true,
+    keepAlive: false
+  },
+  chat: async (config, messages, signal, options = {}) => {
+    const prompt = await applyChatTemplate(config, messages, signal);
+    const body = buildCompletionBody(config, prompt, false, options.maxTokens);
+    if (options.jsonSchema) {
+      // The server compiles the schema to a GBNF grammar.
+      body.json_schema = options.jsonSchema;
+    }
+    const response = await postJson(`${nativeBaseUrl(config.endpoint)}/completion`, body, {
+      apiKey: config.apiKey,
+      signal
+    });
+    return parseJsonLine<CompletionChunk>(await response.text()).content ?? '';
+  },
+  stream: async (config, messages, onDelta, signal) => {
+    const prompt = await applyChatTemplate(config, messages, signal);
+    const response = await postJson(`${nativeBaseUrl(config.endpoint)}/completion`, buildCompletionBody(config, prompt, true), {
+      apiKey: config.apiKey,
+      signal
+    });
+    let fullText = '';
+    await readLines(response, (line) => {
+      // Server-sent events: `data: {...}`.
+      if (!line.startsWith('data:')) {
+        return;
+      }
+      const data = line.slice('data:'.length).trim();
+      if (!data || data === '[DONE]') {
+        return;
+      }
+      const delta = parseJsonLine<CompletionChunk>(data).content ?? '';
+      if (!delta) {
+        return;
+      }
+      fullText += delta;
+      onDelta(delta);
+    });
+    return fullText;
+  },
+  embed: async (config, inputs, signal) => {
+    const response = await postJson(
+      `${nativeBaseUrl(config.endpoint)}/embedding`,
+      { content: inputs },
+      { apiKey: config.apiKey, signal }
+    );
+    const payload = (await response.json()) as EmbeddingItem[] | EmbeddingItem;
+    // Newer servers return one item per input; with pooling disabled each item holds per-token rows.
+    const items = Array.isArray(payload) ? payload : [payload];
+    return items.map((item) => {
+      const embedding = item.embedding ?? [];
+      return Array.isArray(embedding[0]) ? (embedding[0] as number[]) : (embedding as number[]);
+    });
+  },
+  listModels: async (config, signal) => {
+    // The server hosts a single model; report the file it loaded.
+    const props = await getJson<{ model_path?: string; default_generation_settings?: { model?: string } }>(
+      `${nativeBaseUrl(config.endpoint)}/props`,
+      { apiKey: config.apiKey, signal }
+    );
+    const model = props.model_path ?? props.default_generation_settings?.model ?? '';
+    return model ? [model.split(/[\\/]/).pop() ?? model] : [];
+  },
+  getContextLength: async (config, signal) => {
+    const props = await getJson<{ n_ctx?: number; default_generation_settings?: { n_ctx?: number } }>(
+      `${nativeBaseUrl(config.endpoint)}/props`,
+      { apiKey: config.apiKey, signal }
+    );
+    const value = Number(props.default_generation_settings?.n_ctx ?? props.n_ctx);
+    return Number.isFinite(value) && value > 0 ? value : null;
+  },
+  countTokens: async (config, text, signal) => {
+    const response = await postJson(
+      `${nativeBaseUrl(config.endpoint)}/tokenize`,
+      { content: text },
+      { apiKey: config.apiKey, signal }
+    );
+    const payload = (await response.json()) as { tokens?: unknown[] };
+    if (!Array.isArray(payload.tokens)) {
+      throw new Error('Tokenize response had no tokens.');
+    }
+    return payload.tokens.length;
+  }
+};
+
+async function applyChatTemplate(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await postJson(`${nativeBaseUrl(config.endpoint)}/apply-template`, { messages }, {
+    apiKey: config.apiKey,
+    signal
+  });
+  const payload = (await response.json()) as { prompt?: string };
+  if (typeof payload.prompt !== 'string') {
+    throw new Error('llama.cpp server did not return a prompt from /apply-template.');
+  }
+  return payload.prompt;
+}
+
+function buildCompletionBody(
+  config: ResolvedLLMConfig,
+  prompt: string,
+  stream: boolean,
+  maxTokens: number | undefined = config.maxTokens
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    prompt,
+    stream,
+    temperature: config.temperature,
+    cache_prompt: true
+  };
+  if (maxTokens) {
+    body.n_predict = maxTokens;
+  }
+  return body;
+}
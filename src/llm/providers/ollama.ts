@@ -0,0 +1,100 @@
+/** Ollama native provider (`/api/chat`, `/api/embed`, `/api/tags`) with keep-alive control. */
+import type { ChatMessage } from '../client';
+import type { ResolvedLLMConfig } from '../config';
+import { getJson, nativeBaseUrl, parseJsonLine, postJson, readLines } from './http';
+import type { LLMProvider } from './index';
+
+type OllamaChatChunk = {
+  message?: { content?: string };
+  done?: boolean;
+};
+
+export const ollamaProvider: LLMProvider = {
+  kind: 'ollama',
+  capabilities: {
+    structuredOutput: 'format',
+    embeddings: true,
+    modelListing: true,
+    keepAlive: true
+  },
+  chat: async (config, messages, signal, options = {}) => {
+    const body = buildChatBody(config, messages, false, options.maxTokens);
+    if (options.jsonSchema) {
+      body.format = options.jsonSchema;
+    }
+    const response = await postJson(`${nativeBaseUrl(config.endpoint)}/api/chat`, body, {
+      apiKey: config.apiKey,
+      signal
+    });
+    const payload = parseJsonLine<OllamaChatChunk>(await response.text());
+    return payload.message?.content ?? '';
+  },
+  stream: async (config, messages, onDelta, signal) => {
+    const response = await postJson(`${nativeBaseUrl(config.endpoint)}/api/chat`, buildChatBody(config, messages, true), {
+      apiKey: config.apiKey,
+      signal
+    });
+    let fullText = '';
+    await readLines(response, (line) => {
+      const delta = parseJsonLine<OllamaChatChunk>(line).message?.content ?? '';
+      if (!delta) {
+        return;
+      }
+      fullText += delta;
+      onDelta(delta);
+    });
+    return fullText;
+  },
+  embed: async (config, inputs, signal) => {
+    const body: Record<string, unknown> = { model: config.model, input: inputs };
+    if (config.keepAlive) {
+      body.keep_alive = config.keepAlive;
+    }
+    const response = await postJson(`${nativeBaseUrl(config.endpoint)}/api/embed`, body, {
+      apiKey: config.apiKey,
+      signal
+    });
+    const payload = (await response.json()) as { embeddings?: number[][] };
+    return payload.embeddings ?? [];
+  },
+  listModels: async (config, signal) => {
+    const payload = await getJson<{ models?: Array<{ name?: string }> }>(`${nativeBaseUrl(config.endpoint)}/api/tags`, {
+      apiKey: config.apiKey,
+      signal
+    });
+    return (payload.models ?? []).map((item) => item.name ?? '').filter((name) => name.length > 0);
+  },
+  getContextLength: async (config, signal) => {
+    const response = await postJson(
+      `${nativeBaseUrl(config.endpoint)}/api/show`,
+      { model: config.model },
+      { apiKey: config.apiKey, signal }
+    );
+    const payload = (await response.json()) as { parameters?: string; model_info?: Record<string, unknown> };
+    // A Modelfile `num_ctx` is what the server actually runs with; else the model's trained length.
+    const numCtx = payload.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+    if (numCtx) {
+      return Number(numCtx[1]);
+    }
+    const key = Object.keys(payload.model_info ?? {}).find((name) => name.endsWith('.context_length'));
+    const value = key ? Number(payload.model_info?.[key]) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+};
+
+function buildChatBody(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  stream: boolean,
+  maxTokens: number | undefined = config.maxTokens
+): Record<string, unknown> {
+  const options: Record<string, unknown> = { temperature: config.temperature };
+  if (maxTokens) {
+    options.num_predict = maxTokens;
+  }
+  const body: Record<string, unknown> = { model: config.model, messages, stream, options };
+  if (config.keepAlive) {
+    body.keep_alive = config.keepAlive;
+  }
+  return body;
+}
@@ -0,0 +1,184 @@
+/** OpenAI-compatible provider (OpenAI, vLLM, LM Studio, TGI and other `/v1` shims) via LangChain. */
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { ChatMessage } from '../client';
+import type { ResolvedLLMConfig } from '../config';
+import { getJson, nativeBaseUrl, postJson } from './http';
+import type { ChatRequestOptions, LLMProvider } from './index';
+
+type CachedModel = {
+  model: ChatOpenAI;
+  streaming: boolean;
+};
+
+const modelCache = new Map<string, CachedModel>();
+
+export const openAIProvider: LLMProvider = {
+  kind: 'openai',
+  capabilities: {
+    structuredOutput: 'guided_json',
+    embeddings: true,
+    modelListing: true,
+    keepAlive: false
+  },
+  chat: async (config, messages, signal, options = {}) => {
+    // LangChain keeps its own max-token setting per cached model, so per-request caps go raw too.
+    if (options.jsonSchema || options.maxTokens) {
+      return requestRawChat(config, messages, signal, options);
+    }
+    const model = getChatModel(config, { streaming: false });
+    const result = await model.invoke(toLangChainMessages(messages), { signal });
+    return normalizeLangChainContent((result as unknown as AIMessage).content);
+  },
+  stream: async (config, messages, onDelta, signal) => {
+    const model = getChatModel(config, { streaming: true });
+    const stream = await model.stream(toLangChainMessages(messages), { signal });
+    let fullText = '';
+    for await (const chunk of stream) {
+      const delta = normalizeLangChainContent((chunk as unknown as AIMessage).content);
+      if (!delta) {
+        continue;
+      }
+      fullText += delta;
+      onDelta(delta);
+    }
+    return fullText;
+  },
+  embed: async (config, inputs) => {
+    const embeddings = new OpenAIEmbeddings({
+      modelName: config.model,
+      openAIApiKey: config.apiKey ?? 'local',
+      timeout: config.timeoutMs,
+      configuration: {
+        baseURL: config.endpoint.replace(/\/$/, '')
+      }
+    });
+    return embeddings.embedDocuments(inputs);
+  },
+  listModels: async (config, signal) => {
+    const url = config.endpoint.replace(/\/$/, '') + '/models';
+    const payload = await getJson<{ data?: Array<{ id?: string }> }>(url, { apiKey: config.apiKey, signal });
+    return (payload.data ?? []).map((item) => item.id ?? '').filter((id) => id.length > 0);
+  },
+  getContextLength: async (config, signal) => {
+    const url = config.endpoint.replace(/\/$/, '') + '/models';
+    const payload = await getJson<{ data?: Array<Record<string, unknown>> }>(url, { apiKey: config.apiKey, signal });
+    const entry = (payload.data ?? []).find((item) => item.id === config.model);
+    // vLLM reports `max_model_len`; other OpenAI-compatible servers use `context_length`.
+    const value = Number(entry?.max_model_len ?? entry?.context_length ?? entry?.context_window);
+    return Number.isFinite(value) && value > 0 ? value : null;
+  },
+  countTokens: async (config, text, signal) => {
+    // vLLM serves /tokenize next to /v1, not under it.
+    const response = await postJson(
+      `${nativeBaseUrl(config.endpoint)}/tokenize`,
+      { model: config.model, prompt: text, add_special_tokens: false },
+      { apiKey: config.apiKey, signal }
+    );
+    const payload = (await response.json()) as { count?: number; tokens?: number[] };
+    const count = payload.count ?? payload.tokens?.length;
+    if (typeof count !== 'number') {
+      throw new Error('Tokenize response had no token count.');
+    }
+    return count;
+  }
+};
+
+/**
+ * Plain `/chat/completions` request for parameters LangChain does not pass through, such as
+ * vLLM's `guided_json`.
+ */
+async function requestRawChat(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  signal: AbortSignal | undefined,
+  options: ChatRequestOptions
+): Promise<string> {
+  const body: Record<string, unknown> = { model: config.model, messages, temperature: config.temperature };
+  if (options.jsonSchema) {
+    body.guided_json = options.jsonSchema;
+  }
+  const maxTokens = options.maxTokens ?? config.maxTokens;
+  if (maxTokens) {
+    body.max_tokens = maxTokens;
+  }
+  const response = await postJson(config.endpoint.replace(/\/$/, '') + '/chat/completions', body, {
+    apiKey: config.apiKey,
+    signal
+  });
+  const payload = (await response.json()) as { choices?: Array<{ message?: { content?: string | null } }> };
+  return payload.choices?.[0]?.message?.content ?? '';
+}
+
+function getChatModel(config: ResolvedLLMConfig, options: { streaming: boolean }): ChatOpenAI {
+  // OpenAI client expects a baseURL without a trailing slash.
+  const baseURL = config.endpoint.replace(/\/$/, '');
+
+  // Many local OpenAI-compatible servers ignore auth, but OpenAI requires it.
+  // We provide a harmless placeholder key for local setups when one isn't set.
+  const apiKey = config.apiKey ?? 'local';
+
+  const cacheKey = [
+    baseURL,
+    config.model,
+    apiKey,
+    config.timeoutMs,
+    config.temperature,
+    config.maxTokens ?? '',
+    options.streaming ? 'stream' : 'nostream'
+  ].join('|');
+  const cached = modelCache.get(cacheKey);
+  if (cached && cached.streaming === options.streaming) {
+    return cached.model;
+  }
+
+  const model = new ChatOpenAI({
+    modelName: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    streaming: options.streaming,
+    // Retries and endpoint failover happen in failover.ts.
+    maxRetries: 0,
+    openAIApiKey: apiKey,
+    timeout: config.timeoutMs,
+    configuration: {
+      baseURL
+    }
+  });
+
+  modelCache.set(cacheKey, { model, streaming: options.streaming });
+  return model;
+}
+
+function toLangChainMessages(messages: ChatMessage[]): BaseMessage[] {
+  return messages.map((message) => {
+    if (message.role === 'system') {
+      return new SystemMessage(message.content);
+    }
+    if (message.role === 'assistant') {
+      return new AIMessage(message.content);
+    }
+    return new HumanMessage(message.content);
+  });
+}
+
+function normalizeLangChainContent(content: unknown): string {
+  // LangChain content can be a string or an array of rich content parts.
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === 'string') {
+          return part;
+        }
+        if (part && typeof part === 'object' && 'text' in part) {
+          return String((part as { text?: unknown }).text ?? '');
+        }
+        return '';
+      })
+      .join('');
+  }
+  return content == null ? '' : String(content);
+}
@@ -0,0 +1,167 @@
+/**
+ * Opt-in on-disk cache of chat responses, content-addressed by endpoint, model, messages and
+ * sampling parameters. `record` serves hits and stores misses; `replay` serves hits only and fails
+ * on a miss, so evals and repeated runs can be reproduced without a model.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { recordStep } from '../forge/trace';
+import type { ChatMessage } from './client';
+import type { ResolvedLLMConfig } from './config';
+import type { ChatRequestOptions } from './providers';
+
+export type ResponseCacheMode = 'off' | 'record' | 'replay';
+
+export type ResponseCacheOptions = {
+  mode: ResponseCacheMode;
+  /** Cache directory; null disables the cache (e.g. no workspace folder). */
+  directory: () => string | null;
+  /** Entries older than this are ignored and replaced; 0 keeps them forever. */
+  ttlMs: number;
+  /** Least recently used entries are evicted beyond this total size. */
+  maxBytes: number;
+};
+
+type CacheEntry = {
+  version: number;
+  createdAt: number;
+  provider: string;
+  endpoint: string;
+  model: string;
+  content: string;
+};
+
+const CACHE_VERSION = 1;
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+// Outside VS Code (evals) the mode and directory come from FORGE_LLM_CACHE / FORGE_LLM_CACHE_DIR.
+let cacheOptions: ResponseCacheOptions = {
+  mode: parseResponseCacheMode(process.env.FORGE_LLM_CACHE),
+  directory: () => process.env.FORGE_LLM_CACHE_DIR?.trim() || path.join(process.cwd(), '.forge', 'cache'),
+  ttlMs: DEFAULT_TTL_MS,
+  maxBytes: DEFAULT_MAX_BYTES
+};
+
+/** Override cache settings; missing fields keep their current values. */
+export function configureResponseCache(options: Partial<ResponseCacheOptions>): void {
+  cacheOptions = { ...cacheOptions, ...options };
+}
+
+/** Parse a cache mode from settings or env; unset or unknown values mean `off`. */
+export function parseResponseCacheMode(value: string | undefined): ResponseCacheMode {
+  const normalized = (value ?? '').trim().toLowerCase();
+  return normalized === 'record' || normalized === 'replay' ? normalized : 'off';
+}
+
+/**
+ * Serve a request from the cache, or run it and store the content (record mode). `onHit` receives
+ * cached content, e.g. to emit it as a single stream delta.
+ */
+export async function withResponseCache(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  options: ChatRequestOptions | undefined,
+  request: () => Promise<string>,
+  onHit?: (content: string) => void
+): Promise<string> {
+  const directory = cacheOptions.mode === 'off' ? null : cacheOptions.directory();
+  if (!directory) {
+    return request();
+  }
+  const key = buildCacheKey(config, messages, options);
+  const filePath = path.join(directory, `${key}.json`);
+  const cached = readEntry(filePath);
+  if (cached !== null) {
+    recordStep('LLM cache hit', `${config.model} · ${key.slice(0, 12)}`);
+    onHit?.(cached);
+    return cached;
+  }
+  recordStep('LLM cache miss', `${config.model} · ${key.slice(0, 12)} (${cacheOptions.mode})`);
+  if (cacheOptions.mode === 'replay') {
+    throw new Error(`No cached LLM response for this request (cache mode replay, key ${key.slice(0, 12)}).`);
+  }
+  const content = await request();
+  writeEntry(directory, filePath, {
+    version: CACHE_VERSION,
+    createdAt: Date.now(),
+    provider: config.provider,
+    endpoint: config.endpoint,
+    model: config.model,
+    content
+  });
+  return content;
+}
+
+function buildCacheKey(config: ResolvedLLMConfig, messages: ChatMessage[], options: ChatRequestOptions | undefined): string {
+  const material = JSON.stringify({
+    version: CACHE_VERSION,
+    provider: config.provider,
+    endpoint: config.endpoint.replace(/\/$/, ''),
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: options?.maxTokens ?? config.maxTokens ?? null,
+    jsonSchema: options?.jsonSchema ?? null,
+    messages: messages.map((message) => [message.role, message.content])
+  });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+function readEntry(filePath: string): string | null {
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CacheEntry;
+  } catch {
+    return null;
+  }
+  if (entry.version !== CACHE_VERSION || typeof entry.content !== 'string') {
+    return null;
+  }
+  if (cacheOptions.ttlMs > 0 && Date.now() - entry.createdAt > cacheOptions.ttlMs) {
+    return null;
+  }
+  try {
+    // The mtime doubles as the last-used time for eviction.
+    const now = new Date();
+    fs.utimesSync(filePath, now, now);
+  } catch {
+    // Read-only caches still serve hits.
+  }
+  return entry.content;
+}
+
+function writeEntry(directory: string, filePath: string, entry: CacheEntry): void {
+  try {
+    fs.mkdirSync(directory, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry), 'utf8');
+    fs.renameSync(tempPath, filePath);
+    pruneCache(directory);
+  } catch {
+    // The cache is best-effort; a failed write only costs a future miss.
+  }
+}
+
+function pruneCache(directory: string): void {
+  const files = fs
+    .readdirSync(directory)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => {
+      const fullPath = path.join(directory, name);
+      const stat = fs.statSync(fullPath);
+      return { fullPath, size: stat.size, mtimeMs: stat.mtimeMs };
+    });
+  let total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total <= cacheOptions.maxBytes) {
+    return;
+  }
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const file of files) {
+    if (total <= cacheOptions.maxBytes) {
+      break;
+    }
+    fs.rmSync(file.fullPath, { force: true });
+    total -= file.size;
+  }
+}
@@ -1,39 +1,275 @@
-/** Optional model routing for plan/verify/summary calls. */
+/**
+ * Role-based model routing. Every LLM call site names a role; `.forge/models.json` in the workspace
+ * (layered over the `forge.llmModels` setting) maps roles to models on top of the base `forge.llm*` settings.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
 import type { LLMConfig } from './config';
+import { parseLLMProviderKind } from './config';
 
-export type RoutedModelKind = 'plan' | 'verify' | 'summary';
-
-/** Resolve a model override for a specific LLM role (plan/verify/summary). */
-export function getRoutedConfig(kind: RoutedModelKind): LLMConfig {
-  const envModel =
-    kind === 'plan'
-      ? process.env.FORGE_LLM_MODEL_PLAN
-      : kind === 'verify'
-        ? process.env.FORGE_LLM_MODEL_VERIFY
-        : process.env.FORGE_LLM_MODEL_SUMMARY;
-  const envEndpoint =
-    kind === 'plan'
-      ? process.env.FORGE_LLM_ENDPOINT_PLAN
-      : kind === 'verify'
-        ? process.env.FORGE_LLM_ENDPOINT_VERIFY
-        : process.env.FORGE_LLM_ENDPOINT_SUMMARY;
-  const envApiKey =
-    kind === 'plan'
-      ? process.env.FORGE_LLM_API_KEY_PLAN
-      : kind === 'verify'
-        ? process.env.FORGE_LLM_API_KEY_VERIFY
-        : process.env.FORGE_LLM_API_KEY_SUMMARY;
-
-  const config: LLMConfig = {};
-  if (envModel && envModel.trim().length > 0) {
-    config.model = envModel.trim();
-  }
-  if (envEndpoint && envEndpoint.trim().length > 0) {
-    config.endpoint = envEndpoint.trim();
-  }
-  if (envApiKey && envApiKey.trim().length > 0) {
-    config.apiKey = envApiKey.trim();
-  }
-
-  return config;
+export type LLMRole =
+  | 'plan'
+  | 'edit'
+  | 'verify'
+  | 'summary'
+  | 'intent'
+  | 'clarify'
+  | 'answer'
+  | 'rank'
+  | 'commit'
+  | 'memory'
+  | 'purpose';
+
+/** `default` applies to every role without its own route. */
+export type ModelRouteKey = LLMRole | 'default';
+
+/** Per-role overrides; fields left out inherit from the `default` route, then the base settings. */
+export type ModelRoute = Pick<
+  LLMConfig,
+  'provider' | 'endpoint' | 'model' | 'apiKey' | 'temperature' | 'maxTokens' | 'timeoutMs' | 'maxInputTokens' | 'keepAlive'
+>;
+
+/** A model name from `models`, an inline route, or an ordered failover list of either. */
+export type ModelRouteRef = string | ModelRoute | Array<string | ModelRoute>;
+
+/**
+ * `models.json` / `forge.llmModels` shape: named `models`, and `roles` mapping a role (or `default`)
+ * to a route reference.
+ */
+export type ModelRoutingFile = {
+  models?: Record<string, ModelRoute>;
+  roles?: Partial<Record<ModelRouteKey, ModelRouteRef>>;
+};
+
+export type ModelRoutingSource = {
+  /** Base config from the `forge.llm*` settings. */
+  base: LLMConfig;
+  /** Routes from settings; `.forge/models.json` entries win over these. */
+  settings: ModelRoutingFile | null;
+  workspaceRoot: () => string | null;
+  /** Whether `.forge/models.json` may be read (false in untrusted workspaces). */
+  trustWorkspaceFile: () => boolean;
+};
+
+export const MODELS_FILE = path.join('.forge', 'models.json');
+
+const ROUTE_KEYS: ModelRouteKey[] = [
+  'default',
+  'plan',
+  'edit',
+  'verify',
+  'summary',
+  'intent',
+  'clarify',
+  'answer',
+  'rank',
+  'commit',
+  'memory',
+  'purpose'
+];
+
+// Outside VS Code nothing is configured and resolveLLMConfig falls back to FORGE_LLM_* env vars.
+let routingSource: ModelRoutingSource = {
+  base: {},
+  settings: null,
+  workspaceRoot: () => null,
+  trustWorkspaceFile: () => true
+};
+let modelsFileCache: { filePath: string; mtimeMs: number; routes: ModelRoutingFile | null } | null = null;
+
+/** Replace the settings routes are resolved against (called on activation and settings changes). */
+export function configureModelRouting(source: ModelRoutingSource): void {
+  routingSource = source;
+  modelsFileCache = null;
+}
+
+/**
+ * Resolve the LLM config for a role: base settings, then the first `default` route, then the role's
+ * route. Further entries of a route list (the role's, else `default`'s) become failover endpoints.
+ */
+export function getRoutedConfig(role: ModelRouteKey): LLMConfig {
+  const routes = loadRoutes();
+  const defaults = resolveRoute(routes, 'default');
+  const own = role === 'default' ? [] : resolveRoute(routes, role);
+  const chain = own.length > 0 ? own : defaults;
+  const head: LLMConfig[] = [routingSource.base, defaults[0] ?? {}];
+  const [primary = {}, ...rest] = chain;
+  const fallbacks = rest.map((route) => mergeRoutes([...head, route]));
+  const config = mergeRoutes([...head, primary]);
+  return fallbacks.length > 0 ? { ...config, fallbacks } : config;
+}
+
+/** Distinct endpoints across all roles and their failover lists, by provider, endpoint and model. */
+export function listRoutedConfigs(): LLMConfig[] {
+  const seen = new Map<string, LLMConfig>();
+  for (const key of ROUTE_KEYS) {
+    const { fallbacks = [], ...primary } = getRoutedConfig(key);
+    for (const config of [primary, ...fallbacks]) {
+      const id = `${config.provider ?? ''}|${config.endpoint ?? ''}|${config.model ?? ''}`;
+      if (!seen.has(id)) {
+        seen.set(id, config);
+      }
+    }
+  }
+  return Array.from(seen.values());
+}
+
+/** Parse routes from a settings object or models.json; unknown keys and mistyped fields are dropped. */
+export function parseModelRoutingFile(raw: unknown): ModelRoutingFile | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const models: Record<string, ModelRoute> = {};
+  if (isRecord(raw.models)) {
+    for (const [name, value] of Object.entries(raw.models)) {
+      models[name] = parseRoute(value);
+    }
+  }
+  const roles: Partial<Record<ModelRouteKey, ModelRouteRef>> = {};
+  if (isRecord(raw.roles)) {
+    for (const key of ROUTE_KEYS) {
+      const value = raw.roles[key];
+      const entries = (Array.isArray(value) ? value : [value])
+        .map((entry) => parseRouteEntry(entry))
+        .filter((entry): entry is string | ModelRoute => entry !== null);
+      if (entries.length > 0) {
+        roles[key] = Array.isArray(value) ? entries : entries[0];
+      }
+    }
+  }
+  return { models, roles };
+}
+
+function loadRoutes(): ModelRoutingFile {
+  const fromSettings = routingSource.settings ?? {};
+  const fromFile = readModelsFile();
+  if (!fromFile) {
+    return fromSettings;
+  }
+  return {
+    models: { ...fromSettings.models, ...fromFile.models },
+    roles: { ...fromSettings.roles, ...fromFile.roles }
+  };
+}
+
+function readModelsFile(): ModelRoutingFile | null {
+  const rootPath = routingSource.workspaceRoot();
+  if (!rootPath || !routingSource.trustWorkspaceFile()) {
+    return null;
+  }
+  const filePath = path.join(rootPath, MODELS_FILE);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch {
+    return null;
+  }
+  if (modelsFileCache && modelsFileCache.filePath === filePath && modelsFileCache.mtimeMs === mtimeMs) {
+    return modelsFileCache.routes;
+  }
+  let routes: ModelRoutingFile | null;
+  try {
+    routes = parseModelRoutingFile(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch {
+    routes = null;
+  }
+  modelsFileCache = { filePath, mtimeMs, routes };
+  return routes;
+}
+
+/**
+ * Layer routes in order. An API key only stays with the endpoint it was set for, so a route that
+ * points somewhere else (e.g. from a cloned repo's models.json) never receives the user's key.
+ */
+function mergeRoutes(layers: LLMConfig[]): LLMConfig {
+  const merged: LLMConfig = {};
+  let keyEndpoint: string | undefined;
+  for (const layer of layers) {
+    Object.assign(merged, layer);
+    if (layer.apiKey) {
+      keyEndpoint = merged.endpoint;
+    }
+  }
+  if (merged.apiKey && normalizeEndpoint(keyEndpoint) !== normalizeEndpoint(merged.endpoint)) {
+    // Empty rather than undefined so resolveLLMConfig does not fall back to FORGE_LLM_API_KEY.
+    merged.apiKey = '';
+  }
+  return merged;
+}
+
+function normalizeEndpoint(endpoint: string | undefined): string {
+  return (endpoint ?? '').trim().replace(/\/+$/, '');
+}
+
+/** A role's routes in failover order; a name that matches no entry in `models` is a bare model name. */
+function resolveRoute(routes: ModelRoutingFile, key: ModelRouteKey): ModelRoute[] {
+  const value = routes.roles?.[key];
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map((entry) =>
+    typeof entry === 'string' ? routes.models?.[entry] ?? { model: entry } : entry
+  );
+}
+
+function parseRouteEntry(raw: unknown): string | ModelRoute | null {
+  if (typeof raw === 'string') {
+    return raw.trim().length > 0 ? raw.trim() : null;
+  }
+  return isRecord(raw) ? parseRoute(raw) : null;
+}
+
+function parseRoute(raw: unknown): ModelRoute {
+  if (!isRecord(raw)) {
+    return {};
+  }
+  const route: ModelRoute = {};
+  const provider = typeof raw.provider === 'string' ? parseLLMProviderKind(raw.provider) : null;
+  if (provider) {
+    route.provider = provider;
+  }
+  const endpoint = readString(raw.endpoint);
+  if (endpoint) {
+    route.endpoint = endpoint;
+  }
+  const model = readString(raw.model);
+  if (model) {
+    route.model = model;
+  }
+  const apiKey = readString(raw.apiKey);
+  if (apiKey) {
+    route.apiKey = apiKey;
+  }
+  const keepAlive = readString(raw.keepAlive);
+  if (keepAlive) {
+    route.keepAlive = keepAlive;
+  }
+  if (typeof raw.temperature === 'number' && raw.temperature >= 0) {
+    route.temperature = raw.temperature;
+  }
+  const maxTokens = readPositive(raw.maxTokens);
+  if (maxTokens) {
+    route.maxTokens = maxTokens;
+  }
+  const timeoutMs = readPositive(raw.timeoutMs);
+  if (timeoutMs) {
+    route.timeoutMs = timeoutMs;
+  }
+  const maxInputTokens = readPositive(raw.maxInputTokens);
+  if (maxInputTokens) {
+    route.maxInputTokens = maxInputTokens;
+  }
+  return route;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function readPositive(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
 }
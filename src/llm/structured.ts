@@ -1,18 +1,23 @@
 /**
  * Structured JSON helper.
  *
- * Previous versions of Forge relied on OpenAI's `response_format` (json_schema/json_object).
- * That does *not* exist across all OpenAI-compatible backends (and is not guaranteed for vLLM/Ollama),
- * so we standardize on:
+ * `response_format` (json_schema/json_object) does *not* exist across all OpenAI-compatible
+ * backends, so the portable path is:
  * 1) prompt for strict JSON
  * 2) parse + repair
  * 3) validate against the provided JSON schema (Ajv)
  * 4) retry with stricter system instructions when needed
+ *
+ * When a capability probe shows the backend takes a schema for constrained decoding (vLLM
+ * `guided_json`, Ollama `format`, llama.cpp grammars), one constrained request is tried first and
+ * still validated; any failure falls back to the portable path.
  */
 import Ajv, { type ValidateFunction } from 'ajv';
 import type { ChatCompletionResponse, ChatMessage } from './client';
+import { recordStep } from '../forge/trace';
 import { callChatCompletion } from './client';
 import type { LLMConfig } from './config';
+import { supportsGuidedDecoding } from './guided';
 
 export type JsonSchema = Record<string, unknown>;
 
@@ -38,20 +43,39 @@ export async function requestStructuredJson<T>(
   options: StructuredRequestOptions = {}
 ): Promise<T> {
   const maxRetries = Math.max(0, options.maxRetries ?? 2);
+  const config = options.config ?? {};
   let lastError: unknown;
 
+  if (await supportsGuidedDecoding(config, options.signal)) {
+    try {
+      const response = await callChatCompletion(config, messages, options.signal, { jsonSchema: schema });
+      const parsed = extractJsonFromResponse(response);
+      assertValidSchema(schema, parsed);
+      recordStep('Structured output', 'guided decoding');
+      return parsed as T;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      lastError = error;
+      recordStep('Structured output', `guided decoding failed (${String(error)}); falling back to prompt + repair`);
+    }
+  }
+
   for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
     const attemptMessages = attempt === 0 ? messages : buildStrictRetryMessages(messages, attempt);
     try {
-      const response = await callChatCompletion(options.config ?? {}, attemptMessages, options.signal);
+      const response = await callChatCompletion(config, attemptMessages, options.signal);
       const parsed = extractJsonFromResponse(response);
       assertValidSchema(schema, parsed);
+      recordStep('Structured output', `prompt + repair (attempt ${attempt + 1} of ${maxRetries + 1})`);
       return parsed as T;
     } catch (error) {
       lastError = error;
     }
   }
 
+  recordStep('Structured output', `prompt + repair failed after ${maxRetries + 1} attempts`);
   throw lastError ?? new Error('Structured JSON request failed.');
 }
 
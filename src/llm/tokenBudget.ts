@@ -1,50 +1,65 @@
-/** Token budget enforcement for chat messages (approximate). */
+/** Token budget enforcement for chat messages, counted with a pluggable token counter. */
 import type { ChatMessage } from './client';
 
+export type TokenCounter = {
+  /** Where counts come from: a local tokenizer.json, the server's /tokenize, or the ratio estimate. */
+  source: 'tokenizer' | 'server' | 'estimate';
+  count: (text: string) => number;
+};
+
 const DEFAULT_TOKEN_RATIO = 4; // rough chars per token
 const MESSAGE_OVERHEAD = 6;
 
+/** Fallback counter: a fixed characters-per-token ratio. */
+export const ESTIMATE_TOKEN_COUNTER: TokenCounter = {
+  source: 'estimate',
+  count: (text) => Math.ceil(text.length / DEFAULT_TOKEN_RATIO)
+};
+
 export type BudgetResult = {
   messages: ChatMessage[];
   trimmed: boolean;
   estimatedTokens: number;
 };
 
-/** Trim chat messages to fit within an approximate token budget. */
+/** Trim chat messages to fit within a token budget. */
 export function trimMessagesToTokenBudget(
   messages: ChatMessage[],
   maxTokens: number,
-  ratio: number = DEFAULT_TOKEN_RATIO
+  counter: TokenCounter = ESTIMATE_TOKEN_COUNTER
 ): BudgetResult {
   const budget = Math.max(200, Math.floor(maxTokens * 0.9));
   const system = messages.filter((msg) => msg.role === 'system');
   const nonSystem = messages.filter((msg) => msg.role !== 'system');
 
-  const systemBudget = Math.min(estimateMessagesTokens(system, ratio), Math.floor(budget * 0.35));
-  const trimmedSystem = trimMessagesToFit(system, systemBudget, ratio);
-  const remaining = Math.max(0, budget - estimateMessagesTokens(trimmedSystem, ratio));
-  const trimmedNonSystem = trimMessagesFromEnd(nonSystem, remaining, ratio);
+  const systemBudget = Math.min(estimateMessagesTokens(system, counter), Math.floor(budget * 0.35));
+  const trimmedSystem = trimMessagesToFit(system, systemBudget, counter);
+  const remaining = Math.max(0, budget - estimateMessagesTokens(trimmedSystem, counter));
+  const trimmedNonSystem = trimMessagesFromEnd(nonSystem, remaining, counter);
 
   const combined = [...trimmedSystem, ...trimmedNonSystem];
-  const estimatedTokens = estimateMessagesTokens(combined, ratio);
+  const estimatedTokens = estimateMessagesTokens(combined, counter);
   const trimmed = combined.length !== messages.length || estimatedTokens > budget;
   return { messages: combined, trimmed, estimatedTokens };
 }
 
-/** Estimate tokens for a full message list (rough heuristic). */
-export function estimateMessagesTokens(messages: ChatMessage[], ratio: number = DEFAULT_TOKEN_RATIO): number {
-  return messages.reduce((total, msg) => total + estimateMessageTokens(msg, ratio), 0);
+/** Count tokens for a full message list. */
+export function estimateMessagesTokens(
+  messages: ChatMessage[],
+  counter: TokenCounter = ESTIMATE_TOKEN_COUNTER
+): number {
+  return messages.reduce((total, msg) => total + estimateMessageTokens(msg, counter), 0);
 }
 
-/** Estimate tokens for a single message (rough heuristic). */
-export function estimateMessageTokens(message: ChatMessage, ratio: number = DEFAULT_TOKEN_RATIO): number {
-  return Math.ceil(message.content.length / ratio) + MESSAGE_OVERHEAD;
+/** Count tokens for a single message, including per-message chat template overhead. */
+export function estimateMessageTokens(message: ChatMessage, counter: TokenCounter = ESTIMATE_TOKEN_COUNTER): number {
+  return counter.count(message.content) + MESSAGE_OVERHEAD;
 }
 
 function trimMessagesToFit(
   messages: ChatMessage[],
   budget: number,
-  ratio: number
+  counter: TokenCounter
 ): ChatMessage[] {
   if (budget <= 0) {
     return [];
@@ -52,7 +67,7 @@ function trimMessagesToFit(
   const result: ChatMessage[] = [];
   let used = 0;
   for (const msg of messages) {
-    const tokens = estimateMessageTokens(msg, ratio);
+    const tokens = estimateMessageTokens(msg, counter);
     if (used + tokens <= budget) {
       result.push(msg);
       used += tokens;
@@ -62,7 +77,7 @@ function trimMessagesToFit(
     if (remaining <= 0) {
       break;
     }
-    result.push(trimMessageContent(msg, remaining, ratio));
+    result.push(trimMessageContent(msg, remaining, counter));
     used = budget;
     break;
   }
@@ -72,7 +87,7 @@ function trimMessagesToFit(
 function trimMessagesFromEnd(
   messages: ChatMessage[],
   budget: number,
-  ratio: number
+  counter: TokenCounter
 ): ChatMessage[] {
   if (budget <= 0) {
     return [];
@@ -81,7 +96,7 @@ function trimMessagesFromEnd(
   let used = 0;
   for (let i = messages.length - 1; i >= 0; i -= 1) {
     const msg = messages[i];
-    const tokens = estimateMessageTokens(msg, ratio);
+    const tokens = estimateMessageTokens(msg, counter);
     if (used + tokens <= budget) {
       result.unshift(msg);
       used += tokens;
@@ -91,18 +106,28 @@ function trimMessagesFromEnd(
     if (remaining <= 0) {
       break;
     }
-    result.unshift(trimMessageContent(msg, remaining, ratio));
+    result.unshift(trimMessageContent(msg, remaining, counter));
     used = budget;
     break;
   }
   return result;
 }
 
-function trimMessageContent(message: ChatMessage, availableTokens: number, ratio: number): ChatMessage {
-  const maxChars = Math.max(32, Math.floor(availableTokens * ratio));
-  if (message.content.length <= maxChars) {
+function trimMessageContent(message: ChatMessage, availableTokens: number, counter: TokenCounter): ChatMessage {
+  const tokens = counter.count(message.content);
+  if (tokens <= availableTokens) {
     return message;
   }
+  // Cut at this message's own chars-per-token ratio, then shrink until the counter agrees.
+  const ratio = message.content.length / Math.max(1, tokens);
+  let maxChars = Math.max(32, Math.floor(availableTokens * ratio));
+  for (let attempt = 0; attempt < 4 && maxChars > 32; attempt += 1) {
+    const used = counter.count(message.content.slice(0, maxChars));
+    if (used <= availableTokens) {
+      break;
+    }
+    maxChars = Math.max(32, Math.floor((maxChars * availableTokens) / used) - 1);
+  }
   return {
     ...message,
     content: `${message.content.slice(0, maxChars)}\n... (trimmed)`
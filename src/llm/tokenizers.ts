@@ -0,0 +1,145 @@
+/** Token counter selection: a local tokenizer.json, the server's /tokenize, or the ratio estimate. */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadBpeTokenizer } from './bpeTokenizer';
+import type { ChatMessage } from './client';
+import type { ResolvedLLMConfig } from './config';
+import { getLLMProvider } from './providers';
+import { ESTIMATE_TOKEN_COUNTER, type TokenCounter } from './tokenBudget';
+
+const MAX_CACHED_COUNTS = 500;
+
+/** Servers whose /tokenize failed; they are not asked again this session. */
+const serverUnsupported = new Set<string>();
+const serverCounts = new Map<string, number>();
+const tokenizerFileCache = new Map<string, string | null>();
+
+/**
+ * Pick the most exact counter available for this config. Server counts are fetched up front for
+ * the given messages; other text (trimmed prefixes) is scaled by the ratio those counts showed.
+ */
+export async function resolveTokenCounter(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<TokenCounter> {
+  if (config.tokenizer === 'estimate') {
+    return ESTIMATE_TOKEN_COUNTER;
+  }
+  if (config.tokenizer !== 'server') {
+    const filePath = findTokenizerFile(config);
+    const tokenizer = filePath ? loadBpeTokenizer(filePath) : null;
+    if (tokenizer) {
+      return { source: 'tokenizer', count: tokenizer.countTokens };
+    }
+    if (config.tokenizer === 'local') {
+      return ESTIMATE_TOKEN_COUNTER;
+    }
+  }
+  return (await buildServerCounter(config, messages, signal)) ?? ESTIMATE_TOKEN_COUNTER;
+}
+
+/** Forget server support and cached counts, e.g. after the endpoint or model settings change. */
+export function clearTokenCounterCache(): void {
+  serverUnsupported.clear();
+  serverCounts.clear();
+  tokenizerFileCache.clear();
+}
+
+/**
+ * The configured tokenizer.json (a file or a directory holding one), else the Hugging Face hub
+ * cache entry for the model name (`~/.cache/huggingface/hub/models--Org--Name/snapshots/*`).
+ */
+function findTokenizerFile(config: ResolvedLLMConfig): string | null {
+  if (config.tokenizerPath) {
+    const candidate = isDirectory(config.tokenizerPath)
+      ? path.join(config.tokenizerPath, 'tokenizer.json')
+      : config.tokenizerPath;
+    return fs.existsSync(candidate) ? candidate : null;
+  }
+  if (!config.model.includes('/')) {
+    return null;
+  }
+  const cached = tokenizerFileCache.get(config.model);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const hubDir = process.env.HF_HUB_CACHE
+    ?? path.join(process.env.HF_HOME ?? path.join(os.homedir(), '.cache', 'huggingface'), 'hub');
+  const snapshotsDir = path.join(hubDir, `models--${config.model.replace(/\//g, '--')}`, 'snapshots');
+  let found: string | null = null;
+  try {
+    for (const snapshot of fs.readdirSync(snapshotsDir)) {
+      const candidate = path.join(snapshotsDir, snapshot, 'tokenizer.json');
+      if (fs.existsSync(candidate)) {
+        found = candidate;
+        break;
+      }
+    }
+  } catch {
+    found = null;
+  }
+  tokenizerFileCache.set(config.model, found);
+  return found;
+}
+
+async function buildServerCounter(
+  config: ResolvedLLMConfig,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<TokenCounter | null> {
+  const provider = getLLMProvider(config.provider);
+  const serverKey = `${config.provider}|${config.endpoint.replace(/\/$/, '')}|${config.model}`;
+  if (!provider.countTokens || serverUnsupported.has(serverKey)) {
+    return null;
+  }
+  const countTokens = provider.countTokens;
+
+  const exact = new Map<string, number>();
+  try {
+    for (const content of new Set(messages.map((message) => message.content))) {
+      const key = `${serverKey}|${hashText(content)}`;
+      let count = serverCounts.get(key);
+      if (count === undefined) {
+        count = await countTokens(config, content, signal);
+        if (serverCounts.size >= MAX_CACHED_COUNTS) {
+          serverCounts.clear();
+        }
+        serverCounts.set(key, count);
+      }
+      exact.set(content, count);
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    serverUnsupported.add(serverKey);
+    return null;
+  }
+
+  let chars = 0;
+  let tokens = 0;
+  exact.forEach((count, content) => {
+    chars += content.length;
+    tokens += count;
+  });
+  const ratio = tokens > 0 && chars > 0 ? chars / tokens : null;
+  return {
+    source: 'server',
+    count: (text) => exact.get(text) ?? (ratio ? Math.ceil(text.length / ratio) : ESTIMATE_TOKEN_COUNTER.count(text))
+  };
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
@@ -6,6 +6,7 @@ import type { ChatMessage } from '../llm/client';
 import { requestStructuredJson } from '../llm/structured';
 import { TOOL_CALL_SCHEMA } from '../forge/schemas';
 import { recordPrompt, recordResponse, recordStep } from '../forge/trace';
+import { getWorkspaceIndex } from '../indexer/workspaceIndex';
 // Task plan type from the compressor phase.
 import type { TaskPlan } from '../compressor/index';
 
@@ -30,8 +31,14 @@ export type ToolResult = {
 // Allowed tool calls for this phase.
 export type ToolCall =
   | { tool: 'read_file'; path: string }
+  | { tool: 'read_file_range'; path: string; startLine: number; endLine: number }
+  | { tool: 'list_dir'; path?: string }
+  | { tool: 'search_text'; pattern: string; path?: string; maxResults?: number }
+  | { tool: 'find_symbol'; name: string }
+  | { tool: 'propose_patch'; path: string; edits: Array<{ search: string; replace: string }> }
   | { tool: 'request_diff' }
-  | { tool: 'run_validation_command'; command: string };
+  | { tool: 'run_validation_command'; command: string }
+  | { tool: 'finish'; reason?: string };
 
 // Planner inputs: current plan, context, and prior tool outputs.
 export type PlannerInput = {
@@ -65,9 +72,14 @@ export function nextToolCallLocal(input: PlannerInput): ToolCall {
   const previousResults = input.previousResults ?? [];
   const { plan, context } = input;
 
-  // If the plan needs clarification or has no steps, request a diff for grounding.
+  // If the plan needs clarification or has no steps, request a diff once for grounding.
   if (plan.kind === 'clarification' || !plan.steps.length) {
-    return { tool: 'request_diff' };
+    return previousResults.length > 0 ? { tool: 'finish', reason: 'No plan steps left.' } : { tool: 'request_diff' };
+  }
+
+  // Stop once every plan step has had a tool call.
+  if (previousResults.length >= plan.steps.length) {
+    return { tool: 'finish', reason: 'All plan steps covered.' };
   }
 
   // Select the step based on how many tool calls have already run (no skipping).
@@ -81,12 +93,32 @@ export function nextToolCallLocal(input: PlannerInput): ToolCall {
     return { tool: 'run_validation_command', command: validationCommand };
   }
 
-  // If the step mentions a file, read that file.
+  // If the step mentions a file, read that file (or just the requested lines).
   const fileFromStep = pickFileFromStep(step, context);
   if (fileFromStep) {
+    const range = pickLineRange(step);
+    if (range) {
+      return { tool: 'read_file_range', path: fileFromStep, startLine: range.start, endLine: range.end };
+    }
     return { tool: 'read_file', path: fileFromStep };
   }
 
+  // If the step looks for something, prefer a known symbol, then a text search.
+  if (/\b(find|search|locate|grep|where|usages?|references?)\b/.test(stepLower)) {
+    const term = pickSearchTerm(step);
+    if (term) {
+      if (isIndexedSymbol(term)) {
+        return { tool: 'find_symbol', name: term };
+      }
+      return { tool: 'search_text', pattern: term };
+    }
+  }
+
+  // If the step asks about layout, list the mentioned directory (or the root).
+  if (/\b(list|structure|layout|folders?|director(y|ies))\b/.test(stepLower)) {
+    return { tool: 'list_dir', path: pickDirFromStep(step, context) ?? '.' };
+  }
+
   // If the step suggests reading/reviewing, read the active editor file.
   if (stepLower.includes('read') || stepLower.includes('open') || stepLower.includes('review')) {
     const active = toRelativeIfPossible(context.activeEditorFile ?? null, context.workspaceRoot ?? null);
@@ -137,6 +169,67 @@ function pickFileFromStep(step: string, context: ProjectContext): string | null
   return null;
 }
 
+/** Parse a "lines 10-40" / "L10-L40" style range from the plan step. */
+function pickLineRange(step: string): { start: number; end: number } | null {
+  const match = step.match(/\b(?:lines?|L)\s*(\d+)\s*(?:-|to|\.\.|–)\s*L?(\d+)/i);
+  if (!match) {
+    return null;
+  }
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 1 || end < start) {
+    return null;
+  }
+  return { start, end };
+}
+
+/** Pick a quoted term or the most identifier-like token from the plan step. */
+function pickSearchTerm(step: string): string | null {
+  const quoted = step.match(/[`'"]([^`'"]{2,80})[`'"]/);
+  if (quoted) {
+    return quoted[1].trim();
+  }
+  const identifiers = (step.match(/[A-Za-z_$][A-Za-z0-9_$]{2,}/g) ?? []).filter(
+    (token) => /[a-z][A-Z]|_|^[A-Z][a-z]+[A-Z]/.test(token)
+  );
+  return identifiers.length > 0 ? identifiers.sort((a, b) => b.length - a.length)[0] : null;
+}
+
+/** Check whether a term names a symbol in the workspace index. */
+function isIndexedSymbol(term: string): boolean {
+  const index = getWorkspaceIndex();
+  if (!index) {
+    return false;
+  }
+  const lowered = term.toLowerCase();
+  return index.symbols.some((symbol) => symbol.name.toLowerCase() === lowered);
+}
+
+/** Resolve a directory mentioned in the plan step from the known file list. */
+function pickDirFromStep(step: string, context: ProjectContext): string | null {
+  const dirs = new Set<string>();
+  for (const file of context.files ?? []) {
+    const parts = file.replace(/\\/g, '/').split('/');
+    for (let i = 1; i < parts.length; i += 1) {
+      dirs.add(parts.slice(0, i).join('/'));
+    }
+  }
+  const tokens = (step.match(/[A-Za-z0-9_.\/-]+/g) ?? []).map((token) => token.replace(/\/+$/, ''));
+  let bestMatch: string | null = null;
+  for (const token of tokens) {
+    const tokenLower = token.toLowerCase();
+    for (const dir of dirs) {
+      const dirLower = dir.toLowerCase();
+      if (dirLower === tokenLower || dirLower.endsWith(`/${tokenLower}`)) {
+        if (!bestMatch || dir.length < bestMatch.length) {
+          bestMatch = dir;
+        }
+      }
+    }
+  }
+  return bestMatch;
+}
+
 /** Convert an absolute file path to a workspace-relative path when possible. */
 function toRelativeIfPossible(filePath: string | null, rootPath: string | null): string | null {
   if (!filePath) {
@@ -216,8 +309,17 @@ function buildMessages(input: PlannerInput, memoryContext?: string): ChatMessage
       role: 'system',
       content:
         'You are a planner. Return ONLY valid JSON with one of these shapes: ' +
-        '{"tool":"read_file","path":"..."} or {"tool":"request_diff"} or {"tool":"run_validation_command","command":"..."}. ' +
-        'Do not include code fences, comments, or extra text. Choose the next single safe action.'
+        '{"tool":"read_file","path":"..."} or ' +
+        '{"tool":"read_file_range","path":"...","startLine":1,"endLine":80} or ' +
+        '{"tool":"list_dir","path":"..."} or ' +
+        '{"tool":"search_text","pattern":"<regex>","path":"<optional dir>"} or ' +
+        '{"tool":"find_symbol","name":"..."} or ' +
+        '{"tool":"propose_patch","path":"...","edits":[{"search":"...","replace":"..."}]} or ' +
+        '{"tool":"request_diff"} or {"tool":"run_validation_command","command":"..."} ' +
+        'or {"tool":"finish","reason":"..."}. ' +
+        'Paths are relative to the workspace root. propose_patch only previews a patch; it never writes files. ' +
+        'Do not include code fences, comments, or extra text. Choose the next single safe action. ' +
+        'Use PreviousResults to avoid repeating a call; return finish once there is enough context for the task.'
     },
     {
       role: 'user',
@@ -0,0 +1,466 @@
+/** Planner tool execution: read-only workspace tools with path safety and output truncation. */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { harvestContext } from '../context';
+import { buildUnifiedDiff } from '../forge/diff';
+import { applySearchReplaceEdits, formatHunkFailures } from '../forge/hunkEdits';
+import { logOutput } from '../forge/logging';
+import { getForgeSetting } from '../forge/settings';
+import { getDiff, isGitRepo } from '../git';
+import { getWorkspaceIndex } from '../indexer/workspaceIndex';
+import { runCommand } from '../validation';
+import { discoverValidationOptions } from '../validation/providers';
+import type { ForgeUiApi } from '../ui/api';
+import type { ToolCall } from './index';
+
+const MAX_TOOL_OUTPUT_CHARS = 3000;
+const DEFAULT_SEARCH_RESULTS = 40;
+const MAX_SEARCH_RESULTS = 200;
+const MAX_SEARCH_FILES = 5000;
+const MAX_SEARCH_FILE_BYTES = 512 * 1024;
+const MAX_SEARCH_PATTERN_CHARS = 200;
+const MAX_SEARCH_LINE_CHARS = 400;
+const MAX_SEARCH_UNBOUNDED_QUANTIFIERS = 2;
+const SEARCH_TIME_BUDGET_MS = 5_000;
+const MAX_LIST_ENTRIES = 200;
+const MAX_RANGE_LINES = 400;
+const MAX_SYMBOL_RESULTS = 30;
+const DEFAULT_TOOL_TIMEOUT_SECONDS = 600;
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.forge', 'dist', 'out', 'build', 'coverage']);
+
+/** Execute one planner tool call and format its output for the edit prompt. */
+export async function executeToolCall(
+  toolCall: Exclude<ToolCall, { tool: 'finish' }>,
+  rootPath: string,
+  output: vscode.OutputChannel,
+  panelApi: ForgeUiApi | undefined,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (toolCall.tool === 'read_file') {
+    const resolved = resolveToolPath(rootPath, toolCall.path);
+    if (!resolved) {
+      return null;
+    }
+    try {
+      const content = fs.readFileSync(resolved.fullPath, 'utf8');
+      const trimmed = truncateText(content, MAX_TOOL_OUTPUT_CHARS);
+      return `Tool: read_file\nFile: ${resolved.relativePath}\n${trimmed}`;
+    } catch (error) {
+      logOutput(output, panelApi, `Tool read error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  if (toolCall.tool === 'read_file_range') {
+    const resolved = resolveToolPath(rootPath, toolCall.path);
+    if (!resolved) {
+      return null;
+    }
+    try {
+      const lines = fs.readFileSync(resolved.fullPath, 'utf8').split(/\r?\n/);
+      const start = clampLine(toolCall.startLine, lines.length);
+      const end = Math.min(clampLine(toolCall.endLine, lines.length), start + MAX_RANGE_LINES - 1);
+      if (end < start) {
+        return null;
+      }
+      const numbered = lines
+        .slice(start - 1, end)
+        .map((line, index) => `${start + index}: ${line}`)
+        .join('\n');
+      return (
+        `Tool: read_file_range\nFile: ${resolved.relativePath} (lines ${start}-${end} of ${lines.length})\n` +
+        truncateText(numbered, MAX_TOOL_OUTPUT_CHARS)
+      );
+    } catch (error) {
+      logOutput(output, panelApi, `Tool read error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  if (toolCall.tool === 'list_dir') {
+    const resolved = resolveToolPath(rootPath, toolCall.path?.trim() || '.');
+    if (!resolved) {
+      return null;
+    }
+    try {
+      const entries = fs
+        .readdirSync(resolved.fullPath, { withFileTypes: true })
+        .filter((entry) => entry.name !== '.git')
+        .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+        .sort((a, b) => a.localeCompare(b));
+      const shown = entries.slice(0, MAX_LIST_ENTRIES);
+      if (entries.length > shown.length) {
+        shown.push(`... (${entries.length - shown.length} more entries)`);
+      }
+      const label = resolved.relativePath || '.';
+      return `Tool: list_dir\nDirectory: ${label}\n${truncateText(shown.join('\n'), MAX_TOOL_OUTPUT_CHARS)}`;
+    } catch (error) {
+      logOutput(output, panelApi, `Tool list error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  if (toolCall.tool === 'search_text') {
+    const pattern = toolCall.pattern?.trim();
+    if (!pattern) {
+      return null;
+    }
+    const resolved = resolveToolPath(rootPath, toolCall.path?.trim() || '.');
+    if (!resolved) {
+      return null;
+    }
+    const maxResults = Math.min(
+      MAX_SEARCH_RESULTS,
+      Math.max(1, Math.floor(toolCall.maxResults ?? DEFAULT_SEARCH_RESULTS))
+    );
+    const matches = await searchWorkspaceText(rootPath, resolved.fullPath, buildSearchRegex(pattern), maxResults, signal);
+    if (signal?.aborted) {
+      return null;
+    }
+    const body = matches.length > 0 ? matches.join('\n') : '(no matches)';
+    return `Tool: search_text\nPattern: ${pattern}\n${truncateText(body, MAX_TOOL_OUTPUT_CHARS)}`;
+  }
+
+  if (toolCall.tool === 'find_symbol') {
+    const name = toolCall.name?.trim();
+    if (!name) {
+      return null;
+    }
+    const index = getWorkspaceIndex();
+    if (!index) {
+      return `Tool: find_symbol\nSymbol: ${name}\n(workspace index not ready)`;
+    }
+    const lowered = name.toLowerCase();
+    const exact = index.symbols.filter((symbol) => symbol.name.toLowerCase() === lowered);
+    const partial = index.symbols.filter(
+      (symbol) => symbol.name.toLowerCase() !== lowered && symbol.name.toLowerCase().includes(lowered)
+    );
+    const lines = [...exact, ...partial].slice(0, MAX_SYMBOL_RESULTS).map((symbol) => {
+      const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+      const location = symbol.line ? `${symbol.relativePath}:${symbol.line}` : symbol.relativePath;
+      return `${symbol.kind} ${symbol.name}${container} - ${location}`;
+    });
+    const body = lines.length > 0 ? lines.join('\n') : '(no symbols found)';
+    return `Tool: find_symbol\nSymbol: ${name}\n${truncateText(body, MAX_TOOL_OUTPUT_CHARS)}`;
+  }
+
+  if (toolCall.tool === 'propose_patch') {
+    const resolved = resolveToolPath(rootPath, toolCall.path);
+    if (!resolved || !Array.isArray(toolCall.edits) || toolCall.edits.length === 0) {
+      return null;
+    }
+    try {
+      const exists = fs.existsSync(resolved.fullPath);
+      const original = exists ? fs.readFileSync(resolved.fullPath, 'utf8') : '';
+      // Proposals are checked against the current file but never written during preflight.
+      const result = applySearchReplaceEdits(original, toolCall.edits);
+      if (result.failures.length > 0) {
+        return `Tool: propose_patch\n${truncateText(formatHunkFailures(resolved.relativePath, result.failures), MAX_TOOL_OUTPUT_CHARS)}`;
+      }
+      const diff = buildUnifiedDiff(original, result.updated, resolved.relativePath, 3, exists);
+      return (
+        `Tool: propose_patch (not applied)\nFile: ${resolved.relativePath}\n` +
+        truncateText(diff || '(no changes)', MAX_TOOL_OUTPUT_CHARS)
+      );
+    } catch (error) {
+      logOutput(output, panelApi, `Tool patch error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  if (toolCall.tool === 'request_diff') {
+    try {
+      const hasGit = await isGitRepo(rootPath);
+      if (!hasGit) {
+        return null;
+      }
+      const diff = await getDiff(rootPath, { full: false });
+      return diff.trim().length > 0 ? `Tool: request_diff\n${truncateText(diff, MAX_TOOL_OUTPUT_CHARS)}` : null;
+    } catch (error) {
+      logOutput(output, panelApi, `Tool diff error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  if (toolCall.tool === 'run_validation_command') {
+    const resolved = await resolveAgentCommand(toolCall.command?.trim() ?? '', rootPath, output, panelApi);
+    if (resolved && 'error' in resolved) {
+      return `Tool: run_validation_command\nCommand: ${toolCall.command?.trim()}\nError: ${resolved.error}`;
+    }
+    if (!resolved || signal?.aborted) {
+      return null;
+    }
+    const command = resolved.command;
+    try {
+      const result = await runCommand(command, rootPath, output, {
+        signal,
+        timeoutMs: Math.max(0, getForgeSetting<number>('validationTimeoutSeconds') ?? DEFAULT_TOOL_TIMEOUT_SECONDS) * 1000
+      });
+      if (result.cancelled) {
+        return null;
+      }
+      const exit = result.timedOut ? 'timed out' : String(result.code);
+      return `Tool: run_validation_command\nCommand: ${command}\nExit: ${exit}\n${truncateText(result.output, MAX_TOOL_OUTPUT_CHARS)}`;
+    } catch (error) {
+      logOutput(output, panelApi, `Tool validation error: ${String(error)}`);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/** Short human-readable label for a tool call. */
+export function describeToolCall(toolCall: ToolCall): string {
+  switch (toolCall.tool) {
+    case 'read_file':
+      return `read_file ${toolCall.path}`;
+    case 'read_file_range':
+      return `read_file_range ${toolCall.path}:${toolCall.startLine}-${toolCall.endLine}`;
+    case 'list_dir':
+      return `list_dir ${toolCall.path?.trim() || '.'}`;
+    case 'search_text':
+      return `search_text ${toolCall.pattern}`;
+    case 'find_symbol':
+      return `find_symbol ${toolCall.name}`;
+    case 'propose_patch':
+      return `propose_patch ${toolCall.path}`;
+    case 'run_validation_command':
+      return `run_validation_command ${toolCall.command}`;
+    default:
+      return toolCall.tool;
+  }
+}
+
+/** Resolve a tool path inside the workspace root; null when it escapes the root. */
+export function resolveToolPath(
+  rootPath: string,
+  candidate: string
+): { fullPath: string; relativePath: string } | null {
+  const normalized = path.normalize(candidate.replace(/\//g, path.sep));
+  const fullPath = path.isAbsolute(normalized) ? normalized : path.join(rootPath, normalized);
+  const relativePath = path.relative(rootPath, fullPath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+  return { fullPath, relativePath };
+}
+
+/** Cap text at a character budget with a truncation marker. */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}\n... (truncated)`;
+}
+
+/**
+ * Map the planner's command onto a discovered validation command (by command or label). Anything
+ * else is an arbitrary shell command and only runs after the user confirms it; with
+ * `skipConfirmations` nobody is there to confirm, so it is refused with an error for the planner.
+ */
+async function resolveAgentCommand(
+  requested: string,
+  rootPath: string,
+  output: vscode.OutputChannel,
+  panelApi: ForgeUiApi | undefined
+): Promise<{ command: string } | { error: string } | null> {
+  if (!requested) {
+    return null;
+  }
+  const normalized = requested.replace(/\s+/g, ' ');
+  const options = discoverValidationOptions({ ...harvestContext(rootPath), workspaceRoot: rootPath });
+  const known = options.find(
+    (option) => option.command.replace(/\s+/g, ' ') === normalized || option.label === normalized
+  );
+  if (known) {
+    return { command: known.command };
+  }
+  if (getForgeSetting<boolean>('skipConfirmations') === true) {
+    logOutput(output, panelApi, `Refused agent command (not a known validation command): ${requested}`);
+    return {
+      error: `Not a known validation command. Use one of: ${options.map((option) => option.command).join(', ') || '(none)'}`
+    };
+  }
+  const choice = await vscode.window.showWarningMessage(
+    `Forge: The agent wants to run a command that is not a known validation command:\n${requested}`,
+    { modal: true },
+    'Run'
+  );
+  if (choice !== 'Run') {
+    logOutput(output, panelApi, `Skipped agent command: ${requested}`);
+    return null;
+  }
+  return { command: requested };
+}
+
+/**
+ * Treat the pattern as a regex when it is short and cannot backtrack catastrophically (see
+ * isSafeSearchPattern); anything else, or a pattern that does not compile, is matched literally.
+ */
+function buildSearchRegex(pattern: string): RegExp {
+  if (pattern.length <= MAX_SEARCH_PATTERN_CHARS && isSafeSearchPattern(pattern)) {
+    try {
+      return new RegExp(pattern);
+    } catch {
+      // Fall through to a literal match.
+    }
+  }
+  return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+}
+
+/**
+ * Reject backreferences, quantified groups that themselves contain a quantifier or alternation
+ * (`(a+)+`, `(a|ab)*`), and more than a couple of unbounded quantifiers. Model-supplied patterns run
+ * on the extension host, where a runaway match cannot be interrupted.
+ */
+function isSafeSearchPattern(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier or alternation.
+  const groups: boolean[] = [];
+  let previousGroupRisky = false;
+  let unbounded = 0;
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return false;
+      }
+      i += 1;
+      previousGroupRisky = false;
+      continue;
+    }
+    if (char === '[') {
+      let j = i + 1;
+      if (pattern[j] === '^') {
+        j += 1;
+      }
+      if (pattern[j] === ']') {
+        j += 1;
+      }
+      while (j < pattern.length && pattern[j] !== ']') {
+        j += pattern[j] === '\\' ? 2 : 1;
+      }
+      i = j;
+      previousGroupRisky = false;
+      continue;
+    }
+    if (char === '(') {
+      groups.push(false);
+      if (pattern[i + 1] === '?') {
+        // Skip `?:`, `?=`, `?!`, `?<=`, `?<!` and `?<name>` so the `?` is not read as a quantifier.
+        const named = /^\?<[A-Za-z_$][\w$]*>/.exec(pattern.slice(i + 1));
+        i += named ? named[0].length : pattern[i + 2] === '<' ? 3 : 2;
+      }
+      previousGroupRisky = false;
+      continue;
+    }
+    if (char === ')') {
+      previousGroupRisky = groups.pop() === true;
+      if (previousGroupRisky && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      continue;
+    }
+    const braces = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i)) : null;
+    if (char === '*' || char === '+' || char === '?' || braces) {
+      const isUnbounded = char === '*' || char === '+' || (braces !== null && braces[2] !== undefined && !braces[3]);
+      if (previousGroupRisky && char !== '?') {
+        return false;
+      }
+      if (isUnbounded) {
+        unbounded += 1;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      if (braces) {
+        i += braces[0].length - 1;
+      }
+      previousGroupRisky = false;
+      continue;
+    }
+    if (char === '|' && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+    previousGroupRisky = false;
+  }
+  return unbounded <= MAX_SEARCH_UNBOUNDED_QUANTIFIERS;
+}
+
+/**
+ * Walk text files under a directory and collect `path:line: text` matches. The walk is async, stops
+ * when `signal` aborts or the time budget runs out, and only tests the start of very long lines.
+ */
+async function searchWorkspaceText(
+  rootPath: string,
+  startPath: string,
+  regex: RegExp,
+  maxResults: number,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const results: string[] = [];
+  const stack: string[] = [startPath];
+  const deadline = Date.now() + SEARCH_TIME_BUDGET_MS;
+  let scanned = 0;
+
+  while (stack.length > 0 && results.length < maxResults && scanned < MAX_SEARCH_FILES) {
+    if (signal?.aborted || Date.now() > deadline) {
+      break;
+    }
+    const current = stack.pop();
+    if (!current) {
+      break;
+    }
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(current);
+    } catch {
+      continue;
+    }
+    if (stat.isDirectory()) {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(current, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory() && SKIPPED_DIRS.has(entry.name)) {
+          continue;
+        }
+        stack.push(path.join(current, entry.name));
+      }
+      continue;
+    }
+    if (!stat.isFile() || stat.size > MAX_SEARCH_FILE_BYTES) {
+      continue;
+    }
+    scanned += 1;
+    let content: string;
+    try {
+      content = await fs.promises.readFile(current, 'utf8');
+    } catch {
+      continue;
+    }
+    if (content.includes('\u0000')) {
+      continue;
+    }
+    const relativePath = path.relative(rootPath, current).replace(/\\/g, '/');
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length && results.length < maxResults; i += 1) {
+      if (i % 500 === 0 && Date.now() > deadline) {
+        break;
+      }
+      if (regex.test(lines[i].slice(0, MAX_SEARCH_LINE_CHARS))) {
+        results.push(`${relativePath}:${i + 1}: ${lines[i].trim().slice(0, 200)}`);
+      }
+    }
+  }
+  return results;
+}
+
+function clampLine(value: number, lineCount: number): number {
+  const numeric = Number.isFinite(value) ? Math.floor(value) : 1;
+  return Math.min(Math.max(1, numeric), Math.max(1, lineCount));
+}
@@ -1,4 +1,6 @@
 /** UI bridge contract used by Forge runtime to update the webview. */
+import type { RunHistoryDetail, RunHistoryItem } from '../forge/runHistory';
+
 export type ForgeUiApi = {
   setStatus: (text: string) => void;
   appendLog: (text: string) => void;
@@ -8,4 +10,12 @@ export type ForgeUiApi = {
   startStream?: (role?: 'assistant' | 'system' | 'error') => void;
   appendStream?: (text: string) => void;
   endStream?: () => void;
+  showHistory?: (runs: RunHistoryItem[]) => void;
+  showHistoryDetail?: (detail: RunHistoryDetail | null) => void;
 };
+
+/** History tab requests from the webview; `rootPath` and `id` name a run from the listed history. */
+export type RunHistoryRequest =
+  | { type: 'list' }
+  | { type: 'detail'; rootPath: string; id: string }
+  | { type: 'revert'; rootPath: string; id: string };
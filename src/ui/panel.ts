@@ -1,6 +1,7 @@
 /** Webview panel host for the Forge UI. */
 import * as vscode from 'vscode';
-import type { ForgeUiApi } from './api';
+import type { HunkReviewFile, HunkReviewResult } from '../forge/types';
+import type { ForgeUiApi, RunHistoryRequest } from './api';
 import { getForgeHtml } from './template';
 
 /** Manages the Forge webview panel lifecycle and messaging. */
@@ -9,7 +10,10 @@ export class ForgePanel {
   private readonly panel: vscode.WebviewPanel;
   private onRun?: (instruction: string, history?: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>) => void;
   private onStop?: () => void;
+  private onUndo?: () => void;
+  private onHistory?: (request: RunHistoryRequest) => void;
   private pendingSelection?: (result: { files: string[]; cancelled: boolean } | null) => void;
+  private pendingReview?: (result: HunkReviewResult | null) => void;
 
   /** Create a panel or reveal the existing one. */
   static createOrShow(): ForgePanel {
@@ -46,12 +50,31 @@ export class ForgePanel {
       if (message?.type === 'stop') {
         this.onStop?.();
       }
+      if (message?.type === 'undo') {
+        this.onUndo?.();
+      }
+      if (message?.type === 'history') {
+        this.onHistory?.({ type: 'list' });
+      }
+      if (
+        (message?.type === 'historyDetail' || message?.type === 'historyRevert') &&
+        typeof message.rootPath === 'string' &&
+        typeof message.id === 'string'
+      ) {
+        const type = message.type === 'historyDetail' ? 'detail' : 'revert';
+        this.onHistory?.({ type, rootPath: message.rootPath, id: message.id });
+      }
       if (message?.type === 'fileSelectionResult') {
         const files = Array.isArray(message.files) ? message.files : [];
         const cancelled = message.cancelled === true;
         this.pendingSelection?.({ files, cancelled });
         this.pendingSelection = undefined;
       }
+      if (message?.type === 'hunkReviewResult') {
+        const files = Array.isArray(message.files) ? message.files : [];
+        const cancelled = message.cancelled === true;
+        this.settleHunkReview({ files, cancelled });
+      }
       if (message?.type === 'clear') {
         this.panel.webview.postMessage({ type: 'clear' });
       }
@@ -70,6 +93,16 @@ export class ForgePanel {
     this.onStop = handler;
   }
 
+  /** Register the handler invoked when the user asks to undo the last run. */
+  setUndoHandler(handler: () => void): void {
+    this.onUndo = handler;
+  }
+
+  /** Register the handler for history tab requests (list, drill-down, revert). */
+  setHistoryHandler(handler: (request: RunHistoryRequest) => void): void {
+    this.onHistory = handler;
+  }
+
   /** Provide the API used by runtime to update the webview UI. */
   getApi(): ForgeUiApi {
     return {
@@ -80,7 +113,9 @@ export class ForgePanel {
       appendPeek: (entries) => this.panel.webview.postMessage({ type: 'peek', entries }),
       startStream: (role) => this.panel.webview.postMessage({ type: 'streamStart', role }),
       appendStream: (text) => this.panel.webview.postMessage({ type: 'stream', text }),
-      endStream: () => this.panel.webview.postMessage({ type: 'streamEnd' })
+      endStream: () => this.panel.webview.postMessage({ type: 'streamEnd' }),
+      showHistory: (runs) => this.panel.webview.postMessage({ type: 'history', runs }),
+      showHistoryDetail: (detail) => this.panel.webview.postMessage({ type: 'historyDetail', detail })
     };
   }
 
@@ -92,9 +127,43 @@ export class ForgePanel {
     });
   }
 
+  /** Ask the panel UI to review proposed changes hunk by hunk; resolves as cancelled when `signal` aborts. */
+  requestHunkReview(files: HunkReviewFile[], signal?: AbortSignal): Promise<HunkReviewResult | null> {
+    this.settleHunkReview({ files: [], cancelled: true });
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve({ files: [], cancelled: true });
+        return;
+      }
+      const onAbort = () => {
+        this.settleHunkReview({ files: [], cancelled: true });
+        this.panel.webview.postMessage({ type: 'hunkReviewDismiss' });
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingReview = (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      this.panel.webview.postMessage({ type: 'hunkReview', files });
+    });
+  }
+
   /** Dispose the underlying webview panel and clear the singleton. */
   dispose(): void {
+    if (ForgePanel.currentPanel !== this) {
+      return;
+    }
     ForgePanel.currentPanel = undefined;
+    // Pending prompts would otherwise keep the run waiting for a webview that is gone.
+    this.settleHunkReview({ files: [], cancelled: true });
+    this.pendingSelection?.(null);
+    this.pendingSelection = undefined;
     this.panel.dispose();
   }
+
+  private settleHunkReview(result: HunkReviewResult | null): void {
+    const pending = this.pendingReview;
+    this.pendingReview = undefined;
+    pending?.(result);
+  }
 }
@@ -117,6 +117,127 @@ export function getForgeHtml(webview: vscode.Webview): string {
         min-height: 0;
       }
 
+      .tabs {
+        display: flex;
+        gap: 6px;
+        margin-bottom: 12px;
+      }
+
+      .tab {
+        padding: 6px 12px;
+        border-radius: 999px;
+        font-size: 12px;
+        color: var(--muted);
+        background: transparent;
+        border: 1px solid var(--border);
+      }
+
+      .tab.active {
+        color: var(--ink);
+        background: rgba(77, 184, 255, 0.15);
+        border-color: rgba(77, 184, 255, 0.35);
+      }
+
+      .pane {
+        display: flex;
+        flex-direction: column;
+        flex: 1;
+        min-height: 0;
+      }
+
+      .pane.hidden {
+        display: none;
+      }
+
+      .history {
+        flex: 1;
+        overflow-y: auto;
+        padding: 8px;
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+        border-radius: 14px;
+        background: rgba(10, 14, 20, 0.35);
+      }
+
+      .history-item {
+        border: 1px solid var(--border);
+        border-radius: 12px;
+        padding: 10px 12px;
+        background: rgba(13, 18, 26, 0.7);
+        font-size: 12px;
+      }
+
+      .history-instruction {
+        font-size: 13px;
+        color: var(--ink);
+        white-space: pre-wrap;
+      }
+
+      .history-meta {
+        margin-top: 4px;
+        color: var(--muted);
+      }
+
+      .history-chips {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        margin-top: 6px;
+      }
+
+      .chip {
+        padding: 2px 8px;
+        border-radius: 999px;
+        font-size: 11px;
+        border: 1px solid var(--border);
+        color: var(--muted);
+      }
+
+      .chip.ok {
+        color: #7ee787;
+        border-color: rgba(46, 160, 67, 0.4);
+      }
+
+      .chip.fail {
+        color: #ff7b72;
+        border-color: rgba(248, 81, 73, 0.4);
+      }
+
+      .history-actions {
+        display: flex;
+        gap: 6px;
+        margin-top: 8px;
+      }
+
+      .history-actions button {
+        padding: 4px 10px;
+        font-size: 11px;
+        border-radius: 8px;
+      }
+
+      .history-actions button:disabled {
+        opacity: 0.4;
+        cursor: default;
+        transform: none;
+      }
+
+      .history-detail {
+        margin-top: 8px;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        color: #d5dde7;
+      }
+
+      .history-detail:empty {
+        display: none;
+      }
+
+      .history-detail .message {
+        max-width: 100%;
+      }
+
       .steps {
         display: flex;
         flex-wrap: wrap;
@@ -410,6 +531,24 @@ export function getForgeHtml(webview: vscode.Webview): string {
         font-size: 12px;
       }
 
+      .peek-table {
+        border-collapse: collapse;
+        font-family: "Consolas", "Courier New", monospace;
+        font-size: 12px;
+      }
+
+      .peek-table th,
+      .peek-table td {
+        padding: 3px 10px;
+        border: 1px solid rgba(148, 163, 184, 0.2);
+        text-align: left;
+      }
+
+      .peek-table th {
+        color: var(--muted);
+        font-weight: 600;
+      }
+
       .peek-toggle {
         margin-top: 6px;
         background: transparent;
@@ -597,6 +736,49 @@ export function getForgeHtml(webview: vscode.Webview): string {
         color: var(--muted);
       }
 
+      .review-file {
+        margin-bottom: 10px;
+      }
+
+      .review-file-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 6px;
+        font-size: 12px;
+        color: var(--ink);
+        font-weight: 600;
+      }
+
+      .review-hunk {
+        margin: 4px 0 8px 22px;
+        border: 1px solid var(--border);
+        border-radius: 8px;
+        overflow: hidden;
+      }
+
+      .review-hunk.rejected {
+        opacity: 0.45;
+      }
+
+      .review-hunk-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 6px;
+        font-size: 11px;
+        color: var(--muted);
+        background: rgba(148, 163, 184, 0.08);
+      }
+
+      .review-hunk-body {
+        margin: 0;
+        padding: 4px;
+        font-size: 11px;
+        white-space: pre;
+        overflow-x: auto;
+      }
+
       @keyframes fadeUp {
         from {
           opacity: 0;
@@ -645,21 +827,31 @@ export function getForgeHtml(webview: vscode.Webview): string {
       </div>
 
       <div class="card">
-        <div class="steps" id="steps">
-          <div class="step active" data-step="ready">Ready</div>
-          <div class="step" data-step="select">Select</div>
-          <div class="step" data-step="update">Update</div>
-          <div class="step" data-step="apply">Apply</div>
-          <div class="step" data-step="validate">Validate</div>
+        <div class="tabs">
+          <button class="tab active" data-tab="chat">Chat</button>
+          <button class="tab" data-tab="history">History</button>
         </div>
-        <div class="chat" id="chat"></div>
-        <div class="composer">
-          <textarea id="prompt" placeholder="Ask Forge to change the active file..."></textarea>
-          <div class="actions">
-            <button class="primary" id="run">Send</button>
-            <button class="ghost" id="clear">Clear</button>
+        <div class="pane" id="chat-pane">
+          <div class="steps" id="steps">
+            <div class="step active" data-step="ready">Ready</div>
+            <div class="step" data-step="select">Select</div>
+            <div class="step" data-step="update">Update</div>
+            <div class="step" data-step="apply">Apply</div>
+            <div class="step" data-step="validate">Validate</div>
+          </div>
+          <div class="chat" id="chat"></div>
+          <div class="composer">
+            <textarea id="prompt" placeholder="Ask Forge to change the active file..."></textarea>
+            <div class="actions">
+              <button class="primary" id="run">Send</button>
+              <button class="ghost" id="clear">Clear</button>
+              <button class="ghost" id="undo" title="Restore files changed by the last run">Undo</button>
+            </div>
           </div>
         </div>
+        <div class="pane hidden" id="history-pane">
+          <div class="history" id="history"></div>
+        </div>
         <div class="status" id="status">Idle</div>
       </div>
     </div>
@@ -683,6 +875,23 @@ export function getForgeHtml(webview: vscode.Webview): string {
       </div>
     </div>
 
+    <div class="modal" id="review-modal">
+      <div class="modal-card">
+        <div class="modal-header">
+          <div class="modal-title">Review proposed changes</div>
+        </div>
+        <div class="modal-help">Uncheck a hunk or file to leave that part unchanged.</div>
+        <div id="review-list" class="file-list"></div>
+        <div class="modal-actions">
+          <div class="selection-count" id="review-count">0 hunks selected</div>
+          <div>
+            <button class="ghost" id="review-cancel">Reject All</button>
+            <button class="primary" id="review-apply">Apply Selected</button>
+          </div>
+        </div>
+      </div>
+    </div>
+
     <div class="toast" id="toast">Copied</div>
 
     <script nonce="${nonce}">
@@ -690,6 +899,7 @@ export function getForgeHtml(webview: vscode.Webview): string {
       const prompt = document.getElementById('prompt');
       const run = document.getElementById('run');
       const clear = document.getElementById('clear');
+      const undo = document.getElementById('undo');
       const status = document.getElementById('status');
       const chat = document.getElementById('chat');
       const steps = document.getElementById('steps');
@@ -701,10 +911,22 @@ export function getForgeHtml(webview: vscode.Webview): string {
       const fileApply = document.getElementById('file-apply');
       const fileCancel = document.getElementById('file-cancel');
       const fileCount = document.getElementById('file-count');
+      const reviewModal = document.getElementById('review-modal');
+      const reviewList = document.getElementById('review-list');
+      const reviewApply = document.getElementById('review-apply');
+      const reviewCancel = document.getElementById('review-cancel');
+      const reviewCount = document.getElementById('review-count');
       const toast = document.getElementById('toast');
+      const tabs = document.querySelectorAll('.tab');
+      const chatPane = document.getElementById('chat-pane');
+      const historyPane = document.getElementById('history-pane');
+      const historyList = document.getElementById('history');
       let chatHistory = [];
+      let activeTab = 'chat';
+      let expandedRun = null;
       let currentFiles = [];
       let preselectedFiles = [];
+      let reviewFiles = [];
       let emptyState = null;
       let streamMessage = null;
       let streamBuffer = '';
@@ -1071,15 +1293,12 @@ export function getForgeHtml(webview: vscode.Webview): string {
         updateEmptyState();
       };
 
-      // Append a collapsible peek block.
-      const addPeek = (entries) => {
-        if (!entries || !entries.length) return;
-        const container = document.createElement('div');
-        container.className = 'message peek';
+      // Build a collapsible block of trace entries (diffs, tables, hidden sensitive content).
+      const buildPeekDetails = (entries, label) => {
         const details = document.createElement('details');
         details.className = 'peek-details';
         const summary = document.createElement('summary');
-        summary.textContent = 'Peek';
+        summary.textContent = label;
         details.appendChild(summary);
 
         entries.forEach((entry) => {
@@ -1092,8 +1311,36 @@ export function getForgeHtml(webview: vscode.Webview): string {
           content.className = 'peek-content';
           const isSensitive = entry.sensitive === true;
           content.textContent = isSensitive ? '[hidden]' : (entry.content || '');
+          if (entry.kind === 'diff' && !isSensitive) {
+            content.textContent = '';
+            (entry.content || '').split('\n').forEach((line) => {
+              const span = document.createElement('span');
+              const kind = line.startsWith('+') && !line.startsWith('+++')
+                ? 'add'
+                : line.startsWith('-') && !line.startsWith('---')
+                  ? 'remove'
+                  : 'context';
+              span.className = 'diff-line ' + kind;
+              span.textContent = line;
+              content.appendChild(span);
+            });
+          }
+          let body = content;
+          if (entry.kind === 'table' && !isSensitive) {
+            body = document.createElement('table');
+            body.className = 'peek-table';
+            (entry.content || '').split('\n').forEach((line, index) => {
+              const row = document.createElement('tr');
+              line.split('\t').forEach((value) => {
+                const cell = document.createElement(index === 0 ? 'th' : 'td');
+                cell.textContent = value;
+                row.appendChild(cell);
+              });
+              body.appendChild(row);
+            });
+          }
           section.appendChild(title);
-          section.appendChild(content);
+          section.appendChild(body);
 
           if (isSensitive) {
             const toggle = document.createElement('button');
@@ -1114,8 +1361,15 @@ export function getForgeHtml(webview: vscode.Webview): string {
 
           details.appendChild(section);
         });
+        return details;
+      };
 
-        container.appendChild(details);
+      // Append a collapsible peek block.
+      const addPeek = (entries) => {
+        if (!entries || !entries.length) return;
+        const container = document.createElement('div');
+        container.className = 'message peek';
+        container.appendChild(buildPeekDetails(entries, 'Peek'));
         chat.appendChild(container);
         chat.scrollTop = chat.scrollHeight;
         updateEmptyState();
@@ -1183,6 +1437,193 @@ export function getForgeHtml(webview: vscode.Webview): string {
         vscode.postMessage({ type: 'clear' });
       });
 
+      // Ask the extension to undo the last run.
+      undo.addEventListener('click', () => {
+        if (run.dataset.mode === 'stop') {
+          status.textContent = 'Stop the current run before undoing.';
+          return;
+        }
+        vscode.postMessage({ type: 'undo' });
+      });
+
+      // Switch between the chat and history tabs; opening history refreshes it.
+      const showTab = (name) => {
+        activeTab = name;
+        tabs.forEach((tab) => tab.classList.toggle('active', tab.dataset.tab === name));
+        chatPane.classList.toggle('hidden', name !== 'chat');
+        historyPane.classList.toggle('hidden', name !== 'history');
+        if (name === 'history') {
+          vscode.postMessage({ type: 'history' });
+        }
+      };
+
+      tabs.forEach((tab) => tab.addEventListener('click', () => showTab(tab.dataset.tab)));
+
+      const runKey = (item) => item.rootPath + '|' + item.id;
+
+      // Short status chips for a run's outcome, validation and verification.
+      const buildHistoryChips = (item) => {
+        const chips = document.createElement('div');
+        chips.className = 'history-chips';
+        const addChip = (text, tone) => {
+          const chip = document.createElement('span');
+          chip.className = 'chip' + (tone ? ' ' + tone : '');
+          chip.textContent = text;
+          chips.appendChild(chip);
+        };
+        if (item.outcome) {
+          addChip(item.outcome, item.outcome === 'completed' ? 'ok' : item.outcome === 'error' ? 'fail' : '');
+        }
+        if (item.validation) {
+          const label = item.validation.label || item.validation.command || 'validation';
+          addChip(label + (item.validation.ok ? ' passed' : ' failed'), item.validation.ok ? 'ok' : 'fail');
+        }
+        if (item.verification && item.verification.status) {
+          const status = item.verification.status;
+          addChip('verify: ' + status, status === 'pass' ? 'ok' : status === 'fail' ? 'fail' : '');
+        }
+        if (item.reverted) {
+          addChip('reverted', '');
+        }
+        return chips;
+      };
+
+      // Render the list of past runs with their actions.
+      const renderHistory = (runs) => {
+        historyList.textContent = '';
+        if (!runs.length) {
+          const empty = document.createElement('div');
+          empty.className = 'empty';
+          empty.textContent = 'No runs yet. Runs are listed from .forge/memory.json and .forge/runs/ in each workspace folder.';
+          historyList.appendChild(empty);
+          return;
+        }
+        runs.forEach((item) => {
+          const row = document.createElement('div');
+          row.className = 'history-item';
+          row.dataset.run = runKey(item);
+          const instruction = document.createElement('div');
+          instruction.className = 'history-instruction';
+          instruction.textContent = item.instruction;
+          const meta = document.createElement('div');
+          meta.className = 'history-meta';
+          const files = item.filesChanged || [];
+          meta.textContent = [
+            new Date(item.createdAt).toLocaleString(),
+            item.intent || null,
+            files.length ? files.length + ' file' + (files.length === 1 ? '' : 's') + ': ' + files.join(', ') : 'no files changed'
+          ].filter(Boolean).join(' · ');
+
+          const actions = document.createElement('div');
+          actions.className = 'history-actions';
+          const addAction = (label, title, onClick, disabled) => {
+            const button = document.createElement('button');
+            button.className = 'ghost';
+            button.type = 'button';
+            button.textContent = label;
+            button.title = title;
+            button.disabled = disabled === true;
+            button.addEventListener('click', onClick);
+            actions.appendChild(button);
+          };
+          const detail = document.createElement('div');
+          detail.className = 'history-detail';
+          addAction('Details', 'Show the summary, diffs and trace', () => {
+            if (expandedRun === runKey(item)) {
+              expandedRun = null;
+              detail.textContent = '';
+              return;
+            }
+            historyList.querySelectorAll('.history-detail').forEach((element) => {
+              element.textContent = '';
+            });
+            expandedRun = runKey(item);
+            detail.textContent = 'Loading...';
+            vscode.postMessage({ type: 'historyDetail', rootPath: item.rootPath, id: item.id });
+          });
+          addAction('Re-run', 'Run this instruction again', () => {
+            if (run.dataset.mode === 'stop') {
+              status.textContent = 'Stop the current run before re-running.';
+              return;
+            }
+            showTab('chat');
+            prompt.value = item.instruction;
+            run.click();
+          });
+          addAction('Revert', item.canRevert ? 'Restore the files this run changed' : 'Nothing left to revert', () => {
+            if (run.dataset.mode === 'stop') {
+              status.textContent = 'Stop the current run before reverting.';
+              return;
+            }
+            vscode.postMessage({ type: 'historyRevert', rootPath: item.rootPath, id: item.id });
+          }, !item.canRevert);
+          addAction('Copy', 'Copy the instruction', () => {
+            void copyText(item.instruction);
+          });
+
+          row.appendChild(instruction);
+          row.appendChild(meta);
+          row.appendChild(buildHistoryChips(item));
+          row.appendChild(actions);
+          row.appendChild(detail);
+          historyList.appendChild(row);
+        });
+      };
+
+      // Fill the expanded run with its summary, decisions, verification issues, diffs and trace.
+      const renderHistoryDetail = (detail) => {
+        if (!detail) {
+          historyList.querySelectorAll('.history-detail').forEach((element) => {
+            if (element.textContent === 'Loading...') {
+              element.textContent = 'Run not found.';
+            }
+          });
+          return;
+        }
+        const row = Array.from(historyList.querySelectorAll('.history-item'))
+          .find((element) => element.dataset.run === runKey(detail));
+        if (!row || expandedRun !== runKey(detail)) return;
+        const container = row.querySelector('.history-detail');
+        container.textContent = '';
+        const addBlock = (label, text) => {
+          if (!text) return;
+          const block = document.createElement('div');
+          block.className = 'message assistant';
+          block.innerHTML = '<strong>' + escapeHtml(label) + '</strong><br>' + renderMarkdown(text);
+          container.appendChild(block);
+        };
+        addBlock('Summary', detail.summary);
+        if (detail.decisions && detail.decisions.length) {
+          addBlock('Decisions', detail.decisions.map((line) => '- ' + line).join('\n'));
+        }
+        if (detail.verification && detail.verification.issues && detail.verification.issues.length) {
+          addBlock('Verification issues', detail.verification.issues.map((line) => '- ' + line).join('\n'));
+        }
+        if (detail.validation && (detail.validation.introduced || detail.validation.fixed || detail.validation.preExisting)) {
+          addBlock(
+            'Validation',
+            (detail.validation.introduced || 0) + ' introduced, ' +
+              (detail.validation.fixed || 0) + ' fixed, ' +
+              (detail.validation.preExisting || 0) + ' pre-existing'
+          );
+        }
+        const trace = detail.trace || [];
+        const diffs = trace.filter((entry) => entry.kind === 'diff');
+        if (diffs.length) {
+          const details = buildPeekDetails(diffs, 'Diffs (' + diffs.length + ')');
+          details.open = true;
+          container.appendChild(details);
+        }
+        if (trace.length) {
+          container.appendChild(buildPeekDetails(trace, 'Trace (' + trace.length + ' entries)'));
+        } else {
+          addBlock('Trace', 'No run record for this run (see forge.recordRuns).');
+        }
+        if (detail.durationMs) {
+          addBlock('Duration', (detail.durationMs / 1000).toFixed(1) + 's');
+        }
+      };
+
       // Handle messages from the extension host.
       window.addEventListener('message', (event) => {
         const message = event.data;
@@ -1204,6 +1645,9 @@ export function getForgeHtml(webview: vscode.Webview): string {
             run.textContent = 'Send';
             run.dataset.mode = 'send';
             run.classList.remove('running');
+            if (activeTab === 'history') {
+              vscode.postMessage({ type: 'history' });
+            }
           }
         }
         if (message.type === 'activeFile') {
@@ -1262,6 +1706,22 @@ export function getForgeHtml(webview: vscode.Webview): string {
           fileModal.classList.add('show');
           setStep('select');
         }
+        if (message.type === 'hunkReview') {
+          reviewFiles = Array.isArray(message.files) ? message.files : [];
+          renderReviewList(reviewFiles);
+          reviewModal.classList.add('show');
+          setStep('apply');
+        }
+        if (message.type === 'hunkReviewDismiss') {
+          reviewModal.classList.remove('show');
+        }
+        if (message.type === 'history') {
+          renderHistory(Array.isArray(message.runs) ? message.runs : []);
+          expandedRun = null;
+        }
+        if (message.type === 'historyDetail') {
+          renderHistoryDetail(message.detail || null);
+        }
         if (message.type === 'clear') {
           chat.textContent = '';
           streamMessage = null;
@@ -1338,6 +1798,112 @@ export function getForgeHtml(webview: vscode.Webview): string {
         setStep('ready');
       });
 
+      // Render proposed hunks grouped by file with accept toggles.
+      const renderReviewList = (files) => {
+        reviewList.textContent = '';
+        const fragment = document.createDocumentFragment();
+        files.forEach((file, fileIndex) => {
+          const section = document.createElement('div');
+          section.className = 'review-file';
+          const header = document.createElement('label');
+          header.className = 'review-file-header';
+          const fileToggle = document.createElement('input');
+          fileToggle.type = 'checkbox';
+          fileToggle.checked = true;
+          fileToggle.dataset.file = String(fileIndex);
+          const name = document.createElement('span');
+          name.textContent = file.path;
+          header.appendChild(fileToggle);
+          header.appendChild(name);
+          section.appendChild(header);
+
+          const hunks = Array.isArray(file.hunks) ? file.hunks : [];
+          hunks.forEach((hunk, hunkIndex) => {
+            const block = document.createElement('div');
+            block.className = 'review-hunk';
+            const hunkHeader = document.createElement('label');
+            hunkHeader.className = 'review-hunk-header';
+            const hunkToggle = document.createElement('input');
+            hunkToggle.type = 'checkbox';
+            hunkToggle.checked = true;
+            hunkToggle.dataset.file = String(fileIndex);
+            hunkToggle.dataset.hunk = String(hunkIndex);
+            const label = document.createElement('span');
+            label.textContent = hunk.header || 'Hunk ' + (hunkIndex + 1);
+            hunkHeader.appendChild(hunkToggle);
+            hunkHeader.appendChild(label);
+            const body = document.createElement('pre');
+            body.className = 'review-hunk-body';
+            (Array.isArray(hunk.lines) ? hunk.lines : []).forEach((line) => {
+              const span = document.createElement('span');
+              const kind = line.startsWith('+')
+                ? 'add'
+                : line.startsWith('-')
+                  ? 'remove'
+                  : 'context';
+              span.className = 'diff-line ' + kind;
+              span.textContent = line;
+              body.appendChild(span);
+            });
+            hunkToggle.addEventListener('change', () => {
+              block.classList.toggle('rejected', !hunkToggle.checked);
+              syncReviewFileToggle(fileIndex);
+              updateReviewCount();
+            });
+            block.appendChild(hunkHeader);
+            block.appendChild(body);
+            section.appendChild(block);
+          });
+
+          fileToggle.addEventListener('change', () => {
+            section.querySelectorAll('input[data-hunk]').forEach((input) => {
+              input.checked = fileToggle.checked;
+              input.closest('.review-hunk').classList.toggle('rejected', !fileToggle.checked);
+            });
+            fileToggle.indeterminate = false;
+            updateReviewCount();
+          });
+          fragment.appendChild(section);
+        });
+        reviewList.appendChild(fragment);
+        updateReviewCount();
+      };
+
+      // Reflect partial hunk selection on the file checkbox.
+      const syncReviewFileToggle = (fileIndex) => {
+        const hunks = Array.from(reviewList.querySelectorAll('input[data-hunk][data-file="' + fileIndex + '"]'));
+        const fileToggle = reviewList.querySelector('input[data-file="' + fileIndex + '"]:not([data-hunk])');
+        if (!fileToggle) return;
+        const checked = hunks.filter((input) => input.checked).length;
+        fileToggle.checked = checked === hunks.length;
+        fileToggle.indeterminate = checked > 0 && checked < hunks.length;
+      };
+
+      // Update the accepted hunk count in the review modal.
+      const updateReviewCount = () => {
+        const total = reviewList.querySelectorAll('input[data-hunk]').length;
+        const selected = reviewList.querySelectorAll('input[data-hunk]:checked').length;
+        reviewCount.textContent = selected + ' of ' + total + ' hunks selected';
+      };
+
+      // Send accepted hunk indexes per file and close the modal.
+      reviewApply.addEventListener('click', () => {
+        const files = reviewFiles.map((file, fileIndex) => ({
+          path: file.path,
+          accepted: Array.from(reviewList.querySelectorAll('input[data-hunk][data-file="' + fileIndex + '"]:checked'))
+            .map((input) => Number(input.dataset.hunk))
+        }));
+        reviewModal.classList.remove('show');
+        vscode.postMessage({ type: 'hunkReviewResult', files, cancelled: false });
+      });
+
+      // Reject every proposed change and close the modal.
+      reviewCancel.addEventListener('click', () => {
+        reviewModal.classList.remove('show');
+        vscode.postMessage({ type: 'hunkReviewResult', files: [], cancelled: true });
+        setStep('ready');
+      });
+
       ensureEmptyState();
     </script>
   </body>
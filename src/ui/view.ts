@@ -1,6 +1,7 @@
 /** Webview view provider for the Forge sidebar UI. */
 import * as vscode from 'vscode';
-import type { ForgeUiApi } from './api';
+import type { HunkReviewFile, HunkReviewResult } from '../forge/types';
+import type { ForgeUiApi, RunHistoryRequest } from './api';
 import { getForgeHtml } from './template';
 
 /** Provides the Forge sidebar view and handles its messaging. */
@@ -11,7 +12,10 @@ export class ForgeViewProvider implements vscode.WebviewViewProvider {
   private onRun?: (instruction: string, history?: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>) => void;
   private onReady?: () => void;
   private onStop?: () => void;
+  private onUndo?: () => void;
+  private onHistory?: (request: RunHistoryRequest) => void;
   private pendingSelection?: (result: { files: string[]; cancelled: boolean } | null) => void;
+  private pendingReview?: (result: HunkReviewResult | null) => void;
   private readonly extensionUri: vscode.Uri;
 
   /** Create the view provider with the extension URI for resource loading. */
@@ -34,17 +38,44 @@ export class ForgeViewProvider implements vscode.WebviewViewProvider {
       if (message?.type === 'stop') {
         this.onStop?.();
       }
+      if (message?.type === 'undo') {
+        this.onUndo?.();
+      }
+      if (message?.type === 'history') {
+        this.onHistory?.({ type: 'list' });
+      }
+      if (
+        (message?.type === 'historyDetail' || message?.type === 'historyRevert') &&
+        typeof message.rootPath === 'string' &&
+        typeof message.id === 'string'
+      ) {
+        const type = message.type === 'historyDetail' ? 'detail' : 'revert';
+        this.onHistory?.({ type, rootPath: message.rootPath, id: message.id });
+      }
       if (message?.type === 'fileSelectionResult') {
         const files = Array.isArray(message.files) ? message.files : [];
         const cancelled = message.cancelled === true;
         this.pendingSelection?.({ files, cancelled });
         this.pendingSelection = undefined;
       }
+      if (message?.type === 'hunkReviewResult') {
+        const files = Array.isArray(message.files) ? message.files : [];
+        const cancelled = message.cancelled === true;
+        this.settleHunkReview({ files, cancelled });
+      }
       if (message?.type === 'clear') {
         view.webview.postMessage({ type: 'clear' });
       }
     });
 
+    // Pending prompts would otherwise keep the run waiting for a view that is gone.
+    view.onDidDispose(() => {
+      this.view = undefined;
+      this.settleHunkReview({ files: [], cancelled: true });
+      this.pendingSelection?.(null);
+      this.pendingSelection = undefined;
+    });
+
     view.webview.html = getForgeHtml(view.webview);
     this.onReady?.();
   }
@@ -59,6 +90,16 @@ export class ForgeViewProvider implements vscode.WebviewViewProvider {
     this.onStop = handler;
   }
 
+  /** Register the handler invoked when the user asks to undo the last run. */
+  setUndoHandler(handler: () => void): void {
+    this.onUndo = handler;
+  }
+
+  /** Register the handler for history tab requests (list, drill-down, revert). */
+  setHistoryHandler(handler: (request: RunHistoryRequest) => void): void {
+    this.onHistory = handler;
+  }
+
   /** Ask the sidebar UI to present a file selection modal. */
   requestFileSelection(files: string[], preselected: string[] = []): Promise<{ files: string[]; cancelled: boolean } | null> {
     return new Promise((resolve) => {
@@ -71,6 +112,37 @@ export class ForgeViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /** Ask the sidebar UI to review proposed changes hunk by hunk; resolves as cancelled when `signal` aborts. */
+  requestHunkReview(files: HunkReviewFile[], signal?: AbortSignal): Promise<HunkReviewResult | null> {
+    this.settleHunkReview({ files: [], cancelled: true });
+    return new Promise((resolve) => {
+      if (!this.view) {
+        resolve(null);
+        return;
+      }
+      if (signal?.aborted) {
+        resolve({ files: [], cancelled: true });
+        return;
+      }
+      const onAbort = () => {
+        this.settleHunkReview({ files: [], cancelled: true });
+        void this.view?.webview.postMessage({ type: 'hunkReviewDismiss' });
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingReview = (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      this.view.webview.postMessage({ type: 'hunkReview', files });
+    });
+  }
+
+  private settleHunkReview(result: HunkReviewResult | null): void {
+    const pending = this.pendingReview;
+    this.pendingReview = undefined;
+    pending?.(result);
+  }
+
   /** Provide the API used by runtime to update the sidebar UI. */
   getApi(): ForgeUiApi {
     return {
@@ -81,7 +153,9 @@ export class ForgeViewProvider implements vscode.WebviewViewProvider {
       appendPeek: (entries) => this.view?.webview.postMessage({ type: 'peek', entries }),
       startStream: (role) => this.view?.webview.postMessage({ type: 'streamStart', role }),
       appendStream: (text) => this.view?.webview.postMessage({ type: 'stream', text }),
-      endStream: () => this.view?.webview.postMessage({ type: 'streamEnd' })
+      endStream: () => this.view?.webview.postMessage({ type: 'streamEnd' }),
+      showHistory: (runs) => this.view?.webview.postMessage({ type: 'history', runs }),
+      showHistoryDetail: (detail) => this.view?.webview.postMessage({ type: 'historyDetail', detail })
     };
   }
 
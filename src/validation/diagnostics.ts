@@ -0,0 +1,421 @@
+/** Parse validation command output (tsc, ESLint, Jest, Vitest, Mocha, generic) into structured diagnostics. */
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationDiagnostic = {
+  /** Workspace-relative path with forward slashes. */
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: DiagnosticSeverity;
+  code?: string;
+  message: string;
+  source: 'tsc' | 'eslint' | 'jest' | 'vitest' | 'mocha' | 'generic';
+};
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+const MAX_PROMPT_DIAGNOSTICS = 50;
+const MAX_EXCERPT_CHARS = 6000;
+const EXCERPT_CONTEXT_LINES = 2;
+
+/**
+ * Parse one command's output. Tool-specific parsers run first; the generic `file:line:col`
+ * pattern is only used when none of them recognised anything.
+ */
+export function parseValidationOutput(output: string, rootPath: string, commandDir?: string): ValidationDiagnostic[] {
+  if (commandDir) {
+    // Paths are relative to the directory the command ran in; report them relative to the root.
+    const commandRoot = path.join(rootPath, commandDir);
+    return parseValidationOutput(output, commandRoot).flatMap((item) => {
+      const file = normalizeDiagnosticPath(path.join(commandRoot, item.file), rootPath);
+      return file ? [{ ...item, file }] : [];
+    });
+  }
+  const text = output.replace(ANSI_PATTERN, '').replace(/\r\n/g, '\n');
+  const diagnostics = [
+    ...parseTscOutput(text, rootPath),
+    ...parseEslintJsonOutput(text, rootPath),
+    ...parseEslintStylishOutput(text, rootPath),
+    ...parseJestOutput(text, rootPath),
+    ...parseVitestOutput(text, rootPath),
+    ...parseMochaOutput(text, rootPath)
+  ];
+  const parsed = diagnostics.length > 0 ? diagnostics : parseGenericOutput(text, rootPath);
+  return dedupeDiagnostics(parsed);
+}
+
+/** Format diagnostics plus the failing lines of each file for a fix prompt. */
+export function formatDiagnosticsForPrompt(diagnostics: ValidationDiagnostic[], rootPath: string): string {
+  const shown = diagnostics.slice(0, MAX_PROMPT_DIAGNOSTICS);
+  const lines = shown.map((item) => formatDiagnostic(item));
+  if (diagnostics.length > shown.length) {
+    lines.push(`... (${diagnostics.length - shown.length} more diagnostics)`);
+  }
+
+  const excerpts: string[] = [];
+  let excerptChars = 0;
+  for (const file of listDiagnosticFiles(shown)) {
+    const excerpt = buildFileExcerpt(rootPath, file, shown.filter((item) => item.file === file));
+    if (!excerpt) {
+      continue;
+    }
+    if (excerptChars + excerpt.length > MAX_EXCERPT_CHARS) {
+      excerpts.push(`File: ${file} (excerpt omitted, budget reached)`);
+      continue;
+    }
+    excerpts.push(excerpt);
+    excerptChars += excerpt.length;
+  }
+
+  const sections = [`Diagnostics (${diagnostics.length}):\n${lines.join('\n')}`];
+  if (excerpts.length > 0) {
+    sections.push(`Failing code:\n${excerpts.join('\n\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/** One-line `file:line:col severity code (source): message` form. */
+export function formatDiagnostic(item: ValidationDiagnostic): string {
+  const code = item.code ? ` ${item.code}` : '';
+  return `${item.file}:${item.line}:${item.column} ${item.severity}${code} (${item.source}): ${item.message}`;
+}
+
+/** Files with at least one diagnostic, in first-seen order. */
+export function listDiagnosticFiles(diagnostics: ValidationDiagnostic[]): string[] {
+  return Array.from(new Set(diagnostics.map((item) => item.file)));
+}
+
+/** `src/a.ts(10,5): error TS2322: ...` and the pretty `src/a.ts:10:5 - error TS2322: ...` form. */
+function parseTscOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const results: ValidationDiagnostic[] = [];
+  const patterns = [
+    /^(.+?)\((\d+),(\d+)\):\s+(error|warning|message)\s+(TS\d+):\s*(.*)$/gm,
+    /^(.+?):(\d+):(\d+)\s+-\s+(error|warning|message)\s+(TS\d+):\s*(.*)$/gm
+  ];
+  for (const pattern of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const file = normalizeDiagnosticPath(match[1].trim(), rootPath);
+      if (!file) {
+        continue;
+      }
+      results.push({
+        file,
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: match[4] === 'error' ? 'error' : match[4] === 'warning' ? 'warning' : 'info',
+        code: match[5],
+        message: collectContinuation(text, pattern.lastIndex, match[6].trim()),
+        source: 'tsc'
+      });
+    }
+  }
+  return results;
+}
+
+/** `eslint -f json` output: an array of `{ filePath, messages[] }`. */
+function parseEslintJsonOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const start = text.indexOf('[{"filePath"');
+  if (start < 0) {
+    return [];
+  }
+  const end = text.lastIndexOf(']');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  const results: ValidationDiagnostic[] = [];
+  for (const entry of parsed as Array<{ filePath?: string; messages?: Array<Record<string, unknown>> }>) {
+    const file = entry.filePath ? normalizeDiagnosticPath(entry.filePath, rootPath) : null;
+    if (!file || !Array.isArray(entry.messages)) {
+      continue;
+    }
+    for (const message of entry.messages) {
+      results.push({
+        file,
+        line: toPositiveNumber(message.line) ?? 1,
+        column: toPositiveNumber(message.column) ?? 1,
+        endLine: toPositiveNumber(message.endLine),
+        endColumn: toPositiveNumber(message.endColumn),
+        severity: message.severity === 2 ? 'error' : 'warning',
+        code: typeof message.ruleId === 'string' ? message.ruleId : undefined,
+        message: String(message.message ?? '').trim(),
+        source: 'eslint'
+      });
+    }
+  }
+  return results;
+}
+
+/** Default ESLint formatter: a file path line followed by indented `line:col  severity  message  rule` rows. */
+function parseEslintStylishOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const results: ValidationDiagnostic[] = [];
+  let currentFile: string | null = null;
+  for (const line of text.split('\n')) {
+    const row = line.match(/^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/);
+    if (row && currentFile) {
+      results.push({
+        file: currentFile,
+        line: Number(row[1]),
+        column: Number(row[2]),
+        severity: row[3] === 'error' ? 'error' : 'warning',
+        code: row[5],
+        message: row[4].trim(),
+        source: 'eslint'
+      });
+      continue;
+    }
+    if (/^\S/.test(line) && !/\s{2,}/.test(line.trim())) {
+      const candidate = line.trim();
+      currentFile = looksLikeFilePath(candidate) ? normalizeDiagnosticPath(candidate, rootPath) : null;
+    }
+  }
+  return results;
+}
+
+/** Jest: `●` failure blocks, located by the first stack frame inside the workspace. */
+function parseJestOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  if (!/^\s*●\s/m.test(text)) {
+    return [];
+  }
+  const results: ValidationDiagnostic[] = [];
+  const blocks = text.split(/^\s*●\s+/m).slice(1);
+  for (const block of blocks) {
+    const [title, ...rest] = block.split('\n');
+    if (title.trim() === 'Console') {
+      continue;
+    }
+    const body = rest.join('\n');
+    const message = firstMeaningfulLine(body);
+    const frame = findStackFrame(body, rootPath);
+    if (!frame) {
+      continue;
+    }
+    results.push({
+      ...frame,
+      severity: 'error',
+      message: message ? `${title.trim()}: ${message}` : title.trim(),
+      source: 'jest'
+    });
+  }
+  return results;
+}
+
+/** Vitest: `FAIL file > suite > test` headers, then the error and a `❯ file:line:col` frame. */
+function parseVitestOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const results: ValidationDiagnostic[] = [];
+  const pattern = /^\s*FAIL\s+(\S+)\s+>\s+(.+)$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const rest = text.slice(pattern.lastIndex);
+    const next = rest.search(/^\s*FAIL\s+/m);
+    const body = next >= 0 ? rest.slice(0, next) : rest;
+    const frameMatch = body.match(/❯\s+(\S+?):(\d+):(\d+)/);
+    const frameFile = frameMatch ? normalizeDiagnosticPath(frameMatch[1], rootPath) : null;
+    const file = frameFile ?? normalizeDiagnosticPath(match[1], rootPath);
+    if (!file) {
+      continue;
+    }
+    const message = firstMeaningfulLine(body);
+    results.push({
+      file,
+      line: frameFile && frameMatch ? Number(frameMatch[2]) : 1,
+      column: frameFile && frameMatch ? Number(frameMatch[3]) : 1,
+      severity: 'error',
+      message: message ? `${match[2].trim()}: ${message}` : match[2].trim(),
+      source: 'vitest'
+    });
+  }
+  return results;
+}
+
+/** Mocha: numbered `1) suite test:` failures after the `N failing` summary. */
+function parseMochaOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const summary = text.search(/^\s*\d+ failing\s*$/m);
+  if (summary < 0) {
+    return [];
+  }
+  const results: ValidationDiagnostic[] = [];
+  const blocks = text.slice(summary).split(/^\s{2}\d+\)\s+/m).slice(1);
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const titleLines: string[] = [];
+    let index = 0;
+    while (index < lines.length) {
+      titleLines.push(lines[index].trim());
+      if (lines[index].trim().endsWith(':')) {
+        break;
+      }
+      index += 1;
+    }
+    const body = lines.slice(index + 1).join('\n');
+    const frame = findStackFrame(body, rootPath);
+    if (!frame) {
+      continue;
+    }
+    const title = titleLines.join(' ').replace(/:$/, '').trim();
+    const message = firstMeaningfulLine(body);
+    results.push({
+      ...frame,
+      severity: 'error',
+      message: message ? `${title}: ${message}` : title,
+      source: 'mocha'
+    });
+  }
+  return results;
+}
+
+/** `file:line:col: message`, `file:line: message` and `file(line,col): message` for other tools. */
+function parseGenericOutput(text: string, rootPath: string): ValidationDiagnostic[] {
+  const results: ValidationDiagnostic[] = [];
+  const patterns = [
+    /^\s*([^\s:()]+\.[A-Za-z0-9]+):(\d+)(?::(\d+))?:?\s*(?:-\s*)?(?:(error|warning|note|info)\b:?\s*)?(.+)$/gim,
+    /^\s*([^\s:()]+\.[A-Za-z0-9]+)\((\d+)(?:,(\d+))?\):\s*(?:(error|warning|note|info)\b:?\s*)?(.+)$/gim
+  ];
+  for (const pattern of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const file = normalizeDiagnosticPath(match[1], rootPath);
+      // Only trust generic matches that point at real workspace files.
+      if (!file || !fs.existsSync(path.join(rootPath, file))) {
+        continue;
+      }
+      const severityWord = (match[4] ?? 'error').toLowerCase();
+      results.push({
+        file,
+        line: Number(match[2]),
+        column: match[3] ? Number(match[3]) : 1,
+        severity: severityWord === 'warning' ? 'warning' : severityWord === 'error' ? 'error' : 'info',
+        message: match[5].trim(),
+        source: 'generic'
+      });
+    }
+  }
+  return results;
+}
+
+/** First `at ... (file:line:col)` or bare `file:line:col` frame that sits in the workspace, outside node_modules. */
+function findStackFrame(
+  body: string,
+  rootPath: string
+): { file: string; line: number; column: number } | null {
+  const pattern = /(?:\(|\s|^)((?:[A-Za-z]:)?[^\s():]+\.[A-Za-z0-9]+):(\d+):(\d+)\)?/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const file = normalizeDiagnosticPath(match[1], rootPath);
+    if (file) {
+      return { file, line: Number(match[2]), column: Number(match[3]) };
+    }
+  }
+  return null;
+}
+
+/** Map a reported path to a workspace-relative one; null for paths outside the root or in node_modules. */
+function normalizeDiagnosticPath(candidate: string, rootPath: string): string | null {
+  const cleaned = candidate.replace(/^file:\/\//, '').trim();
+  if (!cleaned) {
+    return null;
+  }
+  const fullPath = path.isAbsolute(cleaned) ? cleaned : path.join(rootPath, cleaned);
+  const relative = path.relative(rootPath, fullPath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  const normalized = relative.replace(/\\/g, '/');
+  if (normalized.split('/').includes('node_modules')) {
+    return null;
+  }
+  return normalized;
+}
+
+function looksLikeFilePath(value: string): boolean {
+  return /^(?:[A-Za-z]:)?[^\s]*[\\/][^\s]*\.[A-Za-z0-9]+$/.test(value) || /^[^\s\\/]+\.[A-Za-z0-9]+$/.test(value);
+}
+
+/** tsc wraps long messages onto indented lines; fold them into the first line. */
+function collectContinuation(text: string, offset: number, first: string): string {
+  const parts = [first];
+  const rest = text.slice(offset + 1).split('\n');
+  for (const line of rest) {
+    if (!/^\s{2,}\S/.test(line) || parts.length >= 4) {
+      break;
+    }
+    parts.push(line.trim());
+  }
+  return parts.join(' ');
+}
+
+function firstMeaningfulLine(body: string): string | null {
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || /^at\s/.test(trimmed) || /^[❯>|]/.test(trimmed) || /^\d+\s*\|/.test(trimmed)) {
+      continue;
+    }
+    return trimmed.slice(0, 300);
+  }
+  return null;
+}
+
+function toPositiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function dedupeDiagnostics(diagnostics: ValidationDiagnostic[]): ValidationDiagnostic[] {
+  const seen = new Set<string>();
+  return diagnostics.filter((item) => {
+    const key = `${item.file}:${item.line}:${item.column}:${item.message}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Numbered lines around each diagnostic in one file, overlapping windows merged. */
+function buildFileExcerpt(rootPath: string, file: string, diagnostics: ValidationDiagnostic[]): string | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(path.join(rootPath, file), 'utf8');
+  } catch {
+    return null;
+  }
+  const lines = content.split(/\r?\n/);
+  const ranges = diagnostics
+    .map((item) => ({
+      start: Math.max(1, item.line - EXCERPT_CONTEXT_LINES),
+      end: Math.min(lines.length, (item.endLine ?? item.line) + EXCERPT_CONTEXT_LINES)
+    }))
+    .sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  const blocks = merged
+    .filter((range) => range.start <= range.end)
+    .map((range) =>
+      lines
+        .slice(range.start - 1, range.end)
+        .map((line, index) => `${range.start + index}: ${line}`)
+        .join('\n')
+    );
+  if (blocks.length === 0) {
+    return null;
+  }
+  const spans = merged.map((range) => `${range.start}-${range.end}`).join(', ');
+  return `File: ${file} (lines ${spans})\n${blocks.join('\n...\n')}`;
+}
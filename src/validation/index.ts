@@ -5,6 +5,8 @@ import type { OutputChannel } from 'vscode';
 export type ValidationOption = {
   label: string;
   command: string;
+  /** Workspace-relative directory the command changes into; paths in its output are relative to it. */
+  dir?: string;
 };
 
 /** Build validation options from package.json scripts and package manager. */
@@ -39,30 +41,153 @@ export function buildValidationOptions(
 export type CommandResult = {
   code: number;
   output: string;
+  /** Killed because `timeoutMs` elapsed. */
+  timedOut: boolean;
+  /** Killed because the run's abort signal fired. */
+  cancelled: boolean;
+  /** Captured output exceeded `maxOutputChars`; the middle was dropped. */
+  truncated: boolean;
 };
 
-/** Run a shell command and stream output to the VS Code output channel. */
-export function runCommand(command: string, cwd: string, output: OutputChannel): Promise<CommandResult> {
+export type RunCommandOptions = {
+  signal?: AbortSignal;
+  /** Kill the command after this many milliseconds; 0 or undefined disables the limit. */
+  timeoutMs?: number;
+  /** Cap on captured output; the first and last halves are kept. */
+  maxOutputChars?: number;
+};
+
+export const DEFAULT_MAX_OUTPUT_CHARS = 200000;
+const KILL_GRACE_MS = 3000;
+
+/**
+ * Run a shell command and stream output to the VS Code output channel. The command runs in its
+ * own process group so abort and timeout kill everything it started, not just the shell.
+ */
+export function runCommand(
+  command: string,
+  cwd: string,
+  output: OutputChannel,
+  options: RunCommandOptions = {}
+): Promise<CommandResult> {
   return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      resolve({ code: 1, output: '', timedOut: false, cancelled: true, truncated: false });
+      return;
+    }
     output.appendLine(`> ${command}`);
-    const child = spawn(command, { cwd, shell: true, env: process.env });
-    let buffer = '';
+    const child = spawn(command, { cwd, shell: true, env: process.env, detached: process.platform !== 'win32' });
+    const captured = createOutputBuffer(Math.max(1000, options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS));
+    let timedOut = false;
+    let cancelled = false;
+    let killTimer: NodeJS.Timeout | null = null;
+
+    const stop = () => {
+      if (killTimer) {
+        return;
+      }
+      killProcessTree(child.pid, 'SIGTERM');
+      // Not cleared when the shell exits: grandchildren that ignore SIGTERM still get the SIGKILL.
+      killTimer = setTimeout(() => killProcessTree(child.pid, 'SIGKILL'), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+    const onAbort = () => {
+      cancelled = true;
+      output.appendLine('Command cancelled.');
+      stop();
+    };
+    const timeoutTimer =
+      options.timeoutMs && options.timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            output.appendLine(`Command timed out after ${Math.round(options.timeoutMs! / 1000)}s.`);
+            stop();
+          }, options.timeoutMs)
+        : null;
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+      }
+      options.signal?.removeEventListener('abort', onAbort);
+    };
 
     child.stdout.on('data', (data) => {
       const text = data.toString();
-      buffer += text;
+      captured.append(text);
       output.appendLine(text);
     });
     child.stderr.on('data', (data) => {
       const text = data.toString();
-      buffer += text;
+      captured.append(text);
       output.appendLine(text);
     });
-    child.on('error', (error) => reject(error));
-    child.on('close', (code) => resolve({ code: code ?? 0, output: buffer }));
+    child.on('error', (error) => {
+      cleanup();
+      reject(error);
+    });
+    child.on('close', (code) => {
+      cleanup();
+      // A killed process reports no exit code; never let that read as success.
+      const exitCode = code ?? 1;
+      resolve({
+        code: timedOut || cancelled ? exitCode || 1 : exitCode,
+        output: captured.text(),
+        timedOut,
+        cancelled,
+        truncated: captured.truncated()
+      });
+    });
   });
 }
 
+/** Kill a command and everything it spawned (the process group on POSIX, the tree on Windows). */
+function killProcessTree(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (!pid) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-pid, signal);
+    }
+  } catch {
+    // Already exited.
+  }
+}
+
+/** Keep the first and last halves of long output, dropping the middle. */
+function createOutputBuffer(maxChars: number) {
+  const half = Math.floor(maxChars / 2);
+  let head = '';
+  let tail = '';
+  let dropped = 0;
+  return {
+    append(text: string) {
+      if (head.length < half) {
+        const room = half - head.length;
+        head += text.slice(0, room);
+        text = text.slice(room);
+      }
+      if (text.length === 0) {
+        return;
+      }
+      tail += text;
+      if (tail.length > half) {
+        dropped += tail.length - half;
+        tail = tail.slice(tail.length - half);
+      }
+    },
+    text() {
+      return dropped > 0 ? `${head}\n... [${dropped} chars truncated] ...\n${tail}` : head + tail;
+    },
+    truncated() {
+      return dropped > 0;
+    }
+  };
+}
+
 /** Map a package manager to the correct script execution prefix. */
 function buildScriptPrefix(packageManager: string | null): string {
   if (packageManager === 'yarn') {
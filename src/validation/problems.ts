@@ -0,0 +1,56 @@
+/** Publish parsed validation diagnostics to the Problems panel. */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { isInsideRoot } from '../context/workspaceRoots';
+import type { ValidationDiagnostic } from './diagnostics';
+
+let collection: vscode.DiagnosticCollection | null = null;
+
+/** Create the Forge diagnostic collection for the extension's lifetime. */
+export function registerValidationProblems(context: vscode.ExtensionContext): void {
+  collection = vscode.languages.createDiagnosticCollection('forge');
+  context.subscriptions.push(collection);
+}
+
+/** Replace the Problems entries for one workspace folder with the latest validation results. */
+export function publishValidationDiagnostics(rootPath: string, diagnostics: ValidationDiagnostic[]): void {
+  if (!collection) {
+    return;
+  }
+  const target = collection;
+  const stale: vscode.Uri[] = [];
+  target.forEach((uri) => {
+    if (isInsideRoot(rootPath, uri.fsPath)) {
+      stale.push(uri);
+    }
+  });
+  stale.forEach((uri) => target.delete(uri));
+
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  for (const item of diagnostics) {
+    const startLine = Math.max(0, item.line - 1);
+    const startColumn = Math.max(0, item.column - 1);
+    const endLine = Math.max(startLine, (item.endLine ?? item.line) - 1);
+    // Without an end column, underline through the end of the start line.
+    const endColumn = item.endColumn !== undefined ? Math.max(0, item.endColumn - 1) : Number.MAX_SAFE_INTEGER;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(startLine, startColumn, endLine, endColumn),
+      item.message,
+      item.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : item.severity === 'warning'
+          ? vscode.DiagnosticSeverity.Warning
+          : vscode.DiagnosticSeverity.Information
+    );
+    diagnostic.source = `forge (${item.source})`;
+    if (item.code) {
+      diagnostic.code = item.code;
+    }
+    const list = byFile.get(item.file) ?? [];
+    list.push(diagnostic);
+    byFile.set(item.file, list);
+  }
+  byFile.forEach((list, file) => {
+    target.set(vscode.Uri.file(path.join(rootPath, file)), list);
+  });
+}
@@ -0,0 +1,260 @@
+/** Validation providers: discover check commands for Node, Python, Go, Rust, Makefiles and workspace config. */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProjectContext } from '../context';
+import { isInsideRoot } from '../context/workspaceRoots';
+import { buildValidationOptions, type ValidationOption } from './index';
+
+export type ValidationProviderContext = Pick<
+  ProjectContext,
+  'workspaceRoot' | 'activeEditorFile' | 'packageJson' | 'packageManager'
+>;
+
+export type ValidationProvider = {
+  id: string;
+  /**
+   * Explicit entry points (workspace config, Makefile) usually wrap the ecosystem tools, so their
+   * labels replace detected commands with the same label instead of running both.
+   */
+  authoritative: boolean;
+  detect: (rootPath: string, context: ValidationProviderContext) => ValidationOption[];
+};
+
+type ValidationConfig = {
+  /** Set to false to run only the declared commands. */
+  detect?: boolean;
+  commands?: Array<{ label?: unknown; command?: unknown }>;
+};
+
+const CONFIG_FILE = path.join('.forge', 'validation.json');
+const MAKE_TARGET_LABELS: Record<string, ValidationOption['label']> = {
+  test: 'test',
+  lint: 'lint',
+  typecheck: 'typecheck',
+  check: 'typecheck',
+  build: 'build'
+};
+
+const workspaceConfigProvider: ValidationProvider = {
+  id: 'config',
+  authoritative: true,
+  detect: (rootPath) => {
+    const config = readValidationConfig(rootPath);
+    return (config?.commands ?? [])
+      .filter((item) => typeof item.label === 'string' && typeof item.command === 'string')
+      .map((item) => ({ label: String(item.label).trim(), command: String(item.command).trim() }))
+      .filter((item) => item.label.length > 0 && item.command.length > 0);
+  }
+};
+
+const makefileProvider: ValidationProvider = {
+  id: 'make',
+  authoritative: true,
+  detect: (rootPath, context) => {
+    const dir = findProjectDir(rootPath, context.activeEditorFile, ['Makefile', 'makefile', 'GNUmakefile']);
+    if (dir === null) {
+      return [];
+    }
+    const makefile = ['GNUmakefile', 'makefile', 'Makefile']
+      .map((name) => path.join(rootPath, dir, name))
+      .find((candidate) => fs.existsSync(candidate));
+    const text = makefile ? readText(makefile) : '';
+    const options: ValidationOption[] = [];
+    const seen = new Set<string>();
+    for (const match of text.matchAll(/^([A-Za-z][\w.-]*)\s*:(?!=)/gm)) {
+      const target = match[1];
+      const label = MAKE_TARGET_LABELS[target];
+      if (!label || seen.has(label)) {
+        continue;
+      }
+      seen.add(label);
+      options.push(inDir(dir, label, `make ${target}`));
+    }
+    return options;
+  }
+};
+
+const nodeProvider: ValidationProvider = {
+  id: 'node',
+  authoritative: false,
+  detect: (_rootPath, context) => buildValidationOptions(context.packageJson, context.packageManager)
+};
+
+const pythonProvider: ValidationProvider = {
+  id: 'python',
+  authoritative: false,
+  detect: (rootPath, context) => {
+    const dir = findProjectDir(rootPath, context.activeEditorFile, [
+      'pyproject.toml',
+      'pytest.ini',
+      'setup.cfg',
+      'tox.ini'
+    ]);
+    if (dir === null) {
+      return [];
+    }
+    const projectDir = path.join(rootPath, dir);
+    const has = (name: string) => fs.existsSync(path.join(projectDir, name));
+    const pyproject = readText(path.join(projectDir, 'pyproject.toml'));
+    const setupCfg = readText(path.join(projectDir, 'setup.cfg'));
+    const run = pythonRunner(projectDir);
+
+    const options: ValidationOption[] = [];
+    if (
+      has('pytest.ini') ||
+      has('conftest.py') ||
+      has('tests') ||
+      pyproject.includes('[tool.pytest') ||
+      setupCfg.includes('[tool:pytest]')
+    ) {
+      options.push(inDir(dir, 'test', `${run}pytest`));
+    }
+    if (has('ruff.toml') || has('.ruff.toml') || pyproject.includes('[tool.ruff')) {
+      options.push(inDir(dir, 'lint', `${run}ruff check .`));
+    }
+    if (has('mypy.ini') || has('.mypy.ini') || pyproject.includes('[tool.mypy') || setupCfg.includes('[mypy')) {
+      options.push(inDir(dir, 'typecheck', `${run}mypy .`));
+    }
+    return options;
+  }
+};
+
+const goProvider: ValidationProvider = {
+  id: 'go',
+  authoritative: false,
+  detect: (rootPath, context) => {
+    const dir = findProjectDir(rootPath, context.activeEditorFile, ['go.mod']);
+    if (dir === null) {
+      return [];
+    }
+    return [
+      inDir(dir, 'test', 'go test ./...'),
+      inDir(dir, 'lint', 'go vet ./...'),
+      inDir(dir, 'build', 'go build ./...')
+    ];
+  }
+};
+
+const rustProvider: ValidationProvider = {
+  id: 'rust',
+  authoritative: false,
+  detect: (rootPath, context) => {
+    const dir = findProjectDir(rootPath, context.activeEditorFile, ['Cargo.toml']);
+    if (dir === null) {
+      return [];
+    }
+    return [
+      inDir(dir, 'test', 'cargo test'),
+      inDir(dir, 'lint', 'cargo clippy'),
+      inDir(dir, 'typecheck', 'cargo check')
+    ];
+  }
+};
+
+const VALIDATION_PROVIDERS: ValidationProvider[] = [
+  workspaceConfigProvider,
+  makefileProvider,
+  nodeProvider,
+  pythonProvider,
+  goProvider,
+  rustProvider
+];
+
+/**
+ * Collect validation options from every provider. Labels stay within test/lint/typecheck/build
+ * (plus any custom labels from `.forge/validation.json`); several ecosystems may share a label.
+ */
+export function discoverValidationOptions(context: ValidationProviderContext): ValidationOption[] {
+  const rootPath = context.workspaceRoot;
+  if (!rootPath) {
+    return buildValidationOptions(context.packageJson, context.packageManager);
+  }
+  const config = readValidationConfig(rootPath);
+  const providers = config?.detect === false ? [workspaceConfigProvider] : VALIDATION_PROVIDERS;
+
+  const options: ValidationOption[] = [];
+  const claimedLabels = new Set<string>();
+  for (const provider of providers) {
+    let detected: ValidationOption[];
+    try {
+      detected = provider.detect(rootPath, context);
+    } catch {
+      continue;
+    }
+    for (const option of detected) {
+      if (claimedLabels.has(option.label) && !provider.authoritative) {
+        continue;
+      }
+      if (options.some((existing) => existing.command === option.command)) {
+        continue;
+      }
+      options.push(option);
+    }
+    if (provider.authoritative) {
+      detected.forEach((option) => claimedLabels.add(option.label));
+    }
+  }
+  return options;
+}
+
+function readValidationConfig(rootPath: string): ValidationConfig | null {
+  const filePath = path.join(rootPath, CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ValidationConfig;
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Directory (relative to root, '' for the root) holding one of the marker files: the root itself,
+ * else the nearest ancestor of the active editor file inside the workspace.
+ */
+function findProjectDir(rootPath: string, activeFile: string | null, markers: string[]): string | null {
+  const hasMarker = (dir: string) => markers.some((name) => fs.existsSync(path.join(dir, name)));
+  if (hasMarker(rootPath)) {
+    return '';
+  }
+  if (!activeFile || !isInsideRoot(rootPath, activeFile)) {
+    return null;
+  }
+  let dir = path.dirname(activeFile);
+  while (dir !== rootPath && isInsideRoot(rootPath, dir)) {
+    if (hasMarker(dir)) {
+      return path.relative(rootPath, dir).replace(/\\/g, '/');
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+  return null;
+}
+
+/** Prefix for Python tools: the project's lockfile runner when present, else the active interpreter. */
+function pythonRunner(projectDir: string): string {
+  if (fs.existsSync(path.join(projectDir, 'uv.lock'))) {
+    return 'uv run ';
+  }
+  if (fs.existsSync(path.join(projectDir, 'poetry.lock'))) {
+    return 'poetry run ';
+  }
+  return 'python -m ';
+}
+
+function inDir(dir: string, label: string, command: string): ValidationOption {
+  return dir ? { label, command: `cd ${JSON.stringify(dir)} && ${command}`, dir } : { label, command };
+}
+
+function readText(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return '';
+  }
+}